@@ -0,0 +1,128 @@
+import { getDriver, toHarnessConfig } from './drivers';
+import type { BatchRunRequest, BatchRunUpdateMessage, HeadlessEvent } from '../shared/types';
+
+/**
+ * Runs one prompt headless in many workspaces, a few at a time.
+ *
+ * Each workspace gets its own one-shot agent in its own folder, so a batch is a
+ * set of independent one-shot runs rather than a conversation. Updates are
+ * reported per workspace as each run starts, works and finishes.
+ */
+
+// Agents with tools take far longer than a commit message; this only bounds
+// a run that has hung.
+const BATCH_RUN_TIMEOUT_MS = 30 * 60 * 1000;
+
+const MAX_CONCURRENCY = 8;
+
+/** One line on what a running agent is doing, for the results table. */
+function describeActivity(event: HeadlessEvent): string | null {
+    if (event.kind === 'tool') return event.detail ? `${event.name} ${event.detail}` : event.name;
+    if (event.kind === 'text') return event.text.split('\n')[0];
+    return null;
+}
+
+interface ActiveBatch {
+    controller: AbortController;
+    /** Workspaces that have not reported a final status yet. */
+    unfinished: Set<string>;
+}
+
+export class BatchRunner {
+    private readonly batches = new Map<string, ActiveBatch>();
+
+    constructor(private readonly onUpdate: (message: BatchRunUpdateMessage) => void) {}
+
+    public async start(request: BatchRunRequest): Promise<void> {
+        if (this.batches.has(request.batchId)) return;
+
+        const controller = new AbortController();
+        const unfinished = new Set(request.targets.map((target) => target.workspaceId));
+        this.batches.set(request.batchId, { controller, unfinished });
+        const driver = getDriver(request.harness.driverId);
+        const config = toHarnessConfig(request.harness);
+        const pending = [...request.targets];
+        const report = (update: Omit<BatchRunUpdateMessage, 'batchId'>) => {
+            // A failed batch has already reported every workspace it left.
+            if (!this.batches.has(request.batchId)) return;
+            if (update.status !== 'queued' && update.status !== 'running') {
+                unfinished.delete(update.workspaceId);
+            }
+            this.onUpdate({ batchId: request.batchId, ...update });
+        };
+
+        const runHeadless = driver.runHeadless?.bind(driver);
+        if (!runHeadless) {
+            for (const target of pending) {
+                report({ workspaceId: target.workspaceId, status: 'failed', output: 'This harness cannot run headless.' });
+            }
+            this.batches.delete(request.batchId);
+            return;
+        }
+
+        for (const target of pending) {
+            report({ workspaceId: target.workspaceId, status: 'queued' });
+        }
+
+        const worker = async () => {
+            for (let target = pending.shift(); target; target = pending.shift()) {
+                if (controller.signal.aborted) {
+                    report({ workspaceId: target.workspaceId, status: 'cancelled' });
+                    continue;
+                }
+
+                const { workspaceId } = target;
+                report({ workspaceId, status: 'running' });
+                const startedAt = Date.now();
+                const result = await runHeadless(config, request.prompt, {
+                    cwd: target.cwd,
+                    toolPolicy: request.toolPolicy,
+                    timeoutMs: BATCH_RUN_TIMEOUT_MS,
+                    signal: controller.signal,
+                    onEvent: (event) => {
+                        const activity = describeActivity(event);
+                        if (activity) report({ workspaceId, status: 'running', activity });
+                    },
+                });
+                report({
+                    workspaceId,
+                    status: controller.signal.aborted ? 'cancelled' : result.isError ? 'failed' : 'succeeded',
+                    output: result.text,
+                    costUsd: result.costUsd,
+                    durationMs: Date.now() - startedAt,
+                });
+            }
+        };
+
+        // Anything but a number would start no workers and leave every row queued.
+        const requested = Number.isFinite(request.concurrency) ? Math.floor(request.concurrency) : 1;
+        const concurrency = Math.max(1, Math.min(requested, MAX_CONCURRENCY));
+        await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+        this.batches.delete(request.batchId);
+    }
+
+    public cancel(batchId: string): void {
+        this.batches.get(batchId)?.controller.abort();
+    }
+
+    /**
+     * Give up on a batch whose run threw: stop what is still running, and fail
+     * every workspace that had not finished rather than leave it queued.
+     */
+    public fail(batchId: string, reason: string): void {
+        const batch = this.batches.get(batchId);
+        if (!batch) return;
+        this.batches.delete(batchId);
+        batch.controller.abort();
+        for (const workspaceId of batch.unfinished) {
+            this.onUpdate({ batchId, workspaceId, status: 'failed', output: reason });
+        }
+    }
+
+    public cancelAll(): void {
+        for (const batch of this.batches.values()) {
+            batch.controller.abort();
+        }
+        this.batches.clear();
+    }
+}
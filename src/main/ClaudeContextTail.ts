@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { findSessionFile } from './ClaudeSessionIndex';
+import type { ContextStatus } from '../shared/types';
+
+/**
+ * Live context-window usage of one Claude conversation, read by tailing its
+ * transcript.
+ *
+ * Every assistant record carries the usage of the request that produced it,
+ * and that request held the whole conversation so far, so the newest record's
+ * prompt, cache and output tokens are how full the window is. The file only
+ * grows, so each poll reads just the bytes appended since the last one, and
+ * the first reads only the end of it.
+ */
+
+// A transcript is flushed line by line as the CLI works; this is quick enough
+// to follow a turn without re-stating a file nobody is writing to constantly.
+const POLL_INTERVAL_MS = 1500;
+
+// Claude's standard window. The transcript names the model but not whether the
+// long-context beta is on, so a conversation past this is taken to have the
+// larger window rather than reported as over 100%.
+const STANDARD_WINDOW_TOKENS = 200_000;
+const LONG_WINDOW_TOKENS = 1_000_000;
+
+// The CLI compacts on its own short of the window, keeping room for the
+// summary it writes. Where exactly moves between releases; this is close.
+const AUTO_COMPACT_FRACTION = 0.8;
+
+// Only the newest reply counts, so a long conversation's history is skipped.
+// This holds many replies, tool output and all.
+const INITIAL_TAIL_BYTES = 1024 * 1024;
+
+interface RawRecord {
+    type?: string;
+    subtype?: string;
+    isSidechain?: boolean;
+    message?: {
+        model?: string;
+        usage?: {
+            input_tokens?: number;
+            output_tokens?: number;
+            cache_read_input_tokens?: number;
+            cache_creation_input_tokens?: number;
+        };
+    };
+}
+
+export class ClaudeContextTail {
+    private file: string | null = null;
+    private offset = 0;
+    // Carries a character split across two reads over to the second.
+    private decoder = new StringDecoder('utf8');
+    // A line cut off by the end of the last read, completed by the next.
+    private partial = '';
+    // Set when a read starts mid-file, whose first line is then incomplete.
+    private skipFirstLine = false;
+    private timer: NodeJS.Timeout | null = null;
+    private model: string | null = null;
+    private usedTokens = 0;
+    private compacted = false;
+    private lastSent: string | null = null;
+
+    constructor(
+        private readonly sessionId: string,
+        private readonly configDir: string | undefined,
+        private readonly onUpdate: (status: ContextStatus) => void
+    ) {}
+
+    public start(): void {
+        if (this.timer) return;
+        this.poll();
+        this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    }
+
+    public stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /** The status as of the last poll, or null before the first reply. */
+    public getStatus(): ContextStatus | null {
+        if (!this.model && this.usedTokens === 0) return null;
+        const windowTokens =
+            this.usedTokens > STANDARD_WINDOW_TOKENS ? LONG_WINDOW_TOKENS : STANDARD_WINDOW_TOKENS;
+        return {
+            model: this.model,
+            usedTokens: this.usedTokens,
+            windowTokens,
+            autoCompactTokens: Math.round(windowTokens * AUTO_COMPACT_FRACTION),
+            compacted: this.compacted,
+        };
+    }
+
+    private poll(): void {
+        // The transcript appears with the conversation's first turn.
+        if (!this.file) {
+            this.file = findSessionFile(this.sessionId, this.configDir);
+            if (!this.file) return;
+        }
+
+        let size: number;
+        try {
+            size = fs.statSync(this.file).size;
+        } catch {
+            // Deleted, or moved between project directories; look again.
+            this.file = null;
+            this.reset();
+            return;
+        }
+
+        // Rewritten from scratch rather than appended to: start over.
+        if (size < this.offset) this.reset();
+        if (size === this.offset) return;
+        if (this.offset === 0 && size > INITIAL_TAIL_BYTES) {
+            this.offset = size - INITIAL_TAIL_BYTES;
+            this.skipFirstLine = true;
+        }
+
+        let chunk: string;
+        try {
+            const fd = fs.openSync(this.file, 'r');
+            try {
+                const buffer = Buffer.alloc(size - this.offset);
+                fs.readSync(fd, buffer, 0, buffer.length, this.offset);
+                chunk = this.decoder.write(buffer);
+            } finally {
+                fs.closeSync(fd);
+            }
+        } catch {
+            return;
+        }
+        this.offset = size;
+
+        const lines = (this.partial + chunk).split('\n');
+        this.partial = lines.pop() ?? '';
+        if (this.skipFirstLine && lines.length > 0) {
+            lines.shift();
+            this.skipFirstLine = false;
+        }
+        for (const line of lines) {
+            this.consume(line);
+        }
+        this.emit();
+    }
+
+    private consume(line: string): void {
+        if (!line.trim()) return;
+
+        let record: RawRecord;
+        try {
+            record = JSON.parse(line);
+        } catch {
+            return;
+        }
+
+        if (record.type === 'system' && record.subtype === 'compact_boundary') {
+            // The summary replaces the history; the next reply reports its size.
+            this.compacted = true;
+            this.usedTokens = 0;
+            return;
+        }
+
+        // Subagents run in windows of their own.
+        const usage = record.message?.usage;
+        if (record.type !== 'assistant' || record.isSidechain || !usage) return;
+        // Synthetic replies the CLI writes itself report no real request.
+        if (record.message?.model === '<synthetic>') return;
+
+        this.model = record.message?.model ?? this.model;
+        this.usedTokens =
+            (usage.input_tokens ?? 0) +
+            (usage.cache_read_input_tokens ?? 0) +
+            (usage.cache_creation_input_tokens ?? 0) +
+            (usage.output_tokens ?? 0);
+        this.compacted = false;
+    }
+
+    private reset(): void {
+        this.offset = 0;
+        this.decoder = new StringDecoder('utf8');
+        this.partial = '';
+        this.skipFirstLine = false;
+        this.model = null;
+        this.usedTokens = 0;
+        this.compacted = false;
+    }
+
+    private emit(): void {
+        const status = this.getStatus();
+        if (!status) return;
+        const serialized = JSON.stringify(status);
+        if (serialized === this.lastSent) return;
+        this.lastSent = serialized;
+        this.onUpdate(status);
+    }
+}
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { getLoginEnv } from './LoginEnvironment';
+import type { TokenUsage } from '../shared/types';
 
 /**
  * Read-only access to Claude Code's own session storage.
@@ -50,7 +51,8 @@ function getProjectsDir(configDir?: string): string {
     return path.join(resolved, 'projects');
 }
 
-function listProjectDirs(configDir?: string): string[] {
+/** Every project directory under a config directory's `projects`. */
+export function listProjectDirs(configDir?: string): string[] {
     const projectsDir = getProjectsDir(configDir);
     try {
         return fs
@@ -120,6 +122,25 @@ export function findEntry(sessionId: string, configDir?: string): ClaudeSessionE
     return null;
 }
 
+/**
+ * Every conversation the indexes know of, once each.
+ *
+ * A session can appear in more than one index when Claude moved it between
+ * project directories; the most recently modified entry wins.
+ */
+export function listEntries(configDir?: string): ClaudeSessionEntry[] {
+    const entries = new Map<string, ClaudeSessionEntry>();
+    for (const file of listIndexFiles(configDir)) {
+        for (const entry of readIndex(file)) {
+            const existing = entries.get(entry.sessionId);
+            if (!existing || existing.modified < entry.modified) {
+                entries.set(entry.sessionId, entry);
+            }
+        }
+    }
+    return [...entries.values()];
+}
+
 /** Whether Claude still holds a conversation for this session. */
 export function sessionExists(sessionId: string, configDir?: string): boolean {
     return findSessionFile(sessionId, configDir) !== null;
@@ -201,3 +222,123 @@ export function getDisplayName(
         ? `${collapsed.slice(0, maxLength - 1).trimEnd()}…`
         : collapsed;
 }
+
+/** USD per million tokens. */
+interface ModelPricing {
+    input: number;
+    output: number;
+    cacheWrite: number;
+    cacheRead: number;
+}
+
+// Published list prices, matched against the model ID each reply records.
+// Ordered most specific first; anything unrecognised is priced as Sonnet, so
+// the total stays an estimate rather than silently dropping spend. The minor
+// version must stand alone: `claude-opus-4-20250514` is Opus 4, not 4.20.
+// Haiku 3 is `claude-3-haiku-…`, Haiku 3.5 `claude-3-5-haiku-…`.
+const MODEL_PRICING: { pattern: RegExp; pricing: ModelPricing }[] = [
+    { pattern: /opus-4-(?:[5-9]|[1-9]\d)(?!\d)/, pricing: { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 } },
+    { pattern: /opus/, pricing: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 } },
+    { pattern: /haiku-4/, pricing: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 } },
+    { pattern: /claude-3-haiku/, pricing: { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 } },
+    { pattern: /haiku/, pricing: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 } },
+];
+const DEFAULT_PRICING: ModelPricing = { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 };
+
+function pricingFor(model: string | undefined): ModelPricing {
+    if (!model) return DEFAULT_PRICING;
+    return MODEL_PRICING.find(({ pattern }) => pattern.test(model))?.pricing ?? DEFAULT_PRICING;
+}
+
+interface RawUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+}
+
+// Summed usage keyed by transcript path, invalidated on mtime change.
+const usageCache = new Map<string, { mtimeMs: number; usage: TokenUsage }>();
+
+function sumUsage(raw: string): TokenUsage {
+    // Claude writes a reply as one record per content block, each repeating the
+    // API message's usage, so only the last record of each message is counted.
+    const byMessage = new Map<string, { model?: string; usage: RawUsage }>();
+    let anonymous = 0;
+
+    for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+
+        let record: {
+            type?: string;
+            forkedFrom?: string;
+            message?: { id?: string; model?: string; usage?: RawUsage };
+        };
+        try {
+            record = JSON.parse(line);
+        } catch {
+            continue;
+        }
+        const usage = record.message?.usage;
+        if (record.type !== 'assistant' || !usage) continue;
+        // A fork's copy of its parent's replies was billed to the parent.
+        if (record.forkedFrom !== undefined) continue;
+
+        // Subagent turns are kept too: they are billed like any other reply.
+        const key = record.message?.id ?? `anonymous-${anonymous++}`;
+        byMessage.set(key, { model: record.message?.model, usage });
+    }
+
+    const total: TokenUsage = {
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 0,
+    };
+    for (const { model, usage } of byMessage.values()) {
+        const input = usage.input_tokens ?? 0;
+        const output = usage.output_tokens ?? 0;
+        const cacheRead = usage.cache_read_input_tokens ?? 0;
+        const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+        const pricing = pricingFor(model);
+
+        total.inputTokens += input;
+        total.outputTokens += output;
+        total.cacheReadTokens += cacheRead;
+        total.cacheWriteTokens += cacheWrite;
+        total.costUsd +=
+            (input * pricing.input +
+                output * pricing.output +
+                cacheRead * pricing.cacheRead +
+                cacheWrite * pricing.cacheWrite) /
+            1_000_000;
+    }
+    return total;
+}
+
+/**
+ * Token usage and estimated cost of a session, summed from its transcript.
+ *
+ * Null when Claude has not written a transcript for the session yet. The cost
+ * is computed from list prices, so it is what the usage would cost at the API
+ * rate, not what a subscription is billed.
+ */
+export function readUsage(sessionId: string, configDir?: string): TokenUsage | null {
+    const file = findSessionFile(sessionId, configDir);
+    if (!file) return null;
+
+    try {
+        const { mtimeMs } = fs.statSync(file);
+        const cached = usageCache.get(file);
+        if (cached && cached.mtimeMs === mtimeMs) {
+            return cached.usage;
+        }
+
+        const usage = sumUsage(fs.readFileSync(file, 'utf8'));
+        usageCache.set(file, { mtimeMs, usage });
+        return usage;
+    } catch {
+        return null;
+    }
+}
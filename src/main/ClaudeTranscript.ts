@@ -0,0 +1,275 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TranscriptBlock, TranscriptTurn } from '../shared/types';
+
+/**
+ * Parsing of Claude Code's `<sessionId>.jsonl` transcripts.
+ *
+ * Each line is one record. Conversation records carry a `message` in the
+ * Messages API shape; the rest — summaries, file snapshots, hook output — are
+ * bookkeeping and are skipped. Claude writes an assistant reply as one record
+ * per content block, all sharing the API message ID, so those are folded back
+ * into the single turn they came from.
+ */
+
+interface RawContentBlock {
+    type?: string;
+    text?: string;
+    thinking?: string;
+    id?: string;
+    name?: string;
+    input?: unknown;
+    tool_use_id?: string;
+    content?: unknown;
+    is_error?: boolean;
+}
+
+interface RawRecord {
+    type?: string;
+    uuid?: string;
+    sessionId?: string;
+    timestamp?: string;
+    isMeta?: boolean;
+    isSidechain?: boolean;
+    /** Set on every record a fork copied from the conversation it came from. */
+    forkedFrom?: string;
+    message?: {
+        id?: string;
+        role?: string;
+        content?: string | RawContentBlock[];
+    };
+}
+
+// A tool result can be a whole file or a build log; the viewer shows the start
+// of it, which is what a reader skimming a conversation wants anyway.
+const MAX_TOOL_RESULT_CHARS = 20000;
+
+// Parsed transcripts keyed by file path, invalidated on mtime change.
+const transcriptCache = new Map<string, { mtimeMs: number; turns: TranscriptTurn[] }>();
+
+/** The text of a tool result, which is either a string or text blocks. */
+function toolResultText(content: unknown): string {
+    if (typeof content === 'string') return content;
+    if (!Array.isArray(content)) return '';
+    return content
+        .map((part: RawContentBlock) => {
+            if (part?.type === 'text' && typeof part.text === 'string') return part.text;
+            if (part?.type === 'image') return '[image]';
+            return '';
+        })
+        .filter(Boolean)
+        .join('\n');
+}
+
+function toBlocks(content: string | RawContentBlock[] | undefined): TranscriptBlock[] {
+    if (typeof content === 'string') {
+        return content.trim() ? [{ kind: 'text', text: content }] : [];
+    }
+    if (!Array.isArray(content)) return [];
+
+    const blocks: TranscriptBlock[] = [];
+    for (const block of content) {
+        switch (block?.type) {
+            case 'text':
+                if (block.text?.trim()) blocks.push({ kind: 'text', text: block.text });
+                break;
+            case 'thinking':
+                if (block.thinking?.trim()) blocks.push({ kind: 'thinking', text: block.thinking });
+                break;
+            case 'tool_use':
+                blocks.push({
+                    kind: 'tool-use',
+                    toolUseId: block.id ?? '',
+                    name: block.name ?? 'tool',
+                    input: block.input,
+                });
+                break;
+            case 'tool_result': {
+                const text = toolResultText(block.content);
+                const truncated = text.length > MAX_TOOL_RESULT_CHARS;
+                blocks.push({
+                    kind: 'tool-result',
+                    toolUseId: block.tool_use_id ?? '',
+                    content: truncated ? text.slice(0, MAX_TOOL_RESULT_CHARS) : text,
+                    isError: block.is_error === true,
+                    truncated,
+                });
+                break;
+            }
+            default:
+                // Images and redacted thinking have nothing readable to show.
+                break;
+        }
+    }
+    return blocks;
+}
+
+/** Every conversation turn in the text of a transcript file. */
+export function parseTranscript(raw: string): TranscriptTurn[] {
+    const turns: TranscriptTurn[] = [];
+    // The API message the last assistant turn was built from, for folding.
+    let lastAssistantMessageId: string | undefined;
+
+    for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+
+        let record: RawRecord;
+        try {
+            record = JSON.parse(line);
+        } catch {
+            // The last line may be mid-write.
+            continue;
+        }
+
+        if (record.type !== 'user' && record.type !== 'assistant') continue;
+        // Meta records are context Claude injects, not things anyone said, and
+        // sidechains are subagent conversations with transcripts of their own.
+        if (record.isMeta || record.isSidechain) continue;
+
+        const blocks = toBlocks(record.message?.content);
+        if (blocks.length === 0) continue;
+
+        const messageId = record.message?.id;
+        const previous = turns[turns.length - 1];
+        if (
+            record.type === 'assistant' &&
+            previous?.role === 'assistant' &&
+            messageId &&
+            messageId === lastAssistantMessageId
+        ) {
+            previous.blocks.push(...blocks);
+            continue;
+        }
+
+        turns.push({
+            id: record.uuid ?? `turn-${turns.length}`,
+            role: record.type,
+            timestamp: record.timestamp,
+            blocks,
+        });
+        lastAssistantMessageId = record.type === 'assistant' ? messageId : undefined;
+    }
+
+    return turns;
+}
+
+/**
+ * Every turn of the conversation in a transcript file.
+ *
+ * Returns an empty list rather than failing for a file that cannot be read: a
+ * transcript is the CLI's and can be rewritten or removed at any time.
+ */
+export function readTranscript(file: string): TranscriptTurn[] {
+    try {
+        const { mtimeMs } = fs.statSync(file);
+        const cached = transcriptCache.get(file);
+        if (cached && cached.mtimeMs === mtimeMs) {
+            return cached.turns;
+        }
+
+        const turns = parseTranscript(fs.readFileSync(file, 'utf8'));
+        transcriptCache.set(file, { mtimeMs, turns });
+        return turns;
+    } catch {
+        return [];
+    }
+}
+
+/** The IDs of the tool calls in a record's content. */
+function toolUseIds(record: RawRecord): string[] {
+    const content = record.message?.content;
+    if (!Array.isArray(content)) return [];
+    return content.flatMap((block) => (block?.type === 'tool_use' && block.id ? [block.id] : []));
+}
+
+/** The tool calls a record answers, or none unless it holds only their results. */
+function toolResultIds(record: RawRecord): string[] {
+    const content = record.message?.content;
+    if (!Array.isArray(content)) return [];
+    const ids = content.map((block) =>
+        block?.type === 'tool_result' ? block.tool_use_id : undefined
+    );
+    return ids.every((id): id is string => id !== undefined) ? ids : [];
+}
+
+/**
+ * Copy a transcript under a new session ID, optionally cutting it after a turn.
+ *
+ * The copy is written beside the original, which is where the CLI looks when
+ * resuming from the same project directory. Records keep their UUIDs, so the
+ * parent chain the CLI rebuilds the conversation from stays intact; only the
+ * session ID each record carries is rewritten, and each is marked as copied
+ * so the replies it shares with its parent are not counted twice.
+ *
+ * The cut falls before the next record that would start a new turn, so an
+ * assistant reply split across several records is kept whole along with the
+ * bookkeeping written after it. A reply that called tools keeps their results
+ * too: a conversation ending on a call with no answer is one the CLI will not
+ * resume as it stands.
+ *
+ * Throws when the turn is not in the transcript, rather than silently copying
+ * a conversation other than the one asked for.
+ */
+export function forkTranscript(file: string, newSessionId: string, throughTurnId?: string): string {
+    const kept: string[] = [];
+    let reachedTurn = throughTurnId === undefined;
+    // The API message the chosen turn was built from, when it is a reply.
+    let turnMessageId: string | undefined;
+    let foundTurn = false;
+    // Calls the chosen turn made that no kept record has answered yet.
+    const pendingToolUses = new Set<string>();
+
+    for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+
+        let record: RawRecord;
+        try {
+            record = JSON.parse(line);
+        } catch {
+            continue;
+        }
+
+        const isConversation =
+            (record.type === 'user' || record.type === 'assistant') &&
+            !record.isMeta &&
+            !record.isSidechain;
+
+        if (foundTurn && isConversation) {
+            const continuesTurn =
+                record.type === 'assistant' &&
+                turnMessageId !== undefined &&
+                record.message?.id === turnMessageId;
+            const answered = record.type === 'user' ? toolResultIds(record) : [];
+            if (continuesTurn) {
+                toolUseIds(record).forEach((id) => pendingToolUses.add(id));
+            } else if (answered.length > 0 && answered.every((id) => pendingToolUses.has(id))) {
+                answered.forEach((id) => pendingToolUses.delete(id));
+            } else {
+                break;
+            }
+        }
+
+        if (!reachedTurn && record.uuid === throughTurnId) {
+            reachedTurn = true;
+            foundTurn = true;
+            turnMessageId = record.type === 'assistant' ? record.message?.id : undefined;
+            if (record.type === 'assistant') {
+                toolUseIds(record).forEach((id) => pendingToolUses.add(id));
+            }
+        }
+
+        if (record.sessionId !== undefined) {
+            record.forkedFrom = record.forkedFrom ?? record.sessionId;
+            record.sessionId = newSessionId;
+        }
+        kept.push(JSON.stringify(record));
+    }
+
+    if (!reachedTurn) {
+        throw new Error('The chosen turn is no longer in this conversation.');
+    }
+
+    const forked = path.join(path.dirname(file), `${newSessionId}.jsonl`);
+    fs.writeFileSync(forked, `${kept.join('\n')}\n`, { flag: 'wx' });
+    return forked;
+}
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { claimedFiles, dropClaim, getClaim, setClaim } from './ConversationClaims';
+
+/**
+ * Read-only access to Codex CLI's saved conversations.
+ *
+ * Codex records each conversation as
+ * `<CODEX_HOME>/sessions/<yyyy>/<mm>/<dd>/rollout-<timestamp>-<id>.jsonl`, one
+ * JSON record per line, opening with a `session_meta` record that carries the
+ * conversation's ID and folder. Codex picks that ID itself, so as with Gemini
+ * the conversation a Consola session started is *claimed*: the first unclaimed
+ * one started in the session's folder after that session launched is its own.
+ */
+
+interface RolloutMeta {
+    id: string;
+    startedAt: number;
+    /** Missing from rollouts written by older Codex versions. */
+    cwd?: string;
+}
+
+interface RolloutRecord {
+    type?: string;
+    id?: string;
+    timestamp?: string;
+    payload?: {
+        type?: string;
+        id?: string;
+        timestamp?: string;
+        cwd?: string;
+        message?: unknown;
+    };
+}
+
+/** When and where each Consola session last started a fresh conversation. */
+const launches = new Map<string, { launchedAt: number; cwd: string }>();
+
+// A rollout's opening record never changes once written, so each file is read
+// for it at most once.
+const metas = new Map<string, RolloutMeta>();
+
+// Codex stamps the rollout as it starts, which can precede our own launch
+// timestamp by a moment on a busy machine.
+const CLOCK_SKEW_MS = 2000;
+
+/** Note that a fresh Codex conversation is starting for this session in `cwd`. */
+export function recordLaunch(sessionId: string, cwd: string): void {
+    launches.set(sessionId, { launchedAt: Date.now(), cwd: path.resolve(cwd) });
+    dropClaim(sessionId);
+}
+
+function dayKey(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function listDirs(dir: string): string[] {
+    try {
+        return fs
+            .readdirSync(dir, { withFileTypes: true })
+            .filter((entry) => entry.isDirectory())
+            .map((entry) => entry.name);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Rollouts filed on or after the day before `since`, with their modification
+ * times. Day folders are named in local time, and a day's margin covers a
+ * conversation started just before midnight.
+ */
+function listRollouts(codexHome: string, since: number): { file: string; modifiedAt: number }[] {
+    const sessionsDir = path.join(codexHome, 'sessions');
+    const earliestDay = dayKey(new Date(since - 24 * 60 * 60 * 1000));
+    const rollouts: { file: string; modifiedAt: number }[] = [];
+
+    for (const year of listDirs(sessionsDir)) {
+        for (const month of listDirs(path.join(sessionsDir, year))) {
+            for (const day of listDirs(path.join(sessionsDir, year, month))) {
+                if (`${year}-${month}-${day}` < earliestDay) continue;
+                const dayDir = path.join(sessionsDir, year, month, day);
+                let names: string[];
+                try {
+                    names = fs.readdirSync(dayDir);
+                } catch {
+                    continue;
+                }
+                for (const name of names) {
+                    if (!name.startsWith('rollout-') || !name.endsWith('.jsonl')) continue;
+                    const file = path.join(dayDir, name);
+                    try {
+                        rollouts.push({ file, modifiedAt: fs.statSync(file).mtimeMs });
+                    } catch {
+                        // Removed between listing and stat.
+                    }
+                }
+            }
+        }
+    }
+    return rollouts;
+}
+
+function readRecords(file: string): RolloutRecord[] {
+    let raw: string;
+    try {
+        raw = fs.readFileSync(file, 'utf8');
+    } catch {
+        return [];
+    }
+    const records: RolloutRecord[] = [];
+    for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            records.push(JSON.parse(line));
+        } catch {
+            // A line still being written; the next poll reads it whole.
+        }
+    }
+    return records;
+}
+
+/** The conversation's ID, start and folder, from its opening record. */
+function readMeta(file: string): RolloutMeta | null {
+    const cached = metas.get(file);
+    if (cached) return cached;
+
+    const [first] = readRecords(file);
+    if (!first) return null;
+    // Current versions wrap the meta in a `session_meta` record; older ones
+    // wrote its fields at the top level.
+    const fields = first.type === 'session_meta' ? first.payload ?? {} : first;
+    const startedAt = Date.parse(fields.timestamp ?? '');
+    if (!fields.id || Number.isNaN(startedAt)) return null;
+
+    const meta: RolloutMeta = { id: fields.id, startedAt, cwd: first.payload?.cwd };
+    metas.set(file, meta);
+    return meta;
+}
+
+/**
+ * The rollout this session produced, claiming one if it has none yet.
+ *
+ * Only sessions launched during this run can claim: without a launch time there
+ * is no way to tell which of the folder's conversations was theirs.
+ */
+function findClaimedRollout(sessionId: string, codexHome: string): string | null {
+    const claimed = getClaim(sessionId);
+    if (claimed && fs.existsSync(claimed.file)) return claimed.file;
+
+    const launch = launches.get(sessionId);
+    if (launch === undefined) return null;
+
+    const earliest = launch.launchedAt - CLOCK_SKEW_MS;
+    const taken = claimedFiles();
+    let best: { file: string; meta: RolloutMeta } | null = null;
+    for (const rollout of listRollouts(codexHome, launch.launchedAt)) {
+        if (rollout.modifiedAt < earliest || taken.has(rollout.file)) continue;
+        const meta = readMeta(rollout.file);
+        if (!meta || meta.startedAt < earliest) continue;
+        if (meta.cwd !== undefined && path.resolve(meta.cwd) !== launch.cwd) continue;
+        if (!best || meta.startedAt < best.meta.startedAt) best = { file: rollout.file, meta };
+    }
+    if (!best) return null;
+
+    setClaim(sessionId, { file: best.file, conversationId: best.meta.id });
+    return best.file;
+}
+
+/** The Codex conversation ID this session produced, once known. */
+export function getClaimedConversationId(sessionId: string, codexHome: string): string | null {
+    if (!findClaimedRollout(sessionId, codexHome)) return null;
+    return getClaim(sessionId)?.conversationId ?? null;
+}
+
+/** What the user typed, when the record is a message from them. */
+function userMessageText(record: RolloutRecord): string {
+    const payload = record.payload;
+    if (record.type !== 'event_msg' || payload?.type !== 'user_message') return '';
+    return typeof payload.message === 'string' ? payload.message : '';
+}
+
+/**
+ * The opening user message of the session's conversation, for use as its name.
+ *
+ * Slash commands are skipped so a session opened with `/status` is named by
+ * what was actually asked.
+ */
+export function getDisplayName(
+    sessionId: string,
+    codexHome: string,
+    maxLength = 60
+): string | null {
+    const file = findClaimedRollout(sessionId, codexHome);
+    if (!file) return null;
+
+    for (const record of readRecords(file)) {
+        const text = userMessageText(record).trim();
+        if (!text || text.startsWith('/')) continue;
+
+        const collapsed = text.replace(/\s+/g, ' ');
+        return collapsed.length > maxLength
+            ? `${collapsed.slice(0, maxLength - 1).trimEnd()}…`
+            : collapsed;
+    }
+    return null;
+}
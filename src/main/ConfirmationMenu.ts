@@ -0,0 +1,110 @@
+import type { ConfirmationChoice, ConfirmationIntent } from '../shared/types';
+
+/**
+ * Reads the numbered menu an agent TUI draws when it wants a keypress:
+ *
+ *     Do you want to proceed?
+ *     ❯ 1. Yes
+ *       2. Yes, and don't ask again for this command
+ *       3. No, and tell Claude what to do differently (esc)
+ */
+
+export interface ConfirmationMenu {
+    choices: ConfirmationChoice[];
+    /** Position in `choices` of the option the cursor is on, if drawn. */
+    selectedIndex: number | null;
+    /**
+     * What the menu asks: the lines above its options, back to the rule or box
+     * edge it is drawn under. Every permission menu offers the same options,
+     * so this is what tells one from the next.
+     */
+    prompt: string;
+}
+
+/** A menu option: an optional cursor, then `N. label`. */
+const CHOICE_LINE = /^\s*([❯›>]\s*)?(\d+)\.\s+(\S.*)$/;
+
+/** Box-drawing borders some menus are framed in. */
+const BORDER = /^\s*[│┃|]|[│┃|]\s*$/g;
+
+/** A horizontal rule or box edge, such as the top of the panel a menu is drawn in. */
+const RULE = /^\s*[╭╰┌└]?[─━═╌┄-]{3,}[╮╯┐┘]?\s*$/;
+
+/** How far above its options to look for a menu's prompt when nothing frames it. */
+const MAX_PROMPT_LINES = 20;
+
+function classify(label: string): ConfirmationIntent {
+    if (/^no\b/i.test(label)) return 'deny';
+    if (/^yes\b/i.test(label)) {
+        return /don'?t ask again|always|for this session/i.test(label) ? 'approve-always' : 'approve';
+    }
+    return 'other';
+}
+
+function leadingSpaces(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+/** The non-blank lines above `end`, back to the nearest rule, joined. */
+function promptAbove(lines: string[], end: number): string {
+    const prompt: string[] = [];
+    for (let i = end - 1; i >= 0 && i >= end - MAX_PROMPT_LINES; i--) {
+        if (RULE.test(lines[i])) break;
+        if (lines[i].trim()) prompt.unshift(lines[i].trim());
+    }
+    return prompt.join('\n');
+}
+
+/**
+ * The last menu on screen, or no choices if there is none.
+ *
+ * Options are numbered from 1 without gaps, and a long option wraps onto lines
+ * indented past its number. Anything else ends the menu, so stray numbered
+ * text in the conversation above is not mistaken for it.
+ */
+export function parseConfirmationMenu(visibleText: string): ConfirmationMenu {
+    let menu: ConfirmationMenu = { choices: [], selectedIndex: null, prompt: '' };
+    let current: ConfirmationMenu | null = null;
+    // Column the open option's label starts at, for recognising its wrapped lines
+    let labelColumn = 0;
+
+    const lines = visibleText.split('\n').map((line) => line.replace(BORDER, '').trimEnd());
+
+    const close = () => {
+        if (current && current.choices.length >= 2) menu = current;
+        current = null;
+    };
+
+    for (const [index, line] of lines.entries()) {
+        const match = CHOICE_LINE.exec(line);
+
+        if (match) {
+            const [, cursor, digits, label] = match;
+            const number = Number(digits);
+            const expected = current ? current.choices.length + 1 : 1;
+            if (number !== expected) {
+                close();
+                if (number !== 1) continue;
+            }
+            if (!current) {
+                current = { choices: [], selectedIndex: null, prompt: promptAbove(lines, index) };
+            }
+            if (cursor) current.selectedIndex = current.choices.length;
+            current.choices.push({ number, label, intent: classify(label) });
+            labelColumn = line.length - label.length;
+            continue;
+        }
+
+        if (current && line.trim() && leadingSpaces(line) >= labelColumn) {
+            const last = current.choices[current.choices.length - 1];
+            last.label = `${last.label} ${line.trim()}`;
+            last.intent = classify(last.label);
+            continue;
+        }
+
+        close();
+    }
+    close();
+
+    return menu;
+}
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Which CLI conversation each Consola session was matched to, for CLIs that
+ * pick their own conversation IDs.
+ *
+ * Codex and Gemini cannot be told what to call a conversation, so the one a
+ * session started is found afterwards among the CLI's files and *claimed*.
+ * Claims are kept on disk so a session reopened after a restart resumes its own
+ * conversation by ID rather than whichever one its folder saw last.
+ */
+
+export interface ConversationClaim {
+    /** The CLI's file for the conversation. */
+    file: string;
+    /** The ID the CLI resumes the conversation by. */
+    conversationId: string;
+}
+
+const CLAIMS_FILE = 'conversation-claims.json';
+
+let claimsFile: string | null = null;
+let claims = new Map<string, ConversationClaim>();
+
+/**
+ * Load the claims saved under the app's data directory, and save there from
+ * now on. Until called, claims are held in memory only.
+ */
+export function initConversationClaims(baseDir: string): void {
+    claimsFile = path.join(baseDir, CLAIMS_FILE);
+    try {
+        const saved = JSON.parse(fs.readFileSync(claimsFile, 'utf8')) as Record<
+            string,
+            ConversationClaim
+        >;
+        claims = new Map(Object.entries(saved));
+    } catch {
+        // Nothing saved yet, or unreadable: start over rather than fail launch.
+    }
+}
+
+function save(): void {
+    if (!claimsFile) return;
+    try {
+        fs.mkdirSync(path.dirname(claimsFile), { recursive: true });
+        fs.writeFileSync(claimsFile, JSON.stringify(Object.fromEntries(claims)));
+    } catch (error) {
+        console.error('Failed to save conversation claims:', error);
+    }
+}
+
+export function getClaim(sessionId: string): ConversationClaim | undefined {
+    return claims.get(sessionId);
+}
+
+export function setClaim(sessionId: string, claim: ConversationClaim): void {
+    claims.set(sessionId, claim);
+    save();
+}
+
+/** Forget a session's conversation, as when it starts a fresh one. */
+export function dropClaim(sessionId: string): void {
+    if (claims.delete(sessionId)) save();
+}
+
+/** Files some session has already claimed, which no other may take. */
+export function claimedFiles(): Set<string> {
+    return new Set([...claims.values()].map((claim) => claim.file));
+}
@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { claimedFiles, dropClaim, getClaim, setClaim } from './ConversationClaims';
+
+/**
+ * Read-only access to Gemini CLI's saved chats.
+ *
+ * Gemini keeps each conversation as
+ * `<profile>/tmp/<projectHash>/chats/session-<timestamp>-<id>.json`, one JSON
+ * document rewritten as the conversation grows. Unlike Claude, Gemini picks its
+ * own session IDs, so a Consola session cannot be looked up by ID. Instead the
+ * chat a session produced is *claimed*: the first unclaimed chat started in the
+ * session's folder after that session launched belongs to it.
+ */
+
+interface GeminiChatMessage {
+    type?: string;
+    content?: unknown;
+}
+
+interface GeminiChatFile {
+    sessionId?: string;
+    startTime?: string;
+    messages?: GeminiChatMessage[];
+}
+
+interface ChatSummary {
+    file: string;
+    modifiedAt: number;
+}
+
+/**
+ * When and where each Consola session last started a fresh Gemini
+ * conversation. Held in memory only: once a chat is claimed, the claim is what
+ * is kept.
+ */
+const launches = new Map<string, { launchedAt: number; projectDirs: string[] }>();
+
+// A chat's start time never changes once written, so each file is read for it
+// at most once.
+const startTimes = new Map<string, number>();
+
+// Gemini stamps the chat when its first message is written, which can precede
+// our own launch timestamp by a moment on a busy machine.
+const CLOCK_SKEW_MS = 2000;
+
+/**
+ * The names Gemini may file a folder's chats under: the SHA-256 of the folder's
+ * path, as given and with links resolved, since the CLI hashes its own cwd.
+ */
+function projectDirsFor(cwd: string): string[] {
+    const paths = new Set([path.resolve(cwd)]);
+    try {
+        paths.add(fs.realpathSync(cwd));
+    } catch {
+        // Gone already; the launch itself will report it.
+    }
+    return [...paths].map((projectPath) => createHash('sha256').update(projectPath).digest('hex'));
+}
+
+/** Note that a fresh Gemini conversation is starting for this session in `cwd`. */
+export function recordLaunch(sessionId: string, cwd: string): void {
+    launches.set(sessionId, { launchedAt: Date.now(), projectDirs: projectDirsFor(cwd) });
+    dropClaim(sessionId);
+}
+
+/** Chats saved for the given project folders; other folders' are never read. */
+function listChats(profileDir: string, projectDirs: string[]): ChatSummary[] {
+    const chats: ChatSummary[] = [];
+    for (const projectDir of projectDirs) {
+        const chatsDir = path.join(profileDir, 'tmp', projectDir, 'chats');
+        let files: string[];
+        try {
+            files = fs.readdirSync(chatsDir);
+        } catch {
+            continue;
+        }
+        for (const name of files) {
+            if (!name.startsWith('session-') || !name.endsWith('.json')) continue;
+            const file = path.join(chatsDir, name);
+            try {
+                chats.push({ file, modifiedAt: fs.statSync(file).mtimeMs });
+            } catch {
+                // Removed between listing and stat.
+            }
+        }
+    }
+    return chats;
+}
+
+function readChat(file: string): GeminiChatFile | null {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8')) as GeminiChatFile;
+    } catch {
+        // Mid-rewrite; the next poll will read it whole.
+        return null;
+    }
+}
+
+/** When the chat began, per the `startTime` Gemini records inside it. */
+function readStartTime(file: string): number | null {
+    const cached = startTimes.get(file);
+    if (cached !== undefined) return cached;
+
+    const startedAt = Date.parse(readChat(file)?.startTime ?? '');
+    if (Number.isNaN(startedAt)) return null;
+    startTimes.set(file, startedAt);
+    return startedAt;
+}
+
+function messageText(content: unknown): string {
+    if (typeof content === 'string') return content;
+    if (!Array.isArray(content)) return '';
+    return content
+        .map((part) =>
+            typeof part === 'object' && part !== null && typeof part.text === 'string'
+                ? part.text
+                : ''
+        )
+        .join(' ');
+}
+
+/**
+ * The chat file this session produced, claiming one if it has none yet.
+ *
+ * Only sessions launched during this run can claim: without a launch time there
+ * is no way to tell which of the folder's chats was theirs.
+ */
+function findClaimedChat(sessionId: string, profileDir: string): string | null {
+    const claimed = getClaim(sessionId);
+    if (claimed && fs.existsSync(claimed.file)) return claimed.file;
+
+    const launch = launches.get(sessionId);
+    if (launch === undefined) return null;
+
+    // A chat started after the launch was necessarily written after it too, so
+    // the modification time rules out the folder's history without a read.
+    const earliest = launch.launchedAt - CLOCK_SKEW_MS;
+    const taken = claimedFiles();
+    let best: { file: string; startedAt: number } | null = null;
+    for (const chat of listChats(profileDir, launch.projectDirs)) {
+        if (chat.modifiedAt < earliest || taken.has(chat.file)) continue;
+        const startedAt = readStartTime(chat.file);
+        if (startedAt === null || startedAt < earliest) continue;
+        if (!best || startedAt < best.startedAt) best = { file: chat.file, startedAt };
+    }
+    if (!best) return null;
+
+    // The ID is what `--resume` takes; a chat without one yet is claimed later.
+    const chatId = readChat(best.file)?.sessionId;
+    if (!chatId) return null;
+    setClaim(sessionId, { file: best.file, conversationId: chatId });
+    return best.file;
+}
+
+/** The Gemini session ID of the chat this session produced, once known. */
+export function getClaimedChatId(sessionId: string, profileDir: string): string | null {
+    if (!findClaimedChat(sessionId, profileDir)) return null;
+    return getClaim(sessionId)?.conversationId ?? null;
+}
+
+/**
+ * The opening user message of the session's chat, for use as its name.
+ *
+ * Slash commands are skipped so a session opened with `/help` is named by what
+ * was actually asked.
+ */
+export function getDisplayName(
+    sessionId: string,
+    profileDir: string,
+    maxLength = 60
+): string | null {
+    const file = findClaimedChat(sessionId, profileDir);
+    if (!file) return null;
+
+    const chat = readChat(file);
+    for (const message of chat?.messages ?? []) {
+        if (message.type !== 'user') continue;
+        const text = messageText(message.content).trim();
+        if (!text || text.startsWith('/')) continue;
+
+        const collapsed = text.replace(/\s+/g, ' ');
+        return collapsed.length > maxLength
+            ? `${collapsed.slice(0, maxLength - 1).trimEnd()}…`
+            : collapsed;
+    }
+    return null;
+}
@@ -0,0 +1,112 @@
+import { errorMessage, runGit, type GitOperationResult } from './GitCommand';
+
+/**
+ * Local and remote branches of a repository, and the operations on them that
+ * the review panel offers. Remote branches are only ever read or checked out
+ * from here; nothing in Consola pushes to or deletes from a remote.
+ */
+
+export interface GitBranchInfo {
+    /** Short name: `main`, or `origin/main` for a remote branch. */
+    name: string;
+    isRemote: boolean;
+    /** Checked out in this folder. */
+    isCurrent: boolean;
+    /** The remote branch a local one tracks. */
+    upstream?: string;
+    /** Commits not yet on the upstream, and on it but not here. */
+    ahead: number;
+    behind: number;
+}
+
+const FIELD_SEPARATOR = '\u0000';
+
+/** Counts out of `%(upstream:track,nobracket)`, e.g. "ahead 2, behind 1". */
+function parseTrack(track: string): { ahead: number; behind: number } {
+    const ahead = /ahead (\d+)/.exec(track);
+    const behind = /behind (\d+)/.exec(track);
+    return { ahead: ahead ? Number(ahead[1]) : 0, behind: behind ? Number(behind[1]) : 0 };
+}
+
+/** Local branches first, then remote ones, each alphabetically as git sorts them. */
+export async function listBranches(rootPath: string): Promise<GitBranchInfo[]> {
+    const format = ['%(refname)', '%(refname:short)', '%(upstream:short)', '%(upstream:track,nobracket)', '%(HEAD)']
+        .join('%00');
+    const output = await runGit(rootPath, ['for-each-ref', `--format=${format}`, 'refs/heads', 'refs/remotes']);
+
+    return output
+        .split('\n')
+        .filter(Boolean)
+        .flatMap((line): GitBranchInfo[] => {
+            const [ref, name, upstream, track, head] = line.split(FIELD_SEPARATOR);
+            // `origin/HEAD` only points at another remote branch
+            if (ref.endsWith('/HEAD')) return [];
+            return [{
+                name,
+                isRemote: ref.startsWith('refs/remotes/'),
+                isCurrent: head === '*',
+                upstream: upstream || undefined,
+                ...parseTrack(track ?? ''),
+            }];
+        });
+}
+
+async function attempt(operation: () => Promise<unknown>): Promise<GitOperationResult> {
+    try {
+        await operation();
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: errorMessage(error) };
+    }
+}
+
+/**
+ * Reject a name git would not take as a branch. Names are typed by the user and
+ * passed as arguments, so a leading `-` is refused outright: git would read it
+ * as an option, and `branch -m <old> --force` is not a rename.
+ */
+async function checkBranchName(rootPath: string, name: string): Promise<void> {
+    if (name.startsWith('-')) {
+        throw new Error(`"${name}" is not a valid branch name`);
+    }
+    try {
+        await runGit(rootPath, ['check-ref-format', '--branch', name]);
+    } catch {
+        throw new Error(`"${name}" is not a valid branch name`);
+    }
+}
+
+/** A new branch from HEAD, checked out straight away. */
+export function createBranch(rootPath: string, name: string): Promise<GitOperationResult> {
+    return attempt(async () => {
+        await checkBranchName(rootPath, name);
+        await runGit(rootPath, ['switch', '-c', name]);
+    });
+}
+
+/**
+ * Check out a branch. A remote one gets a local branch of the same name
+ * tracking it, as `git switch` does when given the bare name.
+ */
+export function switchBranch(rootPath: string, name: string, isRemote: boolean): Promise<GitOperationResult> {
+    return attempt(async () => {
+        await checkBranchName(rootPath, name);
+        await runGit(rootPath, isRemote ? ['switch', '--track', name] : ['switch', name]);
+    });
+}
+
+export function renameBranch(rootPath: string, name: string, newName: string): Promise<GitOperationResult> {
+    return attempt(async () => {
+        await checkBranchName(rootPath, name);
+        await checkBranchName(rootPath, newName);
+        await runGit(rootPath, ['branch', '-m', name, newName]);
+    });
+}
+
+/** Delete a local branch; without `force`, git refuses one that is not merged. */
+export function deleteBranch(rootPath: string, name: string, force: boolean): Promise<GitOperationResult> {
+    return attempt(async () => {
+        await checkBranchName(rootPath, name);
+        await runGit(rootPath, ['branch', force ? '-D' : '-d', name]);
+    });
+}
@@ -0,0 +1,26 @@
+import { execFile } from 'child_process';
+
+/**
+ * Run git with argv rather than a shell line, so branch names and paths need
+ * no quoting. Rejects with git's own message when it fails. `input` is fed to
+ * git's stdin, for commands such as `git apply` that read a patch from it.
+ */
+export function runGit(cwd: string, args: string[], input?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = execFile('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 }, (err, stdout, stderr) => {
+            if (err) reject(new Error(stderr.trim() || err.message));
+            else resolve(stdout);
+        });
+        if (input !== undefined) child.stdin?.end(input);
+    });
+}
+
+export function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/** What git operations that change the repository report back. */
+export interface GitOperationResult {
+    success: boolean;
+    error?: string;
+}
@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { errorMessage, runGit, type GitOperationResult } from './GitCommand';
+import { applyHunkSelection, type GitHunkSelection } from './GitHunks';
+
+/**
+ * Throwing away changes to a file, with a way back.
+ *
+ * Before anything is discarded the file is copied, along with its index entry
+ * when that is touched too, into a snapshot under the app's data directory.
+ * Undoing puts both back. Snapshots outlive the undo offer in case a discard
+ * is regretted later, and are pruned after a week.
+ */
+
+/** What a snapshot records about a file, written beside its copy. */
+interface DiscardSnapshot {
+    rootPath: string;
+    filePath: string;
+    createdAt: number;
+    /** Whether the file was in the working tree; only its copy is kept. */
+    existed: boolean;
+    /**
+     * The file's index entry; null when it had none. Left out when the
+     * discard only touched the working tree.
+     */
+    index?: { mode: string; sha: string } | null;
+}
+
+const MANIFEST = 'snapshot.json';
+const CONTENT = 'content';
+const SNAPSHOT_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Snapshots older than their lifetime; a failure here never stops a discard. */
+function pruneSnapshots(baseDir: string): void {
+    let entries: string[];
+    try {
+        entries = fs.readdirSync(baseDir);
+    } catch {
+        return;
+    }
+    const cutoff = Date.now() - SNAPSHOT_LIFETIME_MS;
+    for (const entry of entries) {
+        const dir = path.join(baseDir, entry);
+        try {
+            if (fs.statSync(dir).mtimeMs < cutoff) fs.rmSync(dir, { recursive: true, force: true });
+        } catch {
+            // Gone already, or not ours to judge
+        }
+    }
+}
+
+/** The stage-0 index entry of a file, as `git ls-files -s` reports it. */
+async function readIndexEntry(rootPath: string, filePath: string): Promise<{ mode: string; sha: string } | null> {
+    const output = await runGit(rootPath, ['ls-files', '-s', '--', filePath]);
+    for (const line of output.split('\n')) {
+        const [info] = line.split('\t');
+        const [mode, sha, stage] = info.split(' ');
+        if (stage === '0') return { mode, sha };
+    }
+    return null;
+}
+
+async function takeSnapshot(
+    baseDir: string,
+    rootPath: string,
+    filePath: string,
+    withIndex: boolean
+): Promise<string> {
+    pruneSnapshots(baseDir);
+
+    const id = randomUUID();
+    const dir = path.join(baseDir, id);
+    const absolutePath = path.join(rootPath, filePath);
+    const existed = fs.existsSync(absolutePath);
+
+    fs.mkdirSync(dir, { recursive: true });
+    if (existed) fs.copyFileSync(absolutePath, path.join(dir, CONTENT));
+
+    const snapshot: DiscardSnapshot = { rootPath, filePath, createdAt: Date.now(), existed };
+    if (withIndex) snapshot.index = await readIndexEntry(rootPath, filePath);
+    fs.writeFileSync(path.join(dir, MANIFEST), JSON.stringify(snapshot, null, 2));
+    return id;
+}
+
+/**
+ * Discard every change to a file, staged or not. A file HEAD knows goes back
+ * to HEAD; one it does not, untracked or newly added, is deleted.
+ */
+export async function discardFile(
+    baseDir: string,
+    rootPath: string,
+    filePath: string
+): Promise<GitOperationResult & { snapshotId?: string }> {
+    let snapshotId: string;
+    try {
+        snapshotId = await takeSnapshot(baseDir, rootPath, filePath, true);
+    } catch (error) {
+        return { success: false, error: `Could not save a copy first: ${errorMessage(error)}` };
+    }
+
+    try {
+        const inHead = await runGit(rootPath, ['cat-file', '-e', `HEAD:${filePath}`]).then(() => true, () => false);
+        if (inHead) {
+            await runGit(rootPath, ['restore', '--source=HEAD', '--staged', '--worktree', '--', filePath]);
+        } else {
+            await runGit(rootPath, ['rm', '--cached', '--quiet', '--ignore-unmatch', '--', filePath]);
+            fs.rmSync(path.join(rootPath, filePath), { force: true });
+        }
+        return { success: true, snapshotId };
+    } catch (error) {
+        fs.rmSync(path.join(baseDir, snapshotId), { recursive: true, force: true });
+        return { success: false, error: errorMessage(error) };
+    }
+}
+
+/** Discard chosen hunks and lines of a file's unstaged changes. */
+export async function discardHunks(
+    baseDir: string,
+    rootPath: string,
+    filePath: string,
+    selections: GitHunkSelection[]
+): Promise<GitOperationResult & { snapshotId?: string }> {
+    let snapshotId: string;
+    try {
+        snapshotId = await takeSnapshot(baseDir, rootPath, filePath, false);
+    } catch (error) {
+        return { success: false, error: `Could not save a copy first: ${errorMessage(error)}` };
+    }
+
+    const result = await applyHunkSelection(rootPath, filePath, 'discard', selections);
+    if (!result.success) {
+        fs.rmSync(path.join(baseDir, snapshotId), { recursive: true, force: true });
+        return result;
+    }
+    return { success: true, snapshotId };
+}
+
+/** Put a discarded file back as its snapshot had it, then drop the snapshot. */
+export async function restoreSnapshot(baseDir: string, snapshotId: string): Promise<GitOperationResult> {
+    // The ID comes from the renderer; it must name a folder directly in ours
+    const dir = path.join(baseDir, path.basename(snapshotId));
+    try {
+        const snapshot = JSON.parse(fs.readFileSync(path.join(dir, MANIFEST), 'utf-8')) as DiscardSnapshot;
+        const absolutePath = path.join(snapshot.rootPath, snapshot.filePath);
+
+        if (snapshot.existed) {
+            fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+            fs.copyFileSync(path.join(dir, CONTENT), absolutePath);
+        } else {
+            fs.rmSync(absolutePath, { force: true });
+        }
+
+        if (snapshot.index) {
+            const { mode, sha } = snapshot.index;
+            await runGit(snapshot.rootPath, ['update-index', '--add', '--cacheinfo', `${mode},${sha},${snapshot.filePath}`]);
+        } else if (snapshot.index === null) {
+            await runGit(snapshot.rootPath, ['rm', '--cached', '--quiet', '--ignore-unmatch', '--', snapshot.filePath]);
+        }
+
+        fs.rmSync(dir, { recursive: true, force: true });
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: errorMessage(error) };
+    }
+}
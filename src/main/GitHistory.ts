@@ -0,0 +1,136 @@
+import { runGit } from './GitCommand';
+import { parseDiffHunks, type DiffHunk } from './GitHunks';
+
+/**
+ * A repository's commits, what each changed, and the diff of each file it
+ * changed, for looking back over what an agent committed.
+ */
+
+export interface GitCommitInfo {
+    hash: string;
+    shortHash: string;
+    authorName: string;
+    authorEmail: string;
+    /** Author date, in milliseconds. */
+    date: number;
+    subject: string;
+    /** The message after its subject line; empty for most commits. */
+    body: string;
+    /** More than one for a merge, whose changes are shown against the first. */
+    parents: string[];
+}
+
+export interface GitCommitFile {
+    path: string;
+    /** A, M, D or R, as `git diff --name-status` reports it. */
+    status: string;
+    /** Where a renamed file was before. */
+    oldPath?: string;
+}
+
+/** One file's change in a commit, shaped like a working-tree diff. */
+export interface GitCommitFileDiff {
+    filePath: string;
+    staged: false;
+    oldContent: string;
+    newContent: string;
+    hunks: DiffHunk[];
+    isBinary: boolean;
+    isNew: boolean;
+    isDeleted: boolean;
+}
+
+const FIELD_SEPARATOR = '\u0000';
+const RECORD_SEPARATOR = '\u001e';
+
+/**
+ * Commits reachable from HEAD, newest first, a page at a time. Given a file,
+ * only the commits that touched it, following it back through renames.
+ */
+export async function listCommits(
+    rootPath: string,
+    options: { filePath?: string; skip?: number; limit?: number } = {}
+): Promise<GitCommitInfo[]> {
+    const format = ['%H', '%h', '%an', '%ae', '%at', '%P', '%s', '%b'].join('%x00') + '%x1e';
+    const args = ['log', `--format=${format}`, `--max-count=${options.limit ?? 100}`, `--skip=${options.skip ?? 0}`];
+    if (options.filePath) args.push('--follow', '--', options.filePath);
+
+    const output = await runGit(rootPath, args);
+    return output
+        .split(RECORD_SEPARATOR)
+        .map((record) => record.replace(/^\n/, ''))
+        .filter(Boolean)
+        .map((record) => {
+            const [hash, shortHash, authorName, authorEmail, time, parents, subject, body] = record.split(FIELD_SEPARATOR);
+            return {
+                hash,
+                shortHash,
+                authorName,
+                authorEmail,
+                date: Number(time) * 1000,
+                subject,
+                body: (body ?? '').trim(),
+                parents: parents ? parents.split(' ') : [],
+            };
+        });
+}
+
+/** The first parent of a commit, or the empty tree for a root commit. */
+async function baseOf(rootPath: string, hash: string): Promise<{ base: string; hasParent: boolean }> {
+    try {
+        const parent = await runGit(rootPath, ['rev-parse', '--verify', '--quiet', `${hash}^`]);
+        return { base: parent.trim(), hasParent: true };
+    } catch {
+        const emptyTree = await runGit(rootPath, ['hash-object', '-t', 'tree', '--stdin'], '');
+        return { base: emptyTree.trim(), hasParent: false };
+    }
+}
+
+/** Files a commit changed, with renames detected. */
+export async function listCommitFiles(rootPath: string, hash: string): Promise<GitCommitFile[]> {
+    const { base } = await baseOf(rootPath, hash);
+    const output = await runGit(rootPath, ['diff', '--name-status', '-z', '-M', base, hash]);
+
+    const fields = output.split(FIELD_SEPARATOR).filter(Boolean);
+    const files: GitCommitFile[] = [];
+    for (let i = 0; i < fields.length; ) {
+        const status = fields[i++];
+        if (status.startsWith('R') || status.startsWith('C')) {
+            const oldPath = fields[i++];
+            files.push({ path: fields[i++], status: status[0], oldPath });
+        } else {
+            files.push({ path: fields[i++], status: status[0] });
+        }
+    }
+    return files;
+}
+
+/** A file's change in a commit, against the commit's first parent. */
+export async function getCommitFileDiff(
+    rootPath: string,
+    hash: string,
+    filePath: string,
+    oldPath?: string
+): Promise<GitCommitFileDiff> {
+    const { base, hasParent } = await baseOf(rootPath, hash);
+    const paths = oldPath ? [oldPath, filePath] : [filePath];
+    const diff = await runGit(rootPath, ['diff', '--no-color', '--no-ext-diff', '-M', base, hash, '--', ...paths]);
+
+    const show = (spec: string) => runGit(rootPath, ['show', spec]).then((content) => content, () => null);
+    const [oldContent, newContent] = await Promise.all([
+        hasParent ? show(`${base}:${oldPath ?? filePath}`) : Promise.resolve(null),
+        show(`${hash}:${filePath}`),
+    ]);
+
+    const isBinary = /^Binary files /m.test(diff);
+    return {
+        filePath,
+        staged: false,
+        oldContent: isBinary ? '' : oldContent ?? '',
+        newContent: isBinary ? '' : newContent ?? '',
+        hunks: isBinary ? [] : parseDiffHunks(diff),
+        isBinary,
+        isNew: oldContent === null,
+        isDeleted: newContent === null,
+    };
+}
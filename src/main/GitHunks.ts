@@ -0,0 +1,217 @@
+import { errorMessage, runGit, type GitOperationResult } from './GitCommand';
+
+/**
+ * Hunks of a file's diff, and staging, unstaging or discarding a chosen part
+ * of them. Agents often slip an unrelated change into a file they were asked
+ * to edit; picking hunks and lines lets the two be committed apart.
+ *
+ * The part to apply is named by position in the diff the renderer was shown.
+ * The diff is taken again here and the patch built from that, so nothing the
+ * renderer sends ends up in a patch; a diff that has moved on since is refused
+ * rather than guessed at.
+ */
+
+export interface DiffLine {
+    type: 'context' | 'add' | 'remove';
+    content: string;
+    oldLineNumber?: number;
+    newLineNumber?: number;
+    /** Followed by "\ No newline at end of file". */
+    noNewline?: boolean;
+}
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: DiffLine[];
+}
+
+/** Stage from the working tree, unstage from the index, or discard from the working tree. */
+export type GitLineAction = 'stage' | 'unstage' | 'discard';
+
+export interface GitHunkSelection {
+    /** Position of the hunk in the file's diff. */
+    hunkIndex: number;
+    /** The hunk's header when shown, to tell that the diff has not moved on. */
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    /** Indices into the hunk's lines; every change in it when left out. */
+    lines?: number[];
+}
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+export function parseDiffHunks(diffOutput: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+
+    const lines = diffOutput.split('\n');
+    let currentHunk: DiffHunk | null = null;
+    let oldLine = 0;
+    let newLine = 0;
+
+    for (const line of lines) {
+        // Parse hunk header: @@ -oldStart,oldLines +newStart,newLines @@
+        const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+        if (hunkMatch) {
+            if (currentHunk) {
+                hunks.push(currentHunk);
+            }
+            currentHunk = {
+                oldStart: parseInt(hunkMatch[1], 10),
+                oldLines: parseInt(hunkMatch[2] || '1', 10),
+                newStart: parseInt(hunkMatch[3], 10),
+                newLines: parseInt(hunkMatch[4] || '1', 10),
+                lines: []
+            };
+            oldLine = currentHunk.oldStart;
+            newLine = currentHunk.newStart;
+            continue;
+        }
+
+        // File headers only come before the first hunk, so inside one a line
+        // starting "---" or "+++" is a removed "--" or added "++" line.
+        if (!currentHunk) continue;
+
+        if (line.startsWith('+')) {
+            currentHunk.lines.push({
+                type: 'add',
+                content: line.slice(1),
+                newLineNumber: newLine++
+            });
+        } else if (line.startsWith('-')) {
+            currentHunk.lines.push({
+                type: 'remove',
+                content: line.slice(1),
+                oldLineNumber: oldLine++
+            });
+        } else if (line.startsWith(' ')) {
+            currentHunk.lines.push({
+                type: 'context',
+                content: line.slice(1),
+                oldLineNumber: oldLine++,
+                newLineNumber: newLine++
+            });
+        } else if (line === NO_NEWLINE_MARKER && currentHunk.lines.length > 0) {
+            currentHunk.lines[currentHunk.lines.length - 1].noNewline = true;
+        }
+    }
+
+    if (currentHunk) {
+        hunks.push(currentHunk);
+    }
+
+    return hunks;
+}
+
+/** The diff of one file: the working tree against the index, or the index against HEAD. */
+export async function readFileDiff(rootPath: string, filePath: string, staged: boolean): Promise<DiffHunk[]> {
+    const args = ['diff', '--no-color', '--no-ext-diff', ...(staged ? ['--cached'] : []), '--', filePath];
+    return parseDiffHunks(await runGit(rootPath, args));
+}
+
+/**
+ * First line a side of a hunk covers, given where the other side starts. A
+ * side of no lines is placed after the line it starts at, as in git's own
+ * headers, hence the adjustments.
+ */
+function otherStart(start: number, lines: number, otherLines: number, offset: number): number {
+    const first = start + (lines === 0 ? 1 : 0) + offset;
+    return otherLines === 0 ? first - 1 : first;
+}
+
+/**
+ * A unified patch of the chosen changes, or null when nothing is chosen.
+ *
+ * Applied forwards (staging), a change left out must not happen: a removed
+ * line stays as context and an added one is dropped. Applied in reverse
+ * (unstaging, discarding), a change left out must stay: an added line becomes
+ * context and a removed one is dropped. Each hunk keeps the side it is
+ * applied to as it was, so only the other side's start moves.
+ */
+export function buildPatch(
+    filePath: string,
+    hunks: DiffHunk[],
+    selections: GitHunkSelection[],
+    reverse: boolean
+): string | null {
+    const body: string[] = [];
+    let offset = 0;
+
+    const ordered = [...selections].sort((a, b) => a.hunkIndex - b.hunkIndex);
+    for (const selection of ordered) {
+        const hunk = hunks[selection.hunkIndex];
+        const chosen = selection.lines ? new Set(selection.lines) : null;
+        const lines: string[] = [];
+        let oldLines = 0;
+        let newLines = 0;
+        let changes = 0;
+
+        const push = (prefix: string, line: DiffLine) => {
+            lines.push(prefix + line.content);
+            if (line.noNewline) lines.push(NO_NEWLINE_MARKER);
+            if (prefix !== '+') oldLines++;
+            if (prefix !== '-') newLines++;
+        };
+
+        hunk.lines.forEach((line, index) => {
+            if (line.type === 'context') {
+                push(' ', line);
+            } else if (!chosen || chosen.has(index)) {
+                push(line.type === 'add' ? '+' : '-', line);
+                changes++;
+            } else if ((line.type === 'remove') !== reverse) {
+                push(' ', line);
+            }
+        });
+
+        if (changes === 0) continue;
+
+        const oldStart = reverse ? otherStart(hunk.newStart, hunk.newLines, oldLines, -offset) : hunk.oldStart;
+        const newStart = reverse ? hunk.newStart : otherStart(hunk.oldStart, hunk.oldLines, newLines, offset);
+        offset += newLines - oldLines;
+        body.push(`@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`, ...lines);
+    }
+
+    if (body.length === 0) return null;
+    return [`--- a/${filePath}`, `+++ b/${filePath}`, ...body, ''].join('\n');
+}
+
+/** Stage, unstage or discard the chosen hunks and lines of a file. */
+export async function applyHunkSelection(
+    rootPath: string,
+    filePath: string,
+    action: GitLineAction,
+    selections: GitHunkSelection[]
+): Promise<GitOperationResult> {
+    try {
+        const hunks = await readFileDiff(rootPath, filePath, action === 'unstage');
+        const stale = selections.some((selection) => {
+            const hunk = hunks[selection.hunkIndex];
+            return (
+                !hunk ||
+                hunk.oldStart !== selection.oldStart ||
+                hunk.oldLines !== selection.oldLines ||
+                hunk.newStart !== selection.newStart ||
+                hunk.newLines !== selection.newLines
+            );
+        });
+        if (stale) {
+            return { success: false, error: 'The file has changed since its diff was shown. Look again and retry.' };
+        }
+
+        const patch = buildPatch(filePath, hunks, selections, action !== 'stage');
+        if (!patch) return { success: true };
+
+        const args = ['apply', '--whitespace=nowarn'];
+        if (action !== 'discard') args.push('--cached');
+        if (action !== 'stage') args.push('--reverse');
+        await runGit(rootPath, args, patch);
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: errorMessage(error) };
+    }
+}
@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { errorMessage, runGit, type GitOperationResult } from './GitCommand';
+
+/**
+ * Worktrees that give a session its own checkout of a workspace's repository.
+ *
+ * Agents sharing one folder trample each other's edits; a session in a
+ * worktree works on its own branch in its own directory, and its changes come
+ * back through an ordinary merge. Worktrees live under the app's data
+ * directory rather than beside the repository, so they never show up as
+ * untracked files in it or clutter the folder around it.
+ */
+
+/**
+ * Where a repository's worktrees go: one folder per repository, named so two
+ * repositories with the same folder name stay apart.
+ */
+function worktreesDir(baseDir: string, rootPath: string): string {
+    const digest = createHash('sha1').update(rootPath).digest('hex').slice(0, 8);
+    return path.join(baseDir, `${path.basename(rootPath)}-${digest}`);
+}
+
+/** Check out a new branch from HEAD into a fresh worktree. */
+export async function createWorktree(
+    baseDir: string,
+    rootPath: string,
+    branch: string
+): Promise<GitOperationResult & { path?: string }> {
+    try {
+        await runGit(rootPath, ['check-ref-format', '--branch', branch]);
+    } catch {
+        return { success: false, error: `"${branch}" is not a valid branch name` };
+    }
+
+    const worktreePath = path.join(worktreesDir(baseDir, rootPath), branch.replace(/[^\w.-]+/g, '-'));
+    try {
+        fs.mkdirSync(path.dirname(worktreePath), { recursive: true });
+        await runGit(rootPath, ['worktree', 'add', '-b', branch, worktreePath]);
+        return { success: true, path: worktreePath };
+    } catch (error) {
+        return { success: false, error: errorMessage(error) };
+    }
+}
+
+/**
+ * Remove a worktree and its branch, uncommitted changes and all. A worktree
+ * already deleted by hand is pruned instead.
+ */
+export async function removeWorktree(
+    rootPath: string,
+    worktreePath: string,
+    branch: string
+): Promise<GitOperationResult> {
+    try {
+        if (fs.existsSync(worktreePath)) {
+            await runGit(rootPath, ['worktree', 'remove', '--force', worktreePath]);
+        } else {
+            await runGit(rootPath, ['worktree', 'prune']);
+        }
+        await runGit(rootPath, ['branch', '-D', branch]);
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: errorMessage(error) };
+    }
+}
+
+/**
+ * Merge a worktree's branch into whatever the workspace has checked out, then
+ * remove the worktree and branch.
+ *
+ * Refuses while the worktree has uncommitted changes, which a merge would
+ * leave behind and the removal would destroy. A merge that conflicts is
+ * aborted, leaving both checkouts as they were.
+ */
+export async function mergeWorktree(
+    rootPath: string,
+    worktreePath: string,
+    branch: string
+): Promise<GitOperationResult> {
+    try {
+        const status = await runGit(worktreePath, ['status', '--porcelain']);
+        if (status.trim()) {
+            return { success: false, error: 'The worktree has uncommitted changes. Commit them first, or keep the worktree.' };
+        }
+    } catch (error) {
+        return { success: false, error: errorMessage(error) };
+    }
+
+    try {
+        await runGit(rootPath, ['merge', '--no-edit', branch]);
+    } catch (error) {
+        await runGit(rootPath, ['merge', '--abort']).catch(() => undefined);
+        return { success: false, error: errorMessage(error) };
+    }
+
+    try {
+        await runGit(rootPath, ['worktree', 'remove', worktreePath]);
+        await runGit(rootPath, ['branch', '-d', branch]);
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: `Merged, but could not clean up: ${errorMessage(error)}` };
+    }
+}
@@ -0,0 +1,136 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * A local socket agent CLIs report their lifecycle hooks to.
+ *
+ * A driver that supports hooks points each of them at `command`, a tiny
+ * reporter run under Electron's own Node. The reporter forwards the JSON the
+ * CLI hands the hook on stdin, tagged with the session named in the
+ * environment, and exits without a word: a hook's output and exit status
+ * mean something to the CLI, and reporting must never change what it does.
+ */
+
+/** Variable naming the socket the reporter connects to. */
+export const HOOK_SOCKET_ENV_VAR = 'CONSOLA_HOOK_SOCKET';
+
+/** Variable naming the session a hook fired in: its terminal instance ID. */
+export const HOOK_SESSION_ENV_VAR = 'CONSOLA_HOOK_SESSION';
+
+// Hook payloads are small; anything past this is not a reporter talking.
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+const REPORTER_SOURCE = `// Written by Consola. Forwards an agent hook's payload to the app.
+const net = require('net');
+let input = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => { input += chunk; });
+process.stdin.on('end', () => {
+    let payload = null;
+    try { payload = JSON.parse(input); } catch { process.exit(0); }
+    const socket = net.connect(process.env.${HOOK_SOCKET_ENV_VAR}, () => {
+        socket.end(JSON.stringify({ session: process.env.${HOOK_SESSION_ENV_VAR}, payload }));
+    });
+    socket.on('error', () => process.exit(0));
+    socket.on('close', () => process.exit(0));
+});
+`;
+
+interface HookMessage {
+    session?: unknown;
+    payload?: unknown;
+}
+
+function quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export class HookServer extends EventEmitter {
+    private server: net.Server | null = null;
+    private readonly socketPath: string;
+    private readonly reporterPath: string;
+
+    /** @param dataDir Where the reporter script is written. */
+    constructor(dataDir: string) {
+        super();
+        this.socketPath =
+            process.platform === 'win32'
+                ? `\\\\.\\pipe\\consola-hooks-${process.pid}`
+                : path.join(os.tmpdir(), `consola-hooks-${process.pid}.sock`);
+        this.reporterPath = path.join(dataDir, 'hook-reporter.js');
+    }
+
+    /**
+     * Start listening. Until this succeeds hooks simply fail to connect, and
+     * sessions fall back to reading activity off their output.
+     */
+    public start(): void {
+        if (this.server) return;
+
+        try {
+            fs.mkdirSync(path.dirname(this.reporterPath), { recursive: true });
+            fs.writeFileSync(this.reporterPath, REPORTER_SOURCE);
+            // A socket left behind by a crashed run would make listen fail.
+            if (process.platform !== 'win32') fs.rmSync(this.socketPath, { force: true });
+        } catch (error) {
+            console.error('Could not prepare agent hooks:', error);
+            return;
+        }
+
+        this.server = net.createServer((socket) => this.handleConnection(socket));
+        this.server.on('error', (error) => {
+            console.error('Agent hook socket failed:', error);
+            this.stop();
+        });
+        this.server.listen(this.socketPath);
+    }
+
+    public stop(): void {
+        this.server?.close();
+        this.server = null;
+        if (process.platform !== 'win32') fs.rmSync(this.socketPath, { force: true });
+    }
+
+    /**
+     * The shell command a hook runs to report, or null where hooks are not
+     * injected. Hook commands go through a POSIX shell, which Windows lacks.
+     */
+    public get command(): string | null {
+        if (!this.server || process.platform === 'win32') return null;
+        return `ELECTRON_RUN_AS_NODE=1 ${quote(process.execPath)} ${quote(this.reporterPath)}`;
+    }
+
+    /** Variables that tell the reporter where to send a session's events. */
+    public envFor(instanceId: string): NodeJS.ProcessEnv {
+        return { [HOOK_SOCKET_ENV_VAR]: this.socketPath, [HOOK_SESSION_ENV_VAR]: instanceId };
+    }
+
+    private handleConnection(socket: net.Socket): void {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        socket.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_MESSAGE_BYTES) {
+                socket.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        socket.on('end', () => {
+            try {
+                const message = JSON.parse(Buffer.concat(chunks).toString('utf8')) as HookMessage;
+                if (typeof message.session === 'string' && message.payload) {
+                    this.emit('event', message.session, message.payload);
+                }
+            } catch {
+                // Not a reporter; nothing to do.
+            }
+            socket.end();
+        });
+        socket.on('error', () => socket.destroy());
+    }
+}
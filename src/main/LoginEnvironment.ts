@@ -33,7 +33,8 @@ const INHERITED_SESSION_VARS = [
 
 let cachedEnv: NodeJS.ProcessEnv | null = null;
 
-function getLoginShell(): string {
+/** The user's own shell: the one their terminal app would open. */
+export function getLoginShell(): string {
     if (os.platform() === 'win32') {
         return process.env.COMSPEC || 'powershell.exe';
     }
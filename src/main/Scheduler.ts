@@ -0,0 +1,104 @@
+import { randomUUID } from 'crypto';
+import type { TerminalManager } from './TerminalManager';
+import { nextCronTime } from '../shared/cron';
+import type { ScheduledPromptSpec, ScheduleFiredMessage } from '../shared/types';
+import { generateSessionInstanceId } from '../shared/sessionInstanceId';
+
+/**
+ * Fires scheduled prompts into sessions.
+ *
+ * The renderer owns the schedules and hands over the enabled ones, resolved
+ * into launch options, whenever they change. A run that falls while the app
+ * is closed is skipped rather than made up on the next start: a prompt meant
+ * for nine in the morning should not land at midnight.
+ */
+
+// setTimeout overflows past this and fires at once; longer waits re-arm.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+function nextRun(spec: ScheduledPromptSpec, after: number): number | null {
+    if (spec.timing.kind === 'once') {
+        return spec.timing.at > after ? spec.timing.at : null;
+    }
+    return nextCronTime(spec.timing.expression, after);
+}
+
+export class Scheduler {
+    private readonly timers = new Map<string, NodeJS.Timeout>();
+
+    constructor(
+        private readonly manager: TerminalManager,
+        private readonly onFired: (message: ScheduleFiredMessage) => void
+    ) {}
+
+    /** Replace every armed schedule with these. */
+    public sync(specs: ScheduledPromptSpec[]): void {
+        this.stop();
+        for (const spec of specs) {
+            this.arm(spec, Date.now());
+        }
+    }
+
+    public stop(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    private arm(spec: ScheduledPromptSpec, after: number): void {
+        const due = nextRun(spec, after);
+        if (due === null) return;
+        this.armUntil(spec, due);
+    }
+
+    private armUntil(spec: ScheduledPromptSpec, due: number): void {
+        const delay = Math.min(Math.max(due - Date.now(), 0), MAX_TIMER_MS);
+        const timer = setTimeout(() => {
+            this.timers.delete(spec.scheduleId);
+            if (Date.now() < due) {
+                this.armUntil(spec, due);
+                return;
+            }
+            this.fire(spec, due);
+            if (spec.timing.kind === 'cron') this.arm(spec, due);
+        }, delay);
+        this.timers.set(spec.scheduleId, timer);
+    }
+
+    private fire(spec: ScheduledPromptSpec, firedAt: number): void {
+        const instanceId = spec.session?.instanceId ?? generateSessionInstanceId(spec.workspaceId);
+        const claudeSessionId = spec.session?.claudeSessionId ?? randomUUID();
+        const message: ScheduleFiredMessage = {
+            scheduleId: spec.scheduleId,
+            firedAt,
+            workspaceId: spec.workspaceId,
+            instanceId,
+            claudeSessionId,
+            isNewSession: !spec.session,
+        };
+
+        try {
+            // A running session queues the prompt behind whatever it is doing;
+            // one that has exited is restarted to take it.
+            const snapshot = this.manager.ensure(instanceId, {
+                ...spec.harness,
+                kind: 'agent',
+                cwd: spec.cwd,
+                claudeSessionId,
+                resume: spec.session?.resume ?? false,
+                initialPrompt: spec.prompt,
+            });
+            if (snapshot.exited) {
+                throw new Error('The session could not be started, so the prompt was not sent.');
+            }
+            // Later runs continue this conversation, even before the
+            // renderer syncs again.
+            if (spec.session) spec.session.resume = true;
+        } catch (error) {
+            message.error = error instanceof Error ? error.message : String(error);
+        }
+
+        this.onFired(message);
+    }
+}
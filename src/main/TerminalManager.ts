@@ -1,6 +1,13 @@
 import { BrowserWindow } from 'electron';
-import { TerminalService, TerminalExitInfo, TerminalServiceOptions } from './TerminalService';
+import {
+    TerminalService,
+    TerminalExitInfo,
+    TerminalServiceOptions,
+    SessionHooks,
+} from './TerminalService';
+import type { HookServer } from './HookServer';
 import { IPC_CHANNELS } from '../shared/constants';
+import type { ConfirmationChoice, QueuedPrompt, SessionHookEvent, TerminalSnapshot } from '../shared/types';
 
 /**
  * Owns one TerminalService per session tab and forwards its events to the
@@ -12,32 +19,38 @@ import { IPC_CHANNELS } from '../shared/constants';
 export class TerminalManager {
     private readonly terminals = new Map<string, TerminalService>();
 
-    constructor(private readonly window: BrowserWindow) {}
+    constructor(
+        private readonly window: BrowserWindow,
+        private readonly hookServer?: HookServer
+    ) {
+        hookServer?.on('event', this.handleHookEvent);
+    }
 
     /**
      * Get the terminal for a session, starting it if needed.
      *
      * @returns Buffered output to repaint, plus the terminal's current state.
      */
-    public ensure(
-        instanceId: string,
-        options: TerminalServiceOptions
-    ): { replay: string; exited: boolean } {
+    public ensure(instanceId: string, options: TerminalServiceOptions): TerminalSnapshot {
         let terminal = this.terminals.get(instanceId);
 
         if (!terminal) {
-            terminal = new TerminalService(options);
+            terminal = new TerminalService(options, this.sessionHooks(instanceId));
             this.terminals.set(instanceId, terminal);
             this.wireEvents(instanceId, terminal);
             terminal.start();
         } else if (options.initialPrompt) {
-            // Terminal already running — queue the prompt rather than dropping it.
-            terminal.queuePrompt(options.initialPrompt);
+            // Terminal already open — queue the prompt rather than dropping it.
+            // An exited CLI would never take it, so bring that back first; if
+            // it will not start, the snapshot says so and nothing is queued.
+            if (terminal.hasClaudeExited()) terminal.restartClaude();
+            if (!terminal.hasClaudeExited()) terminal.queuePrompt(options.initialPrompt);
         }
 
         return {
             replay: terminal.getReplayBuffer(),
             exited: terminal.hasClaudeExited(),
+            queue: terminal.getPromptQueue(),
         };
     }
 
@@ -56,8 +69,21 @@ export class TerminalManager {
         for (const instanceId of [...this.terminals.keys()]) {
             this.destroy(instanceId);
         }
+        this.hookServer?.off('event', this.handleHookEvent);
+    }
+
+    private sessionHooks(instanceId: string): SessionHooks | undefined {
+        const command = this.hookServer?.command;
+        if (!this.hookServer || !command) return undefined;
+        return { command, env: this.hookServer.envFor(instanceId) };
     }
 
+    // Hooks name their session by instance ID; one that has since closed has
+    // no terminal left to tell.
+    private readonly handleHookEvent = (instanceId: string, payload: unknown): void => {
+        this.terminals.get(instanceId)?.handleHookPayload(payload);
+    };
+
     private send(channel: string, payload: unknown): void {
         if (!this.window.isDestroyed()) {
             this.window.webContents.send(channel, payload);
@@ -73,8 +99,24 @@ export class TerminalManager {
             this.send(IPC_CHANNELS.TERMINAL_ACTIVITY, { instanceId, busy });
         });
 
-        terminal.on('awaiting-confirmation', (awaiting: boolean) => {
-            this.send(IPC_CHANNELS.TERMINAL_AWAITING_CONFIRMATION, { instanceId, awaiting });
+        terminal.on(
+            'awaiting-confirmation',
+            (awaiting: boolean, choices: ConfirmationChoice[], menuId: number) => {
+                this.send(IPC_CHANNELS.TERMINAL_AWAITING_CONFIRMATION, {
+                    instanceId,
+                    awaiting,
+                    choices,
+                    menuId,
+                });
+            }
+        );
+
+        terminal.on('queue', (queue: QueuedPrompt[]) => {
+            this.send(IPC_CHANNELS.TERMINAL_QUEUE, { instanceId, queue });
+        });
+
+        terminal.on('hook-event', (event: SessionHookEvent) => {
+            this.send(IPC_CHANNELS.TERMINAL_HOOK_EVENT, { instanceId, event });
         });
 
         terminal.on('exit', (info: TerminalExitInfo) => {
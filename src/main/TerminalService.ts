@@ -1,16 +1,26 @@
 import * as pty from 'node-pty';
 import { EventEmitter } from 'events';
 import * as fs from 'fs';
-import { TerminalDimensions, HarnessLaunchFields } from '../shared/types';
+import { randomUUID } from 'crypto';
+import {
+    TerminalDimensions,
+    HarnessLaunchFields,
+    SessionKind,
+    ConfirmationChoice,
+    QueuedPrompt,
+    SessionHookEvent,
+} from '../shared/types';
 import { DEFAULT_DIMENSIONS } from '../shared/constants';
-import { getLoginEnv } from './LoginEnvironment';
+import { getLoginEnv, getLoginShell } from './LoginEnvironment';
 import { getDriver, toHarnessConfig, type HarnessConfig, type HarnessDriver } from './drivers';
 import { ScreenModel } from './ScreenModel';
+import { parseConfirmationMenu, type ConfirmationMenu } from './ConfirmationMenu';
 
 /**
  * One session tab's terminal.
  *
- * Owns the `claude` process behind a single pane. The process outlives the
+ * Owns the process behind a single pane — the harness's agent CLI, or for a
+ * shell session the user's own shell. The process outlives the
  * React component that renders it: output is mirrored here so remounting a tab
  * repaints instead of restarting the conversation.
  */
@@ -18,6 +28,13 @@ import { ScreenModel } from './ScreenModel';
 /** Silence after which a terminal is considered idle. */
 const IDLE_DEBOUNCE_MS = 500;
 
+/**
+ * Silence after which an agent reporting through hooks is taken to have
+ * stopped anyway. Its spinner repaints several times a second while it works,
+ * and an interrupted turn fires no Stop hook.
+ */
+const HOOK_STALL_MS = 10000;
+
 /**
  * Markers for a TUI screen that is waiting on a keyboard confirmation — the
  * workspace trust gate, tool permission prompts, and similar menus.
@@ -32,15 +49,9 @@ const CONFIRMATION_MARKERS = [
     /enter to confirm/i,
 ];
 
-/**
- * An empty prompt composer: the CLI is booted, idle, and waiting for typing.
- *
- * Waiting for this positive signal — rather than merely for output to stop —
- * keeps a queued prompt out of the startup repaint and out of any menu, and
- * requiring the composer to be *empty* means it can never clobber text the user
- * has already begun typing.
- */
-const COMPOSER_READY_PATTERN = /^\s*[❯>]\s*$/;
+/** Cursor keys as a terminal sends them, for moving through a menu. */
+const KEY_UP = '\x1b[A';
+const KEY_DOWN = '\x1b[B';
 
 /** Erase the display and scrollback, then home the cursor. */
 const CLEAR_SCREEN = '\x1b[2J\x1b[3J\x1b[H';
@@ -55,6 +66,8 @@ function normalizeScreen(visibleText: string): string {
 }
 
 export interface TerminalServiceOptions extends HarnessLaunchFields {
+    /** Absent means an agent session. */
+    kind?: SessionKind;
     cwd: string;
     /** Session ID Consola assigned to this tab. */
     claudeSessionId: string;
@@ -67,10 +80,23 @@ export interface TerminalServiceOptions extends HarnessLaunchFields {
     initialPrompt?: string;
 }
 
+/** How a session's agent reports its hooks to the app; see `HookServer`. */
+export interface SessionHooks {
+    command: string;
+    env: NodeJS.ProcessEnv;
+}
+
 export interface TerminalExitInfo {
     exitCode: number;
 }
 
+/** What to spawn for one launch. */
+interface LaunchCommand {
+    binary: string;
+    args: string[];
+    env: NodeJS.ProcessEnv;
+}
+
 export class TerminalService extends EventEmitter {
     private claudePty: pty.IPty | null = null;
     private dimensions: TerminalDimensions;
@@ -80,15 +106,33 @@ export class TerminalService extends EventEmitter {
 
     private screen: ScreenModel | null = null;
     private idleTimer: NodeJS.Timeout | null = null;
+    private stallTimer: NodeJS.Timeout | null = null;
     private isBusy = false;
     private claudeExited = false;
     /** Whether the current Claude launch has painted anything at all. */
     private claudeProducedOutput = false;
-    private pendingPrompt: string | null = null;
+    /** Prompts to submit in order, each once the previous turn is done. */
+    private promptQueue: QueuedPrompt[] = [];
     private isAwaitingConfirmation = false;
+    private confirmationChoices: ConfirmationChoice[] = [];
+    /** What the menu on screen asks, to tell it from the next one. */
+    private confirmationPrompt = '';
+    /** Numbers each menu shown, so an answer can name the one it was meant for. */
+    private confirmationMenuId = 0;
     private isDestroyed = false;
+    private readonly isShell: boolean;
+    /**
+     * Whether the current launch has reported a hook. From then on its hooks
+     * alone say when it is busy or waiting on a menu; until then, which covers
+     * startup, the trust gate and CLIs without hooks, both are read off the
+     * output.
+     */
+    private hooksActive = false;
 
-    constructor(options: TerminalServiceOptions) {
+    constructor(
+        options: TerminalServiceOptions,
+        private readonly hooks?: SessionHooks
+    ) {
         super();
         this.dimensions = {
             cols: options.cols ?? DEFAULT_DIMENSIONS.cols,
@@ -100,7 +144,10 @@ export class TerminalService extends EventEmitter {
         // failure would be indistinguishable from a missing conversation.
         this.driver = getDriver(options.driverId);
         this.harness = toHarnessConfig(options);
-        this.pendingPrompt = options.initialPrompt ?? null;
+        this.isShell = options.kind === 'shell';
+        if (options.initialPrompt) {
+            this.promptQueue.push({ id: randomUUID(), text: options.initialPrompt });
+        }
     }
 
     public start(): void {
@@ -108,29 +155,135 @@ export class TerminalService extends EventEmitter {
     }
 
     /**
-     * Queue a prompt to submit once the CLI is ready.
+     * Add a prompt to the end of the queue, to submit once the CLI is ready
+     * and every prompt ahead of it has had its turn.
      *
      * Delivery waits for the terminal to go quiet and refuses to type into a
      * confirmation menu, so a prompt can never be mistaken for an answer to the
      * workspace trust gate or a permission request.
      */
     public queuePrompt(prompt: string): void {
-        this.pendingPrompt = prompt;
+        this.promptQueue = [...this.promptQueue, { id: randomUUID(), text: prompt }];
+        this.emit('queue', this.promptQueue);
         if (!this.isBusy) {
-            this.deliverPendingPrompt();
+            this.deliverNextPrompt();
         }
     }
 
+    public removeQueuedPrompt(id: string): void {
+        const queue = this.promptQueue.filter((item) => item.id !== id);
+        if (queue.length === this.promptQueue.length) return;
+        this.promptQueue = queue;
+        this.emit('queue', this.promptQueue);
+    }
+
+    /** Move a queued prompt to `toIndex`, clamped to the queue. */
+    public moveQueuedPrompt(id: string, toIndex: number): void {
+        const from = this.promptQueue.findIndex((item) => item.id === id);
+        if (from === -1) return;
+        const queue = [...this.promptQueue];
+        const [item] = queue.splice(from, 1);
+        queue.splice(Math.max(0, Math.min(toIndex, queue.length)), 0, item);
+        this.promptQueue = queue;
+        this.emit('queue', this.promptQueue);
+    }
+
+    public getPromptQueue(): QueuedPrompt[] {
+        return this.promptQueue;
+    }
+
     /** Whether the visible screen is a menu waiting on a keypress. */
     public awaitingConfirmation(): boolean {
         return this.isAwaitingConfirmation;
     }
 
+    /** The options of the menu on screen; empty when there is none or it is unreadable. */
+    public getConfirmationChoices(): ConfirmationChoice[] {
+        return this.confirmationChoices;
+    }
+
+    /**
+     * Answer the confirmation menu on screen with one of its options.
+     *
+     * `menuId` names the menu the answer was meant for, as announced with its
+     * options. Every permission menu offers the same `Yes` and `No`, so the
+     * option alone cannot say which prompt it answers: the answer is refused
+     * unless that menu is still the current one and the screen still shows its
+     * prompt and the option.
+     *
+     * @returns Whether the answer was sent.
+     */
+    public answerConfirmation(menuId: number, choice: ConfirmationChoice): boolean {
+        if (!this.claudePty || !this.screen || !this.isAwaitingConfirmation) return false;
+        if (menuId !== this.confirmationMenuId) return false;
+
+        const menu = parseConfirmationMenu(this.screen.visibleText());
+        if (menu.prompt !== this.confirmationPrompt) return false;
+        const index = menu.choices.findIndex(
+            (c) => c.number === choice.number && c.label === choice.label
+        );
+        if (index === -1) return false;
+
+        // Walk the cursor there when it is drawn; otherwise pick by number,
+        // which these menus also accept.
+        if (menu.selectedIndex === null) {
+            this.claudePty.write(String(choice.number));
+            return true;
+        }
+        const steps = index - menu.selectedIndex;
+        this.claudePty.write((steps < 0 ? KEY_UP : KEY_DOWN).repeat(Math.abs(steps)) + '\r');
+        return true;
+    }
+
+    /**
+     * Apply a lifecycle event the agent reported through a hook, and pass it
+     * on. Payloads the driver does not recognise are ignored.
+     */
+    public handleHookPayload(payload: unknown): void {
+        if (this.isShell || !this.claudePty) return;
+        const event = this.driver.parseHookEvent?.(payload);
+        if (!event) return;
+        this.hooksActive = true;
+
+        switch (event.kind) {
+            case 'prompt-submit':
+            case 'tool-start':
+            case 'tool-end':
+                this.updateConfirmation(false);
+                this.setBusy(true);
+                this.armStallTimer();
+                break;
+            case 'permission-request':
+                // Reported by two hooks on releases that have both.
+                if (this.isAwaitingConfirmation) return;
+                this.setBusy(false);
+                this.updateConfirmation(true, this.readConfirmationMenu());
+                break;
+            case 'stop':
+                this.updateConfirmation(false);
+                this.setBusy(false);
+                this.deliverNextPrompt();
+                break;
+            case 'notification':
+                break;
+        }
+        this.emit('hook-event', event);
+    }
+
     /** Escape sequences that repaint the PTY's current screen. */
     public getReplayBuffer(): string {
         return this.screen?.snapshot() ?? '';
     }
 
+    /** The last `lineCount` non-blank lines on screen, bottom line last. */
+    public getScreenTail(lineCount: number): string[] {
+        const lines = (this.screen?.visibleText() ?? '')
+            .split('\n')
+            .map((line) => line.trimEnd())
+            .filter((line) => line.length > 0);
+        return lines.slice(-lineCount);
+    }
+
     public hasClaudeExited(): boolean {
         return this.claudeExited;
     }
@@ -157,7 +310,10 @@ export class TerminalService extends EventEmitter {
         this.screen?.resize(cols, rows);
     }
 
-    /** Restart Claude after it exited, resuming the same conversation. */
+    /**
+     * Restart Claude after it exited, resuming the same conversation. A shell
+     * session simply gets a fresh shell.
+     */
     public restartClaude(): void {
         if (this.claudePty) return;
         this.disposeScreen();
@@ -170,6 +326,10 @@ export class TerminalService extends EventEmitter {
             clearTimeout(this.idleTimer);
             this.idleTimer = null;
         }
+        if (this.stallTimer) {
+            clearTimeout(this.stallTimer);
+            this.stallTimer = null;
+        }
         this.claudePty?.kill();
         this.claudePty = null;
         this.disposeScreen();
@@ -191,23 +351,17 @@ export class TerminalService extends EventEmitter {
             return;
         }
 
-        const binary = this.driver.resolveBinary(this.harness);
-        const args = this.driver.buildSessionArgs(
-            this.harness,
-            this.options.claudeSessionId,
-            resume
-        );
+        const { binary, args, env } = this.resolveLaunch(resume);
 
         try {
             this.claudeProducedOutput = false;
+            this.hooksActive = false;
             this.claudePty = pty.spawn(binary, args, {
                 name: 'xterm-256color',
                 cols: this.dimensions.cols,
                 rows: this.dimensions.rows,
                 cwd: this.options.cwd,
-                env: this.driver.composeEnv(this.harness, getLoginEnv()) as {
-                    [key: string]: string;
-                },
+                env: env as { [key: string]: string },
             });
             this.claudeExited = false;
 
@@ -222,7 +376,7 @@ export class TerminalService extends EventEmitter {
                 // immediately; retry once as a new conversation so the tab
                 // stays usable. Wipe the failed attempt's output first so its
                 // error message does not sit above the fresh session.
-                if (resume && exitCode !== 0) {
+                if (resume && exitCode !== 0 && !this.isShell) {
                     this.disposeScreen();
                     this.emit('data', CLEAR_SCREEN);
                     this.initClaude(false);
@@ -235,19 +389,60 @@ export class TerminalService extends EventEmitter {
                 if (exitCode !== 0 && !this.claudeProducedOutput) {
                     this.writeNotice(
                         `\`${binary}\` exited immediately without starting. ` +
-                            'Check this session\'s harness in Settings — is that binary installed and executable?'
+                            (this.isShell
+                                ? 'Check the SHELL your login environment sets.'
+                                : 'Check this session\'s harness in Settings — is that binary installed and executable?')
                     );
                 }
 
                 this.emit('exit', { exitCode } as TerminalExitInfo);
             });
         } catch (error) {
-            console.error(`Error spawning ${this.driver.id}:`, error);
+            console.error(`Error spawning ${this.isShell ? 'shell' : this.driver.id}:`, error);
             this.claudeExited = true;
             this.emit('exit', { exitCode: 1 } as TerminalExitInfo);
         }
     }
 
+    /**
+     * The command for this launch.
+     *
+     * A shell session is the user's login shell with the same ambient
+     * environment agents get, and none of the harness's settings: it has no
+     * conversation to resume, so `resume` only matters to agents.
+     */
+    private resolveLaunch(resume: boolean): LaunchCommand {
+        if (this.isShell) {
+            return {
+                binary: getLoginShell(),
+                // A login shell, as a terminal app would open, so the user's
+                // profile runs; Windows shells have no such flag.
+                args: process.platform === 'win32' ? [] : ['-l'],
+                env: { ...getLoginEnv() },
+            };
+        }
+
+        const args = this.driver.buildSessionArgs(
+            this.harness,
+            this.options.claudeSessionId,
+            resume,
+            this.options.cwd
+        );
+        const env = this.driver.composeEnv(this.harness, getLoginEnv());
+
+        // Hook arguments go first, so an equivalent flag among the harness's
+        // extra args still has the last word.
+        if (this.hooks && this.driver.buildHookArgs) {
+            return {
+                binary: this.driver.resolveBinary(this.harness),
+                args: [...this.driver.buildHookArgs(this.hooks.command), ...args],
+                env: { ...env, ...this.hooks.env },
+            };
+        }
+
+        return { binary: this.driver.resolveBinary(this.harness), args, env };
+    }
+
     /**
      * Why this session's working directory cannot be entered, or null if it can.
      *
@@ -298,26 +493,69 @@ export class TerminalService extends EventEmitter {
         this.getScreen().write(data);
         this.emit('data', data);
 
-        this.setBusy(true);
+        if (this.hooksActive) {
+            if (this.isBusy) this.armStallTimer();
+        } else {
+            this.setBusy(true);
+        }
         if (this.idleTimer) clearTimeout(this.idleTimer);
         this.idleTimer = setTimeout(() => {
             this.classifyScreen();
-            this.setBusy(false);
-            this.deliverPendingPrompt();
+            if (!this.hooksActive) this.setBusy(false);
+            this.deliverNextPrompt();
         }, IDLE_DEBOUNCE_MS);
     }
 
-    /** Note whether the settled screen is waiting on a keyboard confirmation. */
+    private armStallTimer(): void {
+        if (this.stallTimer) clearTimeout(this.stallTimer);
+        this.stallTimer = setTimeout(() => {
+            this.stallTimer = null;
+            this.setBusy(false);
+        }, HOOK_STALL_MS);
+    }
+
+    /**
+     * Note whether the settled screen is waiting on a keyboard confirmation,
+     * and which options the menu offers. Once hooks report, a menu is only
+     * ever announced by one; the screen supplies its options and shows when
+     * it is gone, since a denied request fires no hook of its own.
+     *
+     * Agents only: the markers describe agent TUIs, and in a shell the same
+     * words are some other program's output rather than a menu.
+     */
     private classifyScreen(): void {
-        if (!this.screen) return;
+        if (!this.screen || this.isShell) return;
+
+        const text = this.screen.visibleText();
+        const menu = parseConfirmationMenu(text);
+        const marked = CONFIRMATION_MARKERS.some((marker) => marker.test(normalizeScreen(text)));
+        const awaiting = this.hooksActive
+            ? this.isAwaitingConfirmation && (marked || menu.choices.length > 0)
+            : marked;
+        this.updateConfirmation(awaiting, awaiting ? menu : undefined);
+    }
 
-        const visible = normalizeScreen(this.screen.visibleText());
-        const awaiting = CONFIRMATION_MARKERS.some((marker) => marker.test(visible));
+    private readConfirmationMenu(): ConfirmationMenu | undefined {
+        return this.screen ? parseConfirmationMenu(this.screen.visibleText()) : undefined;
+    }
 
-        if (awaiting !== this.isAwaitingConfirmation) {
-            this.isAwaitingConfirmation = awaiting;
-            this.emit('awaiting-confirmation', awaiting);
+    private updateConfirmation(awaiting: boolean, menu?: ConfirmationMenu): void {
+        const choices = menu?.choices ?? [];
+        const prompt = menu?.prompt ?? '';
+        // One prompt can follow another without the menu ever leaving the
+        // screen, so a new question is news even when `awaiting` is unchanged.
+        if (
+            awaiting === this.isAwaitingConfirmation &&
+            prompt === this.confirmationPrompt &&
+            JSON.stringify(choices) === JSON.stringify(this.confirmationChoices)
+        ) {
+            return;
         }
+        this.isAwaitingConfirmation = awaiting;
+        this.confirmationChoices = choices;
+        this.confirmationPrompt = prompt;
+        if (awaiting) this.confirmationMenuId++;
+        this.emit('awaiting-confirmation', awaiting, choices, this.confirmationMenuId);
     }
 
     /** Whether the CLI is showing an empty composer, ready for input. */
@@ -327,7 +565,7 @@ export class TerminalService extends EventEmitter {
         return this.screen
             .visibleText()
             .split('\n')
-            .some((line) => COMPOSER_READY_PATTERN.test(line));
+            .some((line) => this.driver.composerReadyPattern.test(line));
     }
 
     private disposeScreen(): void {
@@ -343,28 +581,34 @@ export class TerminalService extends EventEmitter {
     }
 
     /**
-     * Submit a queued prompt, but never into a confirmation menu.
+     * Submit the prompt at the head of the queue, but never into a
+     * confirmation menu.
      *
      * Typing a prompt at the workspace trust gate or a permission request would
      * answer it — the keystrokes become menu selections — so delivery holds
-     * until the user has dealt with the menu themselves.
+     * until the user has dealt with the menu themselves. One prompt goes per
+     * call: the next waits for the turn this one starts to finish, which hooks
+     * report exactly and output otherwise shows by going quiet.
      */
-    private deliverPendingPrompt(): void {
-        if (!this.pendingPrompt) return;
+    private deliverNextPrompt(): void {
+        if (this.promptQueue.length === 0) return;
         if (!this.claudePty) return;
+        if (this.hooksActive && this.isBusy) return;
         if (this.isAwaitingConfirmation) return;
         if (!this.isComposerReady()) return;
 
-        const prompt = this.pendingPrompt;
-        this.pendingPrompt = null;
-        this.paste(prompt);
+        const [next, ...rest] = this.promptQueue;
+        this.promptQueue = rest;
+        this.emit('queue', this.promptQueue);
+        this.paste(next.text);
         this.claudePty.write('\r');
     }
 
     /**
-     * Activity is inferred from output flow: Claude animates while it works and
-     * goes quiet when it wants input. This is a heuristic — it reads as busy
-     * for a moment while the user's own keystrokes echo.
+     * Without hooks, activity is inferred from output flow: Claude animates
+     * while it works and goes quiet when it wants input. That is a heuristic —
+     * it reads as busy for a moment while the user's own keystrokes echo — so
+     * hook events take over as soon as the agent reports one.
      */
     private setBusy(busy: boolean): void {
         if (this.isBusy === busy) return;
@@ -0,0 +1,191 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { listProjectDirs } from './ClaudeSessionIndex';
+import { parseTranscript } from './ClaudeTranscript';
+import type { TranscriptSearchHit, TranscriptTurn } from '../shared/types';
+
+/**
+ * Full-text search over every Claude transcript under a config directory.
+ *
+ * The index is the searchable text of each transcript, kept per file and
+ * rebuilt only for files whose mtime has moved since they were last read — the
+ * same invalidation `readIndex` uses for `sessions-index.json`. A search walks
+ * the project directories, re-reads what changed, and scans the rest from
+ * memory, so the first search pays for the whole history and later ones only
+ * for the conversations that have moved on.
+ *
+ * All of it runs on the main process, so files are read asynchronously and one
+ * at a time, letting terminals and windows carry on between them.
+ */
+
+interface IndexedTurn {
+    turnId: string;
+    role: 'user' | 'assistant';
+    timestamp?: string;
+    text: string;
+    /** `text` case-folded once, so a search does not redo it per keystroke. */
+    folded: string;
+}
+
+interface IndexedTranscript {
+    mtimeMs: number;
+    sessionId: string;
+    turns: IndexedTurn[];
+}
+
+const transcriptIndex = new Map<string, IndexedTranscript>();
+
+// The walk under way per config directory: keystrokes arriving during a first
+// search wait for it rather than start another over the same files.
+const pendingRefreshes = new Map<string, Promise<IndexedTranscript[]>>();
+
+// A word like "test" can match most of a long history; a few hits per session
+// are enough to find the conversation, and the newest turns are kept.
+const MAX_HITS_PER_SESSION = 5;
+const SNIPPET_CONTEXT_CHARS = 60;
+
+/**
+ * The text a turn is found by.
+ *
+ * Tool results are left out: they are file contents and command output, which
+ * would dwarf the conversation in memory and drown its matches in noise. What
+ * was asked, said, reasoned and run is what people search a history for.
+ */
+function searchableText(turn: TranscriptTurn): string {
+    return turn.blocks
+        .map((block) => {
+            switch (block.kind) {
+                case 'text':
+                case 'thinking':
+                    return block.text;
+                case 'tool-use':
+                    return `${block.name} ${JSON.stringify(block.input ?? '')}`;
+                case 'tool-result':
+                    return '';
+            }
+        })
+        .filter(Boolean)
+        .join('\n');
+}
+
+/**
+ * Lowercase text without changing its length, so an offset found in the folded
+ * text is the same offset in the original. The few characters whose lowercase
+ * is longer (`İ`) are left as they are.
+ */
+function foldCase(text: string): string {
+    const lower = text.toLowerCase();
+    if (lower.length === text.length) return lower;
+
+    let folded = '';
+    for (const char of text) {
+        const lowerChar = char.toLowerCase();
+        folded += lowerChar.length === char.length ? lowerChar : char;
+    }
+    return folded;
+}
+
+async function indexTranscript(file: string, mtimeMs: number): Promise<IndexedTranscript> {
+    const turns = parseTranscript(await fs.readFile(file, 'utf8')).map((turn) => {
+        const text = searchableText(turn).replace(/\s+/g, ' ');
+        return {
+            turnId: turn.id,
+            role: turn.role,
+            timestamp: turn.timestamp,
+            text,
+            folded: foldCase(text),
+        };
+    });
+    return { mtimeMs, sessionId: path.basename(file, '.jsonl'), turns };
+}
+
+/** Every transcript under the config directory, brought up to date. */
+function refreshIndex(configDir?: string): Promise<IndexedTranscript[]> {
+    const key = configDir ?? '';
+    let pending = pendingRefreshes.get(key);
+    if (!pending) {
+        pending = walkTranscripts(configDir).finally(() => pendingRefreshes.delete(key));
+        pendingRefreshes.set(key, pending);
+    }
+    return pending;
+}
+
+async function walkTranscripts(configDir?: string): Promise<IndexedTranscript[]> {
+    const transcripts: IndexedTranscript[] = [];
+    for (const dir of listProjectDirs(configDir)) {
+        let names: string[];
+        try {
+            names = await fs.readdir(dir);
+        } catch {
+            continue;
+        }
+
+        const present = new Set<string>();
+        for (const name of names) {
+            if (!name.endsWith('.jsonl')) continue;
+            const file = path.join(dir, name);
+            present.add(file);
+            try {
+                const { mtimeMs } = await fs.stat(file);
+                let indexed = transcriptIndex.get(file);
+                if (!indexed || indexed.mtimeMs !== mtimeMs) {
+                    indexed = await indexTranscript(file, mtimeMs);
+                    transcriptIndex.set(file, indexed);
+                    // Parsing is synchronous; give the event loop a turn before the next file.
+                    await new Promise((resolve) => setImmediate(resolve));
+                }
+                transcripts.push(indexed);
+            } catch {
+                // Removed or unreadable mid-walk; the next search retries it.
+            }
+        }
+
+        // Forget transcripts deleted from this directory since the last walk.
+        for (const file of transcriptIndex.keys()) {
+            if (path.dirname(file) === dir && !present.has(file)) {
+                transcriptIndex.delete(file);
+            }
+        }
+    }
+    return transcripts;
+}
+
+function toHit(sessionId: string, turn: IndexedTurn, matchAt: number, length: number) {
+    const start = Math.max(0, matchAt - SNIPPET_CONTEXT_CHARS);
+    const end = Math.min(turn.text.length, matchAt + length + SNIPPET_CONTEXT_CHARS);
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < turn.text.length ? '…' : '';
+    return {
+        sessionId,
+        turnId: turn.turnId,
+        role: turn.role,
+        timestamp: turn.timestamp,
+        snippet: `${prefix}${turn.text.slice(start, end)}${suffix}`,
+        matchStart: prefix.length + matchAt - start,
+        matchEnd: prefix.length + matchAt - start + length,
+    };
+}
+
+/**
+ * Turns under a config directory containing the query, case-insensitively.
+ *
+ * At most a few turns per session are returned, the latest first, so one
+ * chatty conversation cannot crowd every other out of the results.
+ */
+export async function searchTranscripts(query: string, configDir?: string): Promise<TranscriptSearchHit[]> {
+    const needle = foldCase(query.trim());
+    if (!needle) return [];
+
+    const hits: TranscriptSearchHit[] = [];
+    for (const transcript of await refreshIndex(configDir)) {
+        let found = 0;
+        for (let i = transcript.turns.length - 1; i >= 0 && found < MAX_HITS_PER_SESSION; i--) {
+            const turn = transcript.turns[i];
+            const matchAt = turn.folded.indexOf(needle);
+            if (matchAt === -1) continue;
+            hits.push(toHit(transcript.sessionId, turn, matchAt, needle.length));
+            found++;
+        }
+    }
+    return hits;
+}
@@ -1,11 +1,32 @@
-import { execFile } from 'child_process';
+import { spawn, type ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { getLoginEnv } from '../LoginEnvironment';
-import { getDisplayName } from '../ClaudeSessionIndex';
-import type { HarnessAccount, HarnessProbeResult } from '../../shared/types';
-import type { HarnessConfig, HarnessDriver } from './HarnessDriver';
+import {
+    findSessionFile,
+    getDisplayName,
+    listEntries,
+    readUsage,
+    sessionExists,
+} from '../ClaudeSessionIndex';
+import { forkTranscript, readTranscript } from '../ClaudeTranscript';
+import { ClaudeContextTail } from '../ClaudeContextTail';
+import { searchTranscripts } from '../TranscriptSearch';
+import type {
+    ContextStatus,
+    HarnessAccount,
+    HeadlessEvent,
+    HeadlessToolPolicy,
+    HarnessProbeResult,
+    ImportableSession,
+    SessionHookEvent,
+    TokenUsage,
+    TranscriptSearchHit,
+    TranscriptTurn,
+} from '../../shared/types';
+import type { HarnessConfig, HarnessDriver, HeadlessOptions, HeadlessResult } from './HarnessDriver';
+import { findBinary, probeBinary } from './binaries';
 
 /**
  * Driver for Anthropic's `claude` CLI.
@@ -15,7 +36,6 @@ import type { HarnessConfig, HarnessDriver } from './HarnessDriver';
  * redirects a whole profile, and the shape of the account file it writes.
  */
 
-const VERSION_TIMEOUT_MS = 10000;
 const HEADLESS_TIMEOUT_MS = 60000;
 
 // Locations `claude` commonly installs to, checked when the PATH search fails.
@@ -27,20 +47,24 @@ const FALLBACK_BINARY_PATHS = [
 
 const BINARY_NAME = 'claude';
 
+// A reporter that cannot reach the app gives up at once; this only bounds a
+// hung one, which would otherwise hold up the agent.
+const HOOK_TIMEOUT_SECONDS = 5;
+
+/** The fields of a hook's stdin payload that Consola reads. */
+interface ClaudeHookPayload {
+    hook_event_name?: string;
+    tool_name?: string;
+    tool_use_id?: string;
+    message?: string;
+    notification_type?: string;
+}
+
 // The binary found on PATH, cached for the app's lifetime. Only auto-detection
 // is cached: a pinned path is cheap to check and must never be answered from a
 // stale lookup, or fixing a bad path would need a restart to take effect.
 let autoDetectedBinary: string | null = null;
 
-function isExecutable(candidate: string): boolean {
-    try {
-        fs.accessSync(candidate, fs.constants.X_OK);
-        return true;
-    } catch {
-        return false;
-    }
-}
-
 /**
  * The config directory this harness's CLI would use.
  *
@@ -89,16 +113,10 @@ function readAccount(config: HarnessConfig): HarnessAccount | undefined {
     }
 }
 
-/** Trim `2.1.232 (Claude Code)` down to the version itself. */
-function parseVersion(stdout: string): string | undefined {
-    const trimmed = stdout.trim();
-    if (!trimmed) return undefined;
-    return trimmed.split(/\s+/)[0];
-}
-
 export class ClaudeDriver implements HarnessDriver {
     public readonly id = 'claude' as const;
     public readonly configDirEnvVar = 'CLAUDE_CONFIG_DIR';
+    public readonly composerReadyPattern = /^\s*[❯>]\s*$/;
 
     /**
      * Absolute path to the `claude` binary.
@@ -114,21 +132,10 @@ export class ClaudeDriver implements HarnessDriver {
 
         if (autoDetectedBinary) return autoDetectedBinary;
 
-        const searchPath = getLoginEnv().PATH ?? '';
-        for (const dir of searchPath.split(path.delimiter)) {
-            if (!dir) continue;
-            const candidate = path.join(dir, BINARY_NAME);
-            if (isExecutable(candidate)) {
-                autoDetectedBinary = candidate;
-                return candidate;
-            }
-        }
-
-        for (const candidate of FALLBACK_BINARY_PATHS) {
-            if (isExecutable(candidate)) {
-                autoDetectedBinary = candidate;
-                return candidate;
-            }
+        const found = findBinary(BINARY_NAME, FALLBACK_BINARY_PATHS);
+        if (found) {
+            autoDetectedBinary = found;
+            return found;
         }
 
         // Let the spawn fail with a real error rather than guessing further.
@@ -154,6 +161,60 @@ export class ClaudeDriver implements HarnessDriver {
         return [...base, ...config.extraArgs];
     }
 
+    /**
+     * Hooks for every event Consola follows, passed as inline `--settings`.
+     *
+     * Hooks from every settings source run, so the user's own hooks are
+     * untouched. Tool hooks match every tool.
+     */
+    public buildHookArgs(command: string): string[] {
+        const handlers = [{ type: 'command', command, timeout: HOOK_TIMEOUT_SECONDS }];
+        const always = [{ hooks: handlers }];
+        const everyTool = [{ matcher: '*', hooks: handlers }];
+        const settings = {
+            hooks: {
+                UserPromptSubmit: always,
+                PreToolUse: everyTool,
+                PostToolUse: everyTool,
+                PermissionRequest: everyTool,
+                Notification: always,
+                Stop: always,
+            },
+        };
+        return ['--settings', JSON.stringify(settings)];
+    }
+
+    public parseHookEvent(payload: unknown): SessionHookEvent | null {
+        const hook = payload as ClaudeHookPayload;
+        const toolName = hook.tool_name ?? '';
+        const toolUseId = hook.tool_use_id;
+
+        switch (hook.hook_event_name) {
+            case 'UserPromptSubmit':
+                return { kind: 'prompt-submit' };
+            case 'PreToolUse':
+                return { kind: 'tool-start', toolName, toolUseId };
+            case 'PostToolUse':
+                return { kind: 'tool-end', toolName, toolUseId };
+            case 'PermissionRequest':
+                return { kind: 'permission-request', toolName };
+            case 'Notification': {
+                const message = hook.message ?? '';
+                // Releases without a PermissionRequest hook still announce the
+                // prompt here: "Claude needs your permission to use Bash".
+                if (hook.notification_type === 'permission_prompt' || /needs your permission/i.test(message)) {
+                    const tool = /permission to use (\S+)/i.exec(message);
+                    return { kind: 'permission-request', toolName: tool?.[1] ?? '' };
+                }
+                return { kind: 'notification', message };
+            }
+            case 'Stop':
+                return { kind: 'stop' };
+            default:
+                return null;
+        }
+    }
+
     /**
      * The ambient environment with this harness's profile directory applied.
      *
@@ -167,107 +228,296 @@ export class ClaudeDriver implements HarnessDriver {
     }
 
     public async probeHealth(config: HarnessConfig): Promise<HarnessProbeResult> {
-        const resolvedBinary = this.resolveBinary(config);
-        const account = readAccount(config);
-
-        // Checked here rather than inferred from resolution, which now returns
-        // a pinned path unchanged so a bad one fails loudly instead of quietly
-        // running a different install.
-        if (config.binaryPath && !isExecutable(config.binaryPath)) {
-            return {
-                available: false,
-                resolvedBinary,
-                account,
-                error: `Not executable: ${config.binaryPath}`,
-            };
+        // `--version` prints `2.1.232 (Claude Code)`; the first token is the
+        // version itself.
+        return probeBinary({
+            config,
+            resolvedBinary: this.resolveBinary(config),
+            binaryName: BINARY_NAME,
+            env: this.composeEnv(config, getLoginEnv()),
+            account: readAccount(config),
+        });
+    }
+
+    public getSessionDisplayName(config: HarnessConfig, sessionId: string): string | null {
+        return getDisplayName(sessionId, resolveConfigDir(config));
+    }
+
+    public readTranscript(config: HarnessConfig, sessionId: string): TranscriptTurn[] | null {
+        const file = findSessionFile(sessionId, resolveConfigDir(config));
+        return file ? readTranscript(file) : null;
+    }
+
+    public searchTranscripts(config: HarnessConfig, query: string): Promise<TranscriptSearchHit[]> {
+        return searchTranscripts(query, resolveConfigDir(config));
+    }
+
+    public readUsage(config: HarnessConfig, sessionId: string): TokenUsage | null {
+        return readUsage(sessionId, resolveConfigDir(config));
+    }
+
+    public watchContext(
+        config: HarnessConfig,
+        sessionId: string,
+        onUpdate: (status: ContextStatus) => void
+    ): ClaudeContextTail {
+        const tail = new ClaudeContextTail(sessionId, resolveConfigDir(config), onUpdate);
+        tail.start();
+        return tail;
+    }
+
+    public forkSession(
+        config: HarnessConfig,
+        sessionId: string,
+        newSessionId: string,
+        throughTurnId?: string
+    ): void {
+        const file = findSessionFile(sessionId, resolveConfigDir(config));
+        if (!file) {
+            throw new Error('This conversation has no transcript to fork yet.');
         }
+        forkTranscript(file, newSessionId, throughTurnId);
+    }
+
+    /**
+     * Indexed conversations started in the project folder itself.
+     *
+     * Not those started in a folder inside it: `claude --resume` only looks in
+     * the project directory of its cwd, and an imported session runs in the
+     * workspace folder. Entries whose transcript has since been deleted are
+     * left out too: the index is a cache, and a session adopting one would
+     * have nothing to resume.
+     */
+    public listProjectSessions(config: HarnessConfig, projectPath: string): ImportableSession[] {
+        const configDir = resolveConfigDir(config);
+        const root = path.resolve(projectPath);
+        return listEntries(configDir)
+            .filter((entry) => !!entry.projectPath && path.resolve(entry.projectPath) === root)
+            .filter((entry) => sessionExists(entry.sessionId, configDir))
+            .sort((a, b) => b.modified.localeCompare(a.modified))
+            .map((entry) => ({
+                sessionId: entry.sessionId,
+                summary: entry.summary ?? '',
+                firstPrompt: entry.firstPrompt ?? '',
+                projectPath: entry.projectPath,
+                gitBranch: entry.gitBranch ?? '',
+                messageCount: entry.messageCount ?? 0,
+                created: entry.created ?? '',
+                modified: entry.modified ?? '',
+            }));
+    }
+
+    /**
+     * `claude -p`, read as stream-json so callers can follow along through
+     * `onEvent` and cancel through `signal` rather than wait blind for the end.
+     * Replies arrive as they are written, not a whole message at a time.
+     */
+    public runHeadless(
+        config: HarnessConfig,
+        prompt: string,
+        options: HeadlessOptions
+    ): Promise<HeadlessResult> {
+        const binary = this.resolveBinary(config);
+        const args = [
+            '-p',
+            prompt,
+            // `-p` only streams JSON in verbose mode.
+            '--output-format',
+            'stream-json',
+            '--verbose',
+            '--include-partial-messages',
+            ...toolPolicyArgs(options.toolPolicy ?? 'none'),
+        ];
 
         return new Promise((resolve) => {
-            execFile(
-                resolvedBinary,
-                ['--version'],
-                {
-                    env: this.composeEnv(config, getLoginEnv()),
-                    timeout: VERSION_TIMEOUT_MS,
-                },
-                (error, stdout) => {
-                    if (error) {
-                        resolve({
-                            available: false,
-                            resolvedBinary,
-                            account,
-                            error:
-                                resolvedBinary === BINARY_NAME
-                                    ? `Not found — \`${BINARY_NAME}\` is not installed or not on PATH.`
-                                    : error.message,
-                        });
-                        return;
+            const { signal, onEvent } = options;
+            let result: HeadlessResult | null = null;
+            let lastText = '';
+            let stderr = '';
+            let pending = '';
+            let settled = false;
+            const reply: ReplyInProgress = { text: '' };
+
+            const child = spawn(binary, args, {
+                cwd: options.cwd,
+                env: this.composeEnv(config, getLoginEnv()),
+                stdio: ['ignore', 'pipe', 'pipe'],
+                // Its own process group, so cancelling reaches the tools it ran.
+                detached: process.platform !== 'win32',
+            });
+
+            const kill = () => killProcessTree(child);
+            const timer = setTimeout(kill, options.timeoutMs ?? HEADLESS_TIMEOUT_MS);
+            signal?.addEventListener('abort', kill, { once: true });
+            if (signal?.aborted) kill();
+
+            const finish = (value: HeadlessResult) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', kill);
+                resolve(value);
+            };
+
+            const handleLine = (line: string) => {
+                for (const event of parseStreamLine(line, reply)) {
+                    if (event.kind === 'result') {
+                        result = { text: event.text, isError: event.isError, costUsd: event.costUsd };
+                    } else if (event.kind === 'text') {
+                        lastText = event.text;
                     }
-                    resolve({
-                        available: true,
-                        resolvedBinary,
-                        version: parseVersion(stdout),
-                        account,
-                    });
+                    onEvent?.(event);
+                }
+            };
+
+            child.stdout.setEncoding('utf8');
+            child.stdout.on('data', (chunk: string) => {
+                pending += chunk;
+                const lines = pending.split('\n');
+                pending = lines.pop() ?? '';
+                lines.forEach(handleLine);
+            });
+
+            child.stderr.setEncoding('utf8');
+            child.stderr.on('data', (chunk: string) => {
+                stderr = (stderr + chunk).slice(-MAX_STDERR_CHARS);
+            });
+
+            child.on('error', (error) => finish({ text: error.message, isError: true }));
+            child.on('close', (code) => {
+                if (pending) handleLine(pending);
+                if (signal?.aborted) {
+                    finish({ text: 'Cancelled', isError: true });
+                } else if (result) {
+                    finish(result);
+                } else {
+                    // The text says why, for callers that show it.
+                    finish({ text: stderr.trim() || lastText || `Exited with code ${code}`, isError: true });
                 }
-            );
+            });
         });
     }
+}
 
-    public getSessionDisplayName(config: HarnessConfig, sessionId: string): string | null {
-        return getDisplayName(sessionId, resolveConfigDir(config));
+const READ_ONLY_TOOLS = ['Read', 'Glob', 'Grep', 'LS'];
+const EDIT_TOOLS = [...READ_ONLY_TOOLS, 'Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+// Enough of a failing run's stderr to say why.
+const MAX_STDERR_CHARS = 16 * 1024;
+
+// Tool input fields worth showing as what a call is about, in order.
+const TOOL_DETAIL_FIELDS = ['file_path', 'path', 'pattern', 'command', 'url'];
+const MAX_TOOL_DETAIL_CHARS = 80;
+
+/** The lines of `--output-format stream-json` that Consola reads. */
+interface ClaudeStreamMessage {
+    type?: string;
+    /** A raw API streaming event, sent with `--include-partial-messages`. */
+    event?: {
+        type?: string;
+        content_block?: { type?: string };
+        delta?: { type?: string; text?: string };
+    };
+    message?: {
+        content?: Array<{ type?: string; text?: string; name?: string; input?: Record<string, unknown> }>;
+    };
+    result?: string;
+    is_error?: boolean;
+    total_cost_usd?: number;
+}
+
+/**
+ * argv granting a headless run its tools. `-p` cannot stop to ask, so a tool
+ * left out is simply refused.
+ */
+function toolPolicyArgs(policy: HeadlessToolPolicy): string[] {
+    switch (policy) {
+        case 'none':
+            return ['--allowed-tools', ''];
+        case 'read-only':
+            return ['--allowed-tools', READ_ONLY_TOOLS.join(',')];
+        case 'edit':
+            return ['--allowed-tools', EDIT_TOOLS.join(',')];
+        case 'all':
+            return ['--dangerously-skip-permissions'];
     }
 }
 
-export interface HeadlessResult {
+function toolDetail(input: Record<string, unknown> | undefined): string | undefined {
+    const value = TOOL_DETAIL_FIELDS.map((field) => input?.[field]).find((v) => typeof v === 'string');
+    if (typeof value !== 'string') return undefined;
+    const line = value.split('\n')[0];
+    return line.length > MAX_TOOL_DETAIL_CHARS ? `${line.slice(0, MAX_TOOL_DETAIL_CHARS - 1)}…` : line;
+}
+
+/** The text block being streamed, built up from its deltas. */
+interface ReplyInProgress {
     text: string;
-    isError: boolean;
 }
 
 /**
- * Run a one-shot prompt through `claude -p` and return its text.
- *
- * Used for side tasks like commit messages. Tools are disabled: these prompts
- * only transform text handed to them and must not touch the repository.
+ * End a headless run along with every process it started. `claude` runs in
+ * its own process group, so a Bash tool or test runner it spawned is not left
+ * behind; Windows has no groups, and `taskkill /T` walks the tree instead.
+ */
+function killProcessTree(child: ChildProcess): void {
+    if (child.pid === undefined || child.exitCode !== null) return;
+    if (process.platform === 'win32') {
+        spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+        return;
+    }
+    try {
+        process.kill(-child.pid, 'SIGTERM');
+    } catch {
+        // The group is already gone.
+        child.kill();
+    }
+}
+
+/**
+ * The events one line of stream-json output carries; none for the rest.
  *
- * This is a workspace-level side task rather than part of a conversation, so
- * it runs against the ambient environment rather than any one harness.
+ * A text block is reported as it streams, each event carrying the block so
+ * far; the whole message that follows reports it once more, complete.
  */
-export async function runHeadless(
-    prompt: string,
-    options: { cwd: string; timeoutMs?: number } = { cwd: process.cwd() }
-): Promise<HeadlessResult> {
-    const driver = new ClaudeDriver();
-    const config: HarnessConfig = { extraArgs: [] };
-    const binary = driver.resolveBinary(config);
-    const args = ['-p', prompt, '--output-format', 'json', '--allowed-tools', ''];
-
-    return new Promise((resolve) => {
-        execFile(
-            binary,
-            args,
+function parseStreamLine(line: string, reply: ReplyInProgress): HeadlessEvent[] {
+    let message: ClaudeStreamMessage;
+    try {
+        message = JSON.parse(line) as ClaudeStreamMessage;
+    } catch {
+        return [];
+    }
+
+    if (message.type === 'stream_event') {
+        const event = message.event;
+        if (event?.type === 'content_block_start') {
+            reply.text = '';
+        } else if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            reply.text += event.delta.text ?? '';
+            if (reply.text.trim()) return [{ kind: 'text', text: reply.text.trim() }];
+        }
+        return [];
+    }
+
+    if (message.type === 'result') {
+        return [
             {
-                cwd: options.cwd,
-                env: driver.composeEnv(config, getLoginEnv()),
-                timeout: options.timeoutMs ?? HEADLESS_TIMEOUT_MS,
-                maxBuffer: 10 * 1024 * 1024,
+                kind: 'result',
+                text: (message.result ?? '').trim(),
+                isError: message.is_error === true,
+                costUsd: message.total_cost_usd,
             },
-            (error, stdout) => {
-                if (error) {
-                    resolve({ text: '', isError: true });
-                    return;
-                }
-                try {
-                    const parsed = JSON.parse(stdout) as { result?: string; is_error?: boolean };
-                    resolve({
-                        text: (parsed.result ?? '').trim(),
-                        isError: parsed.is_error === true,
-                    });
-                } catch {
-                    // Non-JSON output means something went wrong upstream.
-                    resolve({ text: '', isError: true });
-                }
-            }
-        );
+        ];
+    }
+    if (message.type !== 'assistant') return [];
+
+    return (message.message?.content ?? []).flatMap((block): HeadlessEvent[] => {
+        if (block.type === 'text' && block.text?.trim()) {
+            return [{ kind: 'text', text: block.text.trim() }];
+        }
+        if (block.type === 'tool_use' && block.name) {
+            return [{ kind: 'tool', name: block.name, detail: toolDetail(block.input) }];
+        }
+        return [];
     });
 }
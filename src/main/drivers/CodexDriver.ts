@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getLoginEnv } from '../LoginEnvironment';
+import { getClaimedConversationId, getDisplayName, recordLaunch } from '../CodexSessionIndex';
+import type { HarnessAccount, HarnessProbeResult } from '../../shared/types';
+import type { HarnessConfig, HarnessDriver } from './HarnessDriver';
+import { findBinary, probeBinary } from './binaries';
+
+/**
+ * Driver for OpenAI's `codex` CLI.
+ *
+ * Everything Codex-specific lives here: where the binary installs, the
+ * `resume` subcommand, the `CODEX_HOME` variable that redirects its profile,
+ * and the `auth.json` it keeps its login in.
+ */
+
+// Locations `codex` commonly installs to, checked when the PATH search fails.
+const FALLBACK_BINARY_PATHS = [
+    path.join(os.homedir(), '.local/bin/codex'),
+    path.join(os.homedir(), '.npm-global/bin/codex'),
+    '/opt/homebrew/bin/codex',
+    '/usr/local/bin/codex',
+];
+
+const BINARY_NAME = 'codex';
+
+// Cached for the same reason, and with the same limits, as ClaudeDriver's.
+let autoDetectedBinary: string | null = null;
+
+/** The `CODEX_HOME` this harness's CLI would use. */
+function resolveConfigDir(config: HarnessConfig): string {
+    return (
+        config.configDir || getLoginEnv().CODEX_HOME || path.join(os.homedir(), '.codex')
+    );
+}
+
+/**
+ * Claims from the ID token Codex stores after a ChatGPT sign-in.
+ *
+ * Only the payload is read, and never verified: this names the account for
+ * display, and nothing is authorised on the strength of it.
+ */
+function decodeIdToken(token: string): Record<string, unknown> | undefined {
+    const payload = token.split('.')[1];
+    if (!payload) return undefined;
+    try {
+        return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Who `auth.json` says this profile is signed in as.
+ *
+ * A ChatGPT sign-in carries an ID token naming the account and its plan; an
+ * API-key login carries only the key, which identifies nobody, so it is
+ * reported by kind rather than left looking signed out.
+ */
+function readAccount(config: HarnessConfig): HarnessAccount | undefined {
+    try {
+        const raw = fs.readFileSync(path.join(resolveConfigDir(config), 'auth.json'), 'utf8');
+        const parsed = JSON.parse(raw) as {
+            OPENAI_API_KEY?: string | null;
+            tokens?: { id_token?: string } | null;
+        };
+
+        const idToken = parsed.tokens?.id_token;
+        const claims = idToken ? decodeIdToken(idToken) : undefined;
+        if (claims) {
+            const auth = claims['https://api.openai.com/auth'] as
+                | Record<string, unknown>
+                | undefined;
+            const pick = (value: unknown): string | undefined =>
+                typeof value === 'string' && value ? value : undefined;
+
+            return {
+                emailAddress: pick(claims.email),
+                displayName: pick(claims.name),
+                organizationType: pick(auth?.chatgpt_plan_type),
+            };
+        }
+
+        if (parsed.OPENAI_API_KEY) {
+            return { displayName: 'OpenAI API key' };
+        }
+        return undefined;
+    } catch {
+        // No auth file, unreadable, or mid-write: treat as signed out.
+        return undefined;
+    }
+}
+
+/** Trim `codex-cli 0.46.0` down to the version itself. */
+function parseVersion(stdout: string): string | undefined {
+    const tokens = stdout.trim().split(/\s+/).filter(Boolean);
+    return tokens[tokens.length - 1];
+}
+
+export class CodexDriver implements HarnessDriver {
+    public readonly id = 'codex' as const;
+    public readonly configDirEnvVar = 'CODEX_HOME';
+    /**
+     * Codex draws its composer as `›` followed by a dimmed suggestion. Screen
+     * text cannot tell dimmed from typed, so this matches the prompt glyph
+     * alone; queued prompts are pasted, which appends rather than replaces.
+     */
+    public readonly composerReadyPattern = /^\s*[›▌](\s|$)/;
+
+    /** Absolute path to `codex`, with the same pinning rules as ClaudeDriver. */
+    public resolveBinary(config: HarnessConfig): string {
+        if (config.binaryPath) return config.binaryPath;
+
+        if (autoDetectedBinary) return autoDetectedBinary;
+
+        const found = findBinary(BINARY_NAME, FALLBACK_BINARY_PATHS);
+        if (found) {
+            autoDetectedBinary = found;
+            return found;
+        }
+
+        return BINARY_NAME;
+    }
+
+    /**
+     * Build the argv for an interactive session.
+     *
+     * Codex assigns its own conversation IDs and has no flag for choosing one,
+     * so a fresh launch is recorded for `CodexSessionIndex` to match against
+     * the rollout it goes on to write, and a resume names that rollout's ID. A
+     * session whose rollout was never matched resumes the most recent
+     * conversation instead.
+     */
+    public buildSessionArgs(
+        config: HarnessConfig,
+        sessionId: string,
+        isResume: boolean,
+        cwd: string
+    ): string[] {
+        if (!isResume) {
+            recordLaunch(sessionId, cwd);
+            return [...config.extraArgs];
+        }
+        const conversationId = getClaimedConversationId(sessionId, resolveConfigDir(config));
+        const base = conversationId ? ['resume', conversationId] : ['resume', '--last'];
+        return [...base, ...config.extraArgs];
+    }
+
+    /** The ambient environment with this harness's `CODEX_HOME` applied. */
+    public composeEnv(config: HarnessConfig, baseEnv: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+        if (!config.configDir) return { ...baseEnv };
+        return { ...baseEnv, [this.configDirEnvVar]: config.configDir };
+    }
+
+    public async probeHealth(config: HarnessConfig): Promise<HarnessProbeResult> {
+        return probeBinary({
+            config,
+            resolvedBinary: this.resolveBinary(config),
+            binaryName: BINARY_NAME,
+            env: this.composeEnv(config, getLoginEnv()),
+            account: readAccount(config),
+            parseVersion,
+        });
+    }
+
+    public getSessionDisplayName(config: HarnessConfig, sessionId: string): string | null {
+        return getDisplayName(sessionId, resolveConfigDir(config));
+    }
+}
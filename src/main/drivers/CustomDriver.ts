@@ -0,0 +1,135 @@
+import { getLoginEnv } from '../LoginEnvironment';
+import type { HarnessProbeResult } from '../../shared/types';
+import type { HarnessConfig, HarnessDriver } from './HarnessDriver';
+import { findBinary, isExecutable, probeBinary } from './binaries';
+
+/**
+ * Driver for any terminal agent described entirely by its harness settings.
+ *
+ * Where the other drivers encode one CLI's grammar in code, this one reads it
+ * from the harness: the binary, an argv template, the variable that takes a
+ * config directory, and how to ask for a version. That is enough to run aider,
+ * opencode, or an in-house wrapper as a session with activity tracking and
+ * prompt queueing, without a release for each.
+ */
+
+/** Replaced with the session ID Consola assigned. */
+const SESSION_ID_PLACEHOLDER = '{sessionId}';
+/** Prefixes a token that is only passed when resuming. */
+const RESUME_ONLY_PREFIX = '{resume}';
+/** Prefixes a token that is only passed when starting a new conversation. */
+const NEW_ONLY_PREFIX = '{new}';
+
+/**
+ * Expand a harness's argv template for one launch.
+ *
+ * Tokens are expanded one by one so a template survives as the argv the user
+ * wrote: `{resume}--continue` becomes `--continue` on resume and disappears
+ * otherwise, and `--session={sessionId}` keeps its flag attached.
+ */
+export function expandSessionArgsTemplate(
+    template: string[],
+    sessionId: string,
+    isResume: boolean
+): string[] {
+    const args: string[] = [];
+    for (const token of template) {
+        let arg = token;
+        if (arg.startsWith(RESUME_ONLY_PREFIX)) {
+            if (!isResume) continue;
+            arg = arg.slice(RESUME_ONLY_PREFIX.length);
+        } else if (arg.startsWith(NEW_ONLY_PREFIX)) {
+            if (isResume) continue;
+            arg = arg.slice(NEW_ONLY_PREFIX.length);
+        }
+        arg = arg.split(SESSION_ID_PLACEHOLDER).join(sessionId);
+        if (arg) args.push(arg);
+    }
+    return args;
+}
+
+/** A binary given by name alone is looked up on PATH; a path is used as-is. */
+function isBareName(binary: string): boolean {
+    return !binary.includes('/') && !binary.includes('\\');
+}
+
+export class CustomDriver implements HarnessDriver {
+    public readonly id = 'custom' as const;
+    /**
+     * Unused: each custom harness names its own variable, carried in
+     * `HarnessConfig.configDirEnvVar`.
+     */
+    public readonly configDirEnvVar = '';
+    /** The bare `>`, `❯` or `›` prompt most terminal agents idle at. */
+    public readonly composerReadyPattern = /^\s*[❯>›]\s*$/;
+
+    /**
+     * The configured binary, searched for on PATH when given by name.
+     *
+     * Not cached: unlike the built-in drivers there is no single binary to
+     * remember, and a lookup per launch is cheap next to the spawn itself.
+     */
+    public resolveBinary(config: HarnessConfig): string {
+        const binary = config.binaryPath ?? '';
+        if (!binary || !isBareName(binary)) return binary;
+        return findBinary(binary, []) ?? binary;
+    }
+
+    public buildSessionArgs(
+        config: HarnessConfig,
+        sessionId: string,
+        isResume: boolean
+    ): string[] {
+        const base = expandSessionArgsTemplate(
+            config.sessionArgsTemplate ?? [],
+            sessionId,
+            isResume
+        );
+        return [...base, ...config.extraArgs];
+    }
+
+    public composeEnv(config: HarnessConfig, baseEnv: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+        if (!config.configDir || !config.configDirEnvVar) return { ...baseEnv };
+        return { ...baseEnv, [config.configDirEnvVar]: config.configDir };
+    }
+
+    /**
+     * Whether the binary exists, and its version when the harness says how to
+     * ask. Custom agents have no account file Consola knows how to read.
+     */
+    public async probeHealth(config: HarnessConfig): Promise<HarnessProbeResult> {
+        const configured = config.binaryPath ?? '';
+        const resolvedBinary = this.resolveBinary(config);
+
+        if (!configured) {
+            return {
+                available: false,
+                resolvedBinary,
+                error: 'No binary configured — set one in this harness.',
+            };
+        }
+
+        if (!config.versionArgs) {
+            const found = isBareName(resolvedBinary) ? false : isExecutable(resolvedBinary);
+            return found
+                ? { available: true, resolvedBinary }
+                : {
+                      available: false,
+                      resolvedBinary,
+                      error: isBareName(configured)
+                          ? `Not found — \`${configured}\` is not installed or not on PATH.`
+                          : `Not executable: ${configured}`,
+                  };
+        }
+
+        return probeBinary({
+            // A bare name is a PATH lookup, not a pinned path to check.
+            config: isBareName(configured) ? { ...config, binaryPath: undefined } : config,
+            resolvedBinary,
+            binaryName: configured,
+            env: this.composeEnv(config, getLoginEnv()),
+            account: undefined,
+            versionArgs: config.versionArgs,
+        });
+    }
+}
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getLoginEnv } from '../LoginEnvironment';
+import { getClaimedChatId, getDisplayName, recordLaunch } from '../GeminiChatIndex';
+import type { HarnessAccount, HarnessProbeResult } from '../../shared/types';
+import type { HarnessConfig, HarnessDriver } from './HarnessDriver';
+import { findBinary, probeBinary } from './binaries';
+
+/**
+ * Driver for Google's `gemini` CLI.
+ *
+ * Everything Gemini-specific lives here: where the binary installs, the
+ * `--resume` grammar, the `GEMINI_CLI_HOME` variable that relocates its
+ * profile, and the files it records the signed-in account in.
+ */
+
+// Locations `gemini` commonly installs to, checked when the PATH search fails.
+const FALLBACK_BINARY_PATHS = [
+    path.join(os.homedir(), '.local/bin/gemini'),
+    path.join(os.homedir(), '.npm-global/bin/gemini'),
+    '/opt/homebrew/bin/gemini',
+    '/usr/local/bin/gemini',
+];
+
+const BINARY_NAME = 'gemini';
+
+// Cached for the same reason, and with the same limits, as ClaudeDriver's.
+let autoDetectedBinary: string | null = null;
+
+/**
+ * The `.gemini` profile directory this harness's CLI would use.
+ *
+ * `GEMINI_CLI_HOME` stands in for the home directory rather than naming the
+ * profile itself, so the profile is always its `.gemini` subdirectory.
+ */
+function resolveProfileDir(config: HarnessConfig): string {
+    const home = config.configDir || getLoginEnv().GEMINI_CLI_HOME || os.homedir();
+    return path.join(home, '.gemini');
+}
+
+/**
+ * Who this profile is signed in as.
+ *
+ * A Google sign-in leaves the active account in `google_accounts.json`. An
+ * API-key setup leaves nothing on disk, so the key in the environment is
+ * reported by kind rather than left looking signed out.
+ */
+function readAccount(config: HarnessConfig): HarnessAccount | undefined {
+    try {
+        const raw = fs.readFileSync(
+            path.join(resolveProfileDir(config), 'google_accounts.json'),
+            'utf8'
+        );
+        const parsed = JSON.parse(raw) as { active?: unknown };
+        if (typeof parsed.active === 'string' && parsed.active) {
+            return { emailAddress: parsed.active };
+        }
+    } catch {
+        // No accounts file, unreadable, or mid-write: fall through.
+    }
+
+    const env = getLoginEnv();
+    if (env.GEMINI_API_KEY || env.GOOGLE_API_KEY) {
+        return { displayName: 'Gemini API key' };
+    }
+    return undefined;
+}
+
+export class GeminiDriver implements HarnessDriver {
+    public readonly id = 'gemini' as const;
+    public readonly configDirEnvVar = 'GEMINI_CLI_HOME';
+    /**
+     * Gemini shows a placeholder inside its input box only while the box is
+     * empty, which makes the placeholder itself the readiness signal.
+     */
+    public readonly composerReadyPattern = /^\s*│?\s*>\s+Type your message/;
+
+    /** Absolute path to `gemini`, with the same pinning rules as ClaudeDriver. */
+    public resolveBinary(config: HarnessConfig): string {
+        if (config.binaryPath) return config.binaryPath;
+
+        if (autoDetectedBinary) return autoDetectedBinary;
+
+        const found = findBinary(BINARY_NAME, FALLBACK_BINARY_PATHS);
+        if (found) {
+            autoDetectedBinary = found;
+            return found;
+        }
+
+        return BINARY_NAME;
+    }
+
+    /**
+     * Build the argv for an interactive session.
+     *
+     * Gemini picks its own conversation IDs, so a fresh launch is recorded for
+     * `GeminiChatIndex` to match against the chat it goes on to write, and a
+     * resume names that chat's ID. A session whose chat was never matched —
+     * one that never got as far as a first message — resumes the folder's
+     * latest chat instead.
+     */
+    public buildSessionArgs(
+        config: HarnessConfig,
+        sessionId: string,
+        isResume: boolean,
+        cwd: string
+    ): string[] {
+        if (!isResume) recordLaunch(sessionId, cwd);
+        const chatId = isResume ? getClaimedChatId(sessionId, resolveProfileDir(config)) : null;
+        const base = isResume ? ['--resume', chatId ?? 'latest'] : [];
+        return [...base, ...config.extraArgs];
+    }
+
+    /** The ambient environment with this harness's `GEMINI_CLI_HOME` applied. */
+    public composeEnv(config: HarnessConfig, baseEnv: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+        if (!config.configDir) return { ...baseEnv };
+        return { ...baseEnv, [this.configDirEnvVar]: config.configDir };
+    }
+
+    public async probeHealth(config: HarnessConfig): Promise<HarnessProbeResult> {
+        return probeBinary({
+            config,
+            resolvedBinary: this.resolveBinary(config),
+            binaryName: BINARY_NAME,
+            env: this.composeEnv(config, getLoginEnv()),
+            account: readAccount(config),
+        });
+    }
+
+    public getSessionDisplayName(config: HarnessConfig, sessionId: string): string | null {
+        return getDisplayName(sessionId, resolveProfileDir(config));
+    }
+}
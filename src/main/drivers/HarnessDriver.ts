@@ -1,9 +1,17 @@
 import * as os from 'os';
 import * as path from 'path';
 import type {
+    ContextStatus,
     HarnessDriverId,
     HarnessLaunchFields,
     HarnessProbeResult,
+    HeadlessEvent,
+    HeadlessToolPolicy,
+    ImportableSession,
+    SessionHookEvent,
+    TokenUsage,
+    TranscriptSearchHit,
+    TranscriptTurn,
 } from '../../shared/types';
 
 /**
@@ -27,15 +35,49 @@ export interface HarnessDriver {
      */
     readonly configDirEnvVar: string;
 
+    /**
+     * A screen line showing an empty prompt composer: the CLI is booted, idle,
+     * and waiting for typing.
+     *
+     * Queued prompts wait for this positive signal — rather than merely for
+     * output to stop — which keeps them out of the startup repaint and out of
+     * any menu. It must match only an *empty* composer, so a queued prompt can
+     * never clobber text the user has already begun typing.
+     */
+    readonly composerReadyPattern: RegExp;
+
     /** Absolute path to the binary, or a bare name to let the spawn fail loudly. */
     resolveBinary(config: HarnessConfig): string;
 
-    /** argv for an interactive session, including the harness's extra args. */
-    buildSessionArgs(config: HarnessConfig, sessionId: string, isResume: boolean): string[];
+    /**
+     * argv for an interactive session, including the harness's extra args.
+     * `cwd` is the folder the session runs in.
+     */
+    buildSessionArgs(
+        config: HarnessConfig,
+        sessionId: string,
+        isResume: boolean,
+        cwd: string
+    ): string[];
 
     /** The ambient environment plus this harness's own variables. */
     composeEnv(config: HarnessConfig, baseEnv: NodeJS.ProcessEnv): NodeJS.ProcessEnv;
 
+    /**
+     * argv that makes the CLI run `command` on each lifecycle hook, feeding it
+     * the hook's JSON on stdin.
+     *
+     * Optional: a CLI without hooks omits it and `parseHookEvent`, and its
+     * activity is read off its output instead.
+     */
+    buildHookArgs?(command: string): string[];
+
+    /**
+     * The event a hook payload describes, or null for hooks Consola does not
+     * follow. Implemented exactly when `buildHookArgs` is.
+     */
+    parseHookEvent?(payload: unknown): SessionHookEvent | null;
+
     /** Whether the binary is present and who it is authenticated as. */
     probeHealth(config: HarnessConfig): Promise<HarnessProbeResult>;
 
@@ -47,6 +89,84 @@ export interface HarnessDriver {
      * check for its absence rather than polling an answer that never comes.
      */
     getSessionDisplayName?(config: HarnessConfig, sessionId: string): string | null;
+
+    /**
+     * A session's whole conversation, parsed from this CLI's transcript.
+     *
+     * Optional on the same terms as `getSessionDisplayName`. Null means the
+     * transcript has not been written yet.
+     */
+    readTranscript?(config: HarnessConfig, sessionId: string): TranscriptTurn[] | null;
+
+    /**
+     * Turns of any conversation in this harness's profile containing the
+     * query. Implemented exactly when `readTranscript` is.
+     */
+    searchTranscripts?(config: HarnessConfig, query: string): Promise<TranscriptSearchHit[]>;
+
+    /**
+     * Conversations this harness's profile holds that were started in the
+     * project directory itself, newest first. Implemented exactly when
+     * `readTranscript` is.
+     */
+    listProjectSessions?(config: HarnessConfig, projectPath: string): ImportableSession[];
+
+    /**
+     * Start a new conversation under `newSessionId` holding a copy of an
+     * existing one, through `throughTurnId` when given or whole otherwise.
+     * The original is left untouched. Implemented exactly when
+     * `readTranscript` is.
+     */
+    forkSession?(
+        config: HarnessConfig,
+        sessionId: string,
+        newSessionId: string,
+        throughTurnId?: string
+    ): void;
+
+    /**
+     * Tokens a session has used so far, or null when it has no transcript yet.
+     * Implemented exactly when `readTranscript` is.
+     */
+    readUsage?(config: HarnessConfig, sessionId: string): TokenUsage | null;
+
+    /**
+     * Follow how full a session's context window is. `onUpdate` fires when it
+     * changes; the returned functions read the latest status and stop.
+     */
+    watchContext?(
+        config: HarnessConfig,
+        sessionId: string,
+        onUpdate: (status: ContextStatus) => void
+    ): { getStatus(): ContextStatus | null; stop(): void };
+
+    /**
+     * Run one prompt to completion without a terminal, for side tasks like
+     * commit messages and batch runs.
+     *
+     * Optional: a CLI with no one-shot mode omits it, and the side tasks a
+     * workspace would hand it fall back to the built-in harness. Never rejects;
+     * failures resolve with `isError` and a text saying why.
+     */
+    runHeadless?(config: HarnessConfig, prompt: string, options: HeadlessOptions): Promise<HeadlessResult>;
+}
+
+export interface HeadlessResult {
+    text: string;
+    isError: boolean;
+    /** What the run cost, when the CLI reports it. */
+    costUsd?: number;
+}
+
+export interface HeadlessOptions {
+    cwd: string;
+    timeoutMs?: number;
+    /** Defaults to no tools at all. */
+    toolPolicy?: HeadlessToolPolicy;
+    /** Aborting kills the process; the run resolves as an error. */
+    signal?: AbortSignal;
+    /** Called as the run streams text, tool calls and its result. */
+    onEvent?: (event: HeadlessEvent) => void;
 }
 
 /** A harness's launch settings, normalised for driver consumption. */
@@ -56,6 +176,12 @@ export interface HarnessConfig {
     /** Config directory for this driver's `configDirEnvVar`, when set. */
     configDir?: string;
     extraArgs: string[];
+    /** Custom driver: argv template, see `HarnessLaunchFields`. */
+    sessionArgsTemplate?: string[];
+    /** Custom driver: variable the config directory is passed in. */
+    configDirEnvVar?: string;
+    /** Custom driver: version-probe arguments; absent skips the probe. */
+    versionArgs?: string[];
 }
 
 /**
@@ -89,9 +215,13 @@ function expandHome(target: string): string {
 export function toHarnessConfig(fields: HarnessLaunchFields | undefined): HarnessConfig {
     const binaryPath = fields?.binaryOverride?.trim() || undefined;
     const configDir = fields?.configDirOverride?.trim() || undefined;
+    const versionArgs = fields?.versionArgs?.length ? fields.versionArgs : undefined;
     return {
         binaryPath: binaryPath && expandHome(binaryPath),
         configDir: configDir && expandHome(configDir),
         extraArgs: fields?.extraArgs ?? [],
+        sessionArgsTemplate: fields?.sessionArgsTemplate,
+        configDirEnvVar: fields?.configDirEnvVar?.trim() || undefined,
+        versionArgs,
     };
 }
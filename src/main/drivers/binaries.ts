@@ -0,0 +1,122 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLoginEnv } from '../LoginEnvironment';
+import type { HarnessAccount, HarnessProbeResult } from '../../shared/types';
+import type { HarnessConfig } from './HarnessDriver';
+
+/**
+ * Locating and probing an agent CLI's binary.
+ *
+ * Every driver answers the same two questions the same way — is the binary on
+ * the login PATH or in one of its usual install locations, and does it answer
+ * `--version` — so the mechanics live here and each driver supplies only its
+ * names and paths.
+ */
+
+const VERSION_TIMEOUT_MS = 10000;
+
+export function isExecutable(candidate: string): boolean {
+    try {
+        fs.accessSync(candidate, fs.constants.X_OK);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Search the login PATH, then the CLI's usual install locations.
+ *
+ * Returns null rather than a guess, so the caller decides whether a miss is
+ * cached — it never should be, or installing the CLI would need a restart to
+ * take effect.
+ */
+export function findBinary(binaryName: string, fallbackPaths: string[]): string | null {
+    const searchPath = getLoginEnv().PATH ?? '';
+    for (const dir of searchPath.split(path.delimiter)) {
+        if (!dir) continue;
+        const candidate = path.join(dir, binaryName);
+        if (isExecutable(candidate)) return candidate;
+    }
+
+    for (const candidate of fallbackPaths) {
+        if (isExecutable(candidate)) return candidate;
+    }
+
+    return null;
+}
+
+/** The first whitespace-separated token of `--version` output. */
+export function firstVersionToken(stdout: string): string | undefined {
+    const trimmed = stdout.trim();
+    if (!trimmed) return undefined;
+    return trimmed.split(/\s+/)[0];
+}
+
+export interface BinaryProbe {
+    config: HarnessConfig;
+    /** What the driver resolved the binary to. */
+    resolvedBinary: string;
+    /** The bare name resolution falls back to when nothing is found. */
+    binaryName: string;
+    env: NodeJS.ProcessEnv;
+    account: HarnessAccount | undefined;
+    /** Arguments that make the CLI print its version and exit. */
+    versionArgs?: string[];
+    parseVersion?: (stdout: string) => string | undefined;
+}
+
+/**
+ * Run the binary's version command and report what it said.
+ *
+ * A pinned binary is checked for executability first rather than inferred from
+ * resolution, which returns a pinned path unchanged so a bad one fails loudly
+ * instead of quietly running a different install.
+ */
+export function probeBinary({
+    config,
+    resolvedBinary,
+    binaryName,
+    env,
+    account,
+    versionArgs = ['--version'],
+    parseVersion = firstVersionToken,
+}: BinaryProbe): Promise<HarnessProbeResult> {
+    if (config.binaryPath && !isExecutable(config.binaryPath)) {
+        return Promise.resolve({
+            available: false,
+            resolvedBinary,
+            account,
+            error: `Not executable: ${config.binaryPath}`,
+        });
+    }
+
+    return new Promise((resolve) => {
+        execFile(
+            resolvedBinary,
+            versionArgs,
+            { env, timeout: VERSION_TIMEOUT_MS },
+            (error, stdout) => {
+                if (error) {
+                    resolve({
+                        available: false,
+                        resolvedBinary,
+                        account,
+                        error:
+                            resolvedBinary === binaryName
+                                ? `Not found — \`${binaryName}\` is not installed or not on PATH.`
+                                : error.message,
+                    });
+                    return;
+                }
+                resolve({
+                    available: true,
+                    resolvedBinary,
+                    version: parseVersion(stdout),
+                    account,
+                });
+            }
+        );
+    });
+}
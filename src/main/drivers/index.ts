@@ -1,6 +1,9 @@
 import type { HarnessDriverId } from '../../shared/types';
 import type { HarnessDriver } from './HarnessDriver';
 import { ClaudeDriver } from './ClaudeDriver';
+import { CodexDriver } from './CodexDriver';
+import { CustomDriver } from './CustomDriver';
+import { GeminiDriver } from './GeminiDriver';
 
 /**
  * The agent CLIs Consola can drive.
@@ -10,6 +13,9 @@ import { ClaudeDriver } from './ClaudeDriver';
  */
 const DRIVERS: Record<HarnessDriverId, HarnessDriver> = {
     claude: new ClaudeDriver(),
+    codex: new CodexDriver(),
+    gemini: new GeminiDriver(),
+    custom: new CustomDriver(),
 };
 
 export const DEFAULT_DRIVER_ID: HarnessDriverId = 'claude';
@@ -32,5 +38,5 @@ export function getDriver(id?: HarnessDriverId): HarnessDriver {
     return driver;
 }
 
-export type { HarnessDriver, HarnessConfig } from './HarnessDriver';
+export type { HarnessDriver, HarnessConfig, HeadlessOptions, HeadlessResult } from './HarnessDriver';
 export { toHarnessConfig } from './HarnessDriver';
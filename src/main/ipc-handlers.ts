@@ -1,25 +1,130 @@
-import { ipcMain, BrowserWindow, dialog } from 'electron';
+import { app, ipcMain, BrowserWindow, dialog, Notification, type WebContents } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
 import { exec } from 'child_process';
 import { TerminalManager } from './TerminalManager';
-import { runHeadless } from './drivers/ClaudeDriver';
+import { HookServer } from './HookServer';
+import { Scheduler } from './Scheduler';
+import { BatchRunner } from './BatchRunner';
+import { createWorktree, mergeWorktree, removeWorktree } from './GitWorktrees';
+import { createBranch, deleteBranch, listBranches, renameBranch, switchBranch } from './GitBranches';
+import { applyHunkSelection, parseDiffHunks, type GitHunkSelection, type GitLineAction } from './GitHunks';
+import { discardFile, discardHunks, restoreSnapshot } from './GitDiscard';
+import { getCommitFileDiff, listCommitFiles, listCommits } from './GitHistory';
 import { getDriver, toHarnessConfig } from './drivers';
-import { TerminalCreateOptions, HarnessLaunchFields } from '../shared/types';
+import { initConversationClaims } from './ConversationClaims';
+import {
+    AppNotification,
+    BatchRunRequest,
+    ConfirmationChoice,
+    ContextStatus,
+    ContextUpdateMessage,
+    HeadlessEvent,
+    HeadlessProgressMessage,
+    TerminalCreateOptions,
+    HarnessLaunchFields,
+    ScheduledPromptSpec,
+    TokenUsage,
+    TranscriptSearchHit,
+} from '../shared/types';
 import { IPC_CHANNELS } from '../shared/constants';
 
 // One terminal per session tab, kept alive while the session is open
 let terminalManager: TerminalManager | null = null;
 
+// Where agents' hooks report, shared by every terminal
+let hookServer: HookServer | null = null;
+
+// Fires scheduled prompts into the terminals above
+let scheduler: Scheduler | null = null;
+
+// Headless runs of one prompt across workspaces
+let batchRunner: BatchRunner | null = null;
+
+// Followed context windows, keyed by session ID. Each counts how often every
+// renderer, by its webContents ID, follows it: a session can be on screen in
+// more than one place and each stops following on its own, and a renderer that
+// reloads or crashes never says it stopped, so its count is dropped wholesale.
+const contextWatches = new Map<
+    string,
+    { watchers: Map<number, number>; watch: { getStatus(): ContextStatus | null; stop(): void } }
+>();
+
+// Renderers whose reload, crash or close already drops their context watches.
+const contextWatchSenders = new Set<number>();
+
+/**
+ * Stop following a context window for one renderer, once or for every time it
+ * asked. The watch itself stops once no renderer follows it.
+ */
+function releaseContextWatch(sessionId: string, senderId: number, all = false): void {
+    const entry = contextWatches.get(sessionId);
+    const count = entry?.watchers.get(senderId);
+    if (!entry || count === undefined) return;
+    if (all || count <= 1) entry.watchers.delete(senderId);
+    else entry.watchers.set(senderId, count - 1);
+    if (entry.watchers.size > 0) return;
+    entry.watch.stop();
+    contextWatches.delete(sessionId);
+}
+
+/** Drop a renderer's context watches when it reloads, crashes or closes. */
+function releaseContextWatchesOnExit(sender: WebContents): void {
+    const senderId = sender.id;
+    if (contextWatchSenders.has(senderId)) return;
+    contextWatchSenders.add(senderId);
+
+    const releaseAll = () => {
+        for (const sessionId of [...contextWatches.keys()]) {
+            releaseContextWatch(sessionId, senderId, true);
+        }
+    };
+    sender.on('did-navigate', releaseAll);
+    sender.on('render-process-gone', releaseAll);
+    sender.once('destroyed', () => {
+        releaseAll();
+        contextWatchSenders.delete(senderId);
+    });
+}
+
+// Notifications on screen, keyed by tag. Held so they are not garbage
+// collected, which would silently drop their click handlers.
+const notifications = new Map<string, Notification>();
+
+// Headless side tasks the renderer can follow and cancel, keyed by the task ID
+// it started them under.
+const headlessTasks = new Map<string, AbortController>();
+
+// More results than anyone reads; the search box narrows from there.
+const MAX_TRANSCRIPT_SEARCH_HITS = 200;
+
 export function setupIpcHandlers(mainWindow: BrowserWindow): void {
-    terminalManager = new TerminalManager(mainWindow);
+    initConversationClaims(app.getPath('userData'));
+    if (!hookServer) {
+        hookServer = new HookServer(app.getPath('userData'));
+        hookServer.start();
+    }
+    terminalManager = new TerminalManager(mainWindow, hookServer);
     const manager = terminalManager;
+    scheduler = new Scheduler(manager, (message) => {
+        if (!mainWindow.isDestroyed()) {
+            mainWindow.webContents.send(IPC_CHANNELS.SCHEDULE_FIRED, message);
+        }
+    });
+    const activeScheduler = scheduler;
+    batchRunner = new BatchRunner((message) => {
+        if (!mainWindow.isDestroyed()) {
+            mainWindow.webContents.send(IPC_CHANNELS.BATCH_UPDATE, message);
+        }
+    });
+    const activeBatchRunner = batchRunner;
 
     // Start or attach to a session's terminal. Returns buffered output so a
     // remounted view repaints without restarting the conversation.
     ipcMain.handle(IPC_CHANNELS.TERMINAL_CREATE, (_event, options: TerminalCreateOptions) => {
         const {
             instanceId,
+            kind,
             cwd,
             claudeSessionId,
             resume,
@@ -30,8 +135,12 @@ export function setupIpcHandlers(mainWindow: BrowserWindow): void {
             binaryOverride,
             configDirOverride,
             extraArgs,
+            sessionArgsTemplate,
+            configDirEnvVar,
+            versionArgs,
         } = options;
         return manager.ensure(instanceId, {
+            kind,
             cwd,
             claudeSessionId,
             // Resume whenever this tab has run before. Claude is the authority
@@ -47,6 +156,9 @@ export function setupIpcHandlers(mainWindow: BrowserWindow): void {
             binaryOverride,
             configDirOverride,
             extraArgs,
+            sessionArgsTemplate,
+            configDirEnvVar,
+            versionArgs,
         });
     });
 
@@ -70,6 +182,30 @@ export function setupIpcHandlers(mainWindow: BrowserWindow): void {
         manager.destroy(instanceId);
     });
 
+    // What a session's screen currently ends with, for previews outside its pane.
+    ipcMain.handle(IPC_CHANNELS.TERMINAL_SCREEN_TAIL, (_event, instanceId: string, lineCount: number) => {
+        return manager.get(instanceId)?.getScreenTail(lineCount) ?? [];
+    });
+
+    ipcMain.on(IPC_CHANNELS.TERMINAL_QUEUE_ADD, (_event, instanceId: string, text: string) => {
+        manager.get(instanceId)?.queuePrompt(text);
+    });
+
+    ipcMain.on(IPC_CHANNELS.TERMINAL_QUEUE_REMOVE, (_event, instanceId: string, id: string) => {
+        manager.get(instanceId)?.removeQueuedPrompt(id);
+    });
+
+    ipcMain.on(IPC_CHANNELS.TERMINAL_QUEUE_MOVE, (_event, instanceId: string, id: string, toIndex: number) => {
+        manager.get(instanceId)?.moveQueuedPrompt(id, toIndex);
+    });
+
+    ipcMain.handle(
+        IPC_CHANNELS.TERMINAL_ANSWER,
+        (_event, instanceId: string, menuId: number, choice: ConfirmationChoice) => {
+            return manager.get(instanceId)?.answerConfirmation(menuId, choice) ?? false;
+        }
+    );
+
     // === Harness queries ===
 
     // Is this harness's binary present, and who is it signed in as?
@@ -87,6 +223,188 @@ export function setupIpcHandlers(mainWindow: BrowserWindow): void {
         }
     );
 
+    // A session's whole conversation, for the transcript viewer. Null both
+    // before the transcript exists and for drivers that cannot read one.
+    ipcMain.handle(
+        IPC_CHANNELS.HARNESS_TRANSCRIPT,
+        (_event, sessionId: string, fields: HarnessLaunchFields) => {
+            const driver = getDriver(fields?.driverId);
+            return driver.readTranscript?.(toHarnessConfig(fields), sessionId) ?? null;
+        }
+    );
+
+    // Search every harness's transcripts at once. Two harnesses can share a
+    // profile, so the same turn is only reported once; the newest come first.
+    ipcMain.handle(
+        IPC_CHANNELS.HARNESS_SEARCH_TRANSCRIPTS,
+        async (_event, query: string, harnesses: HarnessLaunchFields[]) => {
+            const hits = new Map<string, TranscriptSearchHit>();
+            for (const fields of harnesses ?? []) {
+                const driver = getDriver(fields?.driverId);
+                const found = (await driver.searchTranscripts?.(toHarnessConfig(fields), query)) ?? [];
+                for (const hit of found) {
+                    hits.set(`${hit.sessionId}:${hit.turnId}`, hit);
+                }
+            }
+            return [...hits.values()]
+                .sort((a, b) => (b.timestamp ?? '').localeCompare(a.timestamp ?? ''))
+                .slice(0, MAX_TRANSCRIPT_SEARCH_HITS);
+        }
+    );
+
+    // Conversations a workspace could import. Drivers that cannot enumerate
+    // their conversations report none.
+    ipcMain.handle(
+        IPC_CHANNELS.HARNESS_LIST_SESSIONS,
+        (_event, projectPath: string, fields: HarnessLaunchFields) => {
+            const driver = getDriver(fields?.driverId);
+            return driver.listProjectSessions?.(toHarnessConfig(fields), projectPath) ?? [];
+        }
+    );
+
+    ipcMain.handle(
+        IPC_CHANNELS.HARNESS_FORK_SESSION,
+        (
+            _event,
+            sessionId: string,
+            newSessionId: string,
+            fields: HarnessLaunchFields,
+            throughTurnId?: string
+        ) => {
+            const driver = getDriver(fields?.driverId);
+            if (!driver.forkSession) {
+                throw new Error(`The ${driver.id} harness cannot fork conversations.`);
+            }
+            driver.forkSession(toHarnessConfig(fields), sessionId, newSessionId, throughTurnId);
+        }
+    );
+
+    // Usage of several sessions on one harness at once, so totals across a
+    // workspace cost one round trip. Sessions with no transcript are omitted.
+    ipcMain.handle(
+        IPC_CHANNELS.HARNESS_USAGE,
+        (_event, sessionIds: string[], fields: HarnessLaunchFields) => {
+            const driver = getDriver(fields?.driverId);
+            const config = toHarnessConfig(fields);
+            const usage: Record<string, TokenUsage> = {};
+            for (const sessionId of sessionIds) {
+                const result = driver.readUsage?.(config, sessionId);
+                if (result) usage[sessionId] = result;
+            }
+            return usage;
+        }
+    );
+
+    // Follow a session's context usage, pushing each change to the renderer.
+    // Drivers that cannot tell report nothing.
+    ipcMain.handle(
+        IPC_CHANNELS.HARNESS_WATCH_CONTEXT,
+        (event, sessionId: string, fields: HarnessLaunchFields) => {
+            const senderId = event.sender.id;
+            releaseContextWatchesOnExit(event.sender);
+            const existing = contextWatches.get(sessionId);
+            if (existing) {
+                existing.watchers.set(senderId, (existing.watchers.get(senderId) ?? 0) + 1);
+                return existing.watch.getStatus();
+            }
+
+            const driver = getDriver(fields?.driverId);
+            const watch = driver.watchContext?.(toHarnessConfig(fields), sessionId, (status) => {
+                if (!mainWindow.isDestroyed()) {
+                    const message: ContextUpdateMessage = { sessionId, status };
+                    mainWindow.webContents.send(IPC_CHANNELS.HARNESS_CONTEXT_UPDATE, message);
+                }
+            });
+            if (!watch) return null;
+            contextWatches.set(sessionId, { watchers: new Map([[senderId, 1]]), watch });
+            return watch.getStatus();
+        }
+    );
+
+    ipcMain.on(IPC_CHANNELS.HARNESS_UNWATCH_CONTEXT, (event, sessionId: string) => {
+        releaseContextWatch(sessionId, event.sender.id);
+    });
+
+    // Make a headless run started under `taskId` cancellable and report its
+    // progress. Without a task ID it runs as before, unobserved.
+    const trackHeadlessTask = (taskId: string | undefined) => {
+        if (!taskId) return { done: () => {} };
+        const controller = new AbortController();
+        headlessTasks.set(taskId, controller);
+        return {
+            signal: controller.signal,
+            onEvent: (event: HeadlessEvent) => {
+                if (!mainWindow.isDestroyed()) {
+                    const message: HeadlessProgressMessage = { taskId, event };
+                    mainWindow.webContents.send(IPC_CHANNELS.HARNESS_HEADLESS_PROGRESS, message);
+                }
+            },
+            done: () => headlessTasks.delete(taskId),
+        };
+    };
+
+    ipcMain.on(IPC_CHANNELS.HARNESS_CANCEL_HEADLESS, (_event, taskId: string) => {
+        headlessTasks.get(taskId)?.abort();
+    });
+
+    // The badge is a count on macOS and Linux launchers. Windows taskbar icons
+    // take no count, so there the button flashes until the window is focused.
+    ipcMain.on(IPC_CHANNELS.APP_SET_BADGE_COUNT, (_event, count: number) => {
+        if (process.platform === 'win32') {
+            if (!mainWindow.isDestroyed()) mainWindow.flashFrame(count > 0);
+            return;
+        }
+        app.setBadgeCount(count);
+    });
+
+    ipcMain.on(IPC_CHANNELS.APP_FOCUS_WINDOW, () => {
+        if (mainWindow.isDestroyed()) return;
+        if (mainWindow.isMinimized()) mainWindow.restore();
+        mainWindow.show();
+        mainWindow.focus();
+    });
+
+    ipcMain.on(IPC_CHANNELS.APP_NOTIFY, (_event, { tag, title, body, actions = [] }: AppNotification) => {
+        if (!Notification.isSupported()) return;
+
+        notifications.get(tag)?.close();
+        const notification = new Notification({
+            title,
+            body,
+            actions: actions.map((text) => ({ type: 'button' as const, text })),
+        });
+        const report = (actionIndex?: number) => {
+            if (!mainWindow.isDestroyed()) {
+                mainWindow.webContents.send(IPC_CHANNELS.APP_NOTIFICATION_EVENT, { tag, actionIndex });
+            }
+        };
+        notification.on('click', () => report());
+        notification.on('action', (_actionEvent, index) => report(index));
+        notification.on('close', () => {
+            if (notifications.get(tag) === notification) notifications.delete(tag);
+        });
+        notifications.set(tag, notification);
+        notification.show();
+    });
+
+    ipcMain.on(IPC_CHANNELS.SCHEDULE_SYNC, (_event, specs: ScheduledPromptSpec[]) => {
+        activeScheduler.sync(specs);
+    });
+
+    ipcMain.on(IPC_CHANNELS.BATCH_START, (_event, request: BatchRunRequest) => {
+        activeBatchRunner.start(request).catch((error) => {
+            console.error('Batch run failed:', error);
+            activeBatchRunner.fail(
+                request.batchId,
+                error instanceof Error ? error.message : String(error)
+            );
+        });
+    });
+
+    ipcMain.on(IPC_CHANNELS.BATCH_CANCEL, (_event, batchId: string) => {
+        activeBatchRunner.cancel(batchId);
+    });
+
     // Handle folder picker dialog (multi-select)
     ipcMain.handle(IPC_CHANNELS.DIALOG_SELECT_FOLDERS, async () => {
         const result = await dialog.showOpenDialog({
@@ -411,6 +729,25 @@ export function setupIpcHandlers(mainWindow: BrowserWindow): void {
         });
     });
 
+    // Discarding keeps a snapshot of what was thrown away, to undo from
+    const discardedDir = () => path.join(app.getPath('userData'), 'discarded');
+
+    // Stage, unstage or discard chosen hunks and lines of a file
+    ipcMain.handle(IPC_CHANNELS.GIT_APPLY_HUNKS, async (_event, { rootPath, filePath, action, selections }: { rootPath: string; filePath: string; action: GitLineAction; selections: GitHunkSelection[] }) => {
+        if (action === 'discard') {
+            return discardHunks(discardedDir(), rootPath, filePath, selections);
+        }
+        return applyHunkSelection(rootPath, filePath, action, selections);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_DISCARD_FILE, async (_event, { rootPath, filePath }: { rootPath: string; filePath: string }) => {
+        return discardFile(discardedDir(), rootPath, filePath);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_RESTORE_DISCARDED, async (_event, { snapshotId }: { snapshotId: string }) => {
+        return restoreSnapshot(discardedDir(), snapshotId);
+    });
+
     // Handle git commit
     ipcMain.handle(IPC_CHANNELS.GIT_COMMIT, async (_event, { rootPath, message }: { rootPath: string; message: string }) => {
         return new Promise((resolve) => {
@@ -426,6 +763,54 @@ export function setupIpcHandlers(mainWindow: BrowserWindow): void {
         });
     });
 
+    // Worktrees that isolate a session on its own branch
+    ipcMain.handle(IPC_CHANNELS.GIT_WORKTREE_CREATE, async (_event, { rootPath, branch }: { rootPath: string; branch: string }) => {
+        return createWorktree(path.join(app.getPath('userData'), 'worktrees'), rootPath, branch);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_WORKTREE_MERGE, async (_event, { rootPath, worktreePath, branch }: { rootPath: string; worktreePath: string; branch: string }) => {
+        return mergeWorktree(rootPath, worktreePath, branch);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_WORKTREE_REMOVE, async (_event, { rootPath, worktreePath, branch }: { rootPath: string; worktreePath: string; branch: string }) => {
+        return removeWorktree(rootPath, worktreePath, branch);
+    });
+
+    // Branches
+    ipcMain.handle(IPC_CHANNELS.GIT_LIST_BRANCHES, async (_event, { rootPath }: { rootPath: string }) => {
+        return listBranches(rootPath).catch(() => []);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_CREATE_BRANCH, async (_event, { rootPath, name }: { rootPath: string; name: string }) => {
+        return createBranch(rootPath, name);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_SWITCH_BRANCH, async (_event, { rootPath, name, isRemote }: { rootPath: string; name: string; isRemote: boolean }) => {
+        return switchBranch(rootPath, name, isRemote);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_RENAME_BRANCH, async (_event, { rootPath, name, newName }: { rootPath: string; name: string; newName: string }) => {
+        return renameBranch(rootPath, name, newName);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_DELETE_BRANCH, async (_event, { rootPath, name, force }: { rootPath: string; name: string; force: boolean }) => {
+        return deleteBranch(rootPath, name, force);
+    });
+
+    // History
+    ipcMain.handle(IPC_CHANNELS.GIT_LOG, async (_event, { rootPath, filePath, skip, limit }: { rootPath: string; filePath?: string; skip?: number; limit?: number }) => {
+        // A repository with no commits yet has no history to show
+        return listCommits(rootPath, { filePath, skip, limit }).catch(() => []);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_COMMIT_FILES, async (_event, { rootPath, hash }: { rootPath: string; hash: string }) => {
+        return listCommitFiles(rootPath, hash).catch(() => []);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GIT_COMMIT_DIFF, async (_event, { rootPath, hash, filePath, oldPath }: { rootPath: string; hash: string; filePath: string; oldPath?: string }) => {
+        return getCommitFileDiff(rootPath, hash, filePath, oldPath).catch(() => null);
+    });
+
     // Handle get staged diff (for AI commit message generation)
     ipcMain.handle(IPC_CHANNELS.GIT_GET_STAGED_DIFF, async (_event, { rootPath }: { rootPath: string }) => {
         return new Promise((resolve) => {
@@ -450,7 +835,7 @@ export function setupIpcHandlers(mainWindow: BrowserWindow): void {
     });
 
     // Handle commit message generation using Claude
-    ipcMain.handle(IPC_CHANNELS.GENERATE_COMMIT_MESSAGE, async (_event, { rootPath }: { rootPath: string }) => {
+    ipcMain.handle(IPC_CHANNELS.GENERATE_COMMIT_MESSAGE, async (_event, { rootPath, taskId, harness }: { rootPath: string; taskId?: string; harness?: HarnessLaunchFields }) => {
         // Get staged diff first
         const stagedResult = await new Promise<{ stagedFiles: string[]; diff: string }>((resolve) => {
             exec('git diff --cached --name-only', { cwd: rootPath }, (err, stagedFilesOutput) => {
@@ -494,99 +879,43 @@ ${truncatedDiff}`;
 
         // A one-shot headless CLI call: this only transforms the diff into text
         // and runs with tools disabled, so it never touches the repository.
-        const result = await runHeadless(prompt, { cwd: rootPath });
+        const driver = getDriver(harness?.driverId);
+        if (!driver.runHeadless) {
+            return { message: '', error: 'This harness cannot run side tasks' };
+        }
+        const task = trackHeadlessTask(taskId);
+        const result = await driver.runHeadless(toHarnessConfig(harness), prompt, {
+            cwd: rootPath,
+            signal: task.signal,
+            onEvent: task.onEvent,
+        });
+        task.done();
 
+        // Whoever cancelled already knows; there is nothing to report.
+        if (task.signal?.aborted) return { message: '' };
         if (result.isError || !result.text) {
             return { message: '', error: 'Could not generate a commit message' };
         }
         return { message: result.text };
     });
-
-    function parseDiffHunks(diffOutput: string): Array<{
-        oldStart: number;
-        oldLines: number;
-        newStart: number;
-        newLines: number;
-        lines: Array<{
-            type: 'context' | 'add' | 'remove';
-            content: string;
-            oldLineNumber?: number;
-            newLineNumber?: number;
-        }>;
-    }> {
-        const hunks: Array<{
-            oldStart: number;
-            oldLines: number;
-            newStart: number;
-            newLines: number;
-            lines: Array<{
-                type: 'context' | 'add' | 'remove';
-                content: string;
-                oldLineNumber?: number;
-                newLineNumber?: number;
-            }>;
-        }> = [];
-
-        const lines = diffOutput.split('\n');
-        let currentHunk: typeof hunks[0] | null = null;
-        let oldLine = 0;
-        let newLine = 0;
-
-        for (const line of lines) {
-            // Parse hunk header: @@ -oldStart,oldLines +newStart,newLines @@
-            const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
-            if (hunkMatch) {
-                if (currentHunk) {
-                    hunks.push(currentHunk);
-                }
-                currentHunk = {
-                    oldStart: parseInt(hunkMatch[1], 10),
-                    oldLines: parseInt(hunkMatch[2] || '1', 10),
-                    newStart: parseInt(hunkMatch[3], 10),
-                    newLines: parseInt(hunkMatch[4] || '1', 10),
-                    lines: []
-                };
-                oldLine = currentHunk.oldStart;
-                newLine = currentHunk.newStart;
-                continue;
-            }
-
-            if (!currentHunk) continue;
-
-            if (line.startsWith('+') && !line.startsWith('+++')) {
-                currentHunk.lines.push({
-                    type: 'add',
-                    content: line.slice(1),
-                    newLineNumber: newLine++
-                });
-            } else if (line.startsWith('-') && !line.startsWith('---')) {
-                currentHunk.lines.push({
-                    type: 'remove',
-                    content: line.slice(1),
-                    oldLineNumber: oldLine++
-                });
-            } else if (line.startsWith(' ')) {
-                currentHunk.lines.push({
-                    type: 'context',
-                    content: line.slice(1),
-                    oldLineNumber: oldLine++,
-                    newLineNumber: newLine++
-                });
-            }
-        }
-
-        if (currentHunk) {
-            hunks.push(currentHunk);
-        }
-
-        return hunks;
-    }
 }
 
 export function cleanupIpcHandlers(): void {
+    // Stop scheduled prompts before the terminals they would start, and
+    // headless runs still going
+    scheduler?.stop();
+    scheduler = null;
+    ipcMain.removeAllListeners(IPC_CHANNELS.SCHEDULE_SYNC);
+    batchRunner?.cancelAll();
+    batchRunner = null;
+    ipcMain.removeAllListeners(IPC_CHANNELS.BATCH_START);
+    ipcMain.removeAllListeners(IPC_CHANNELS.BATCH_CANCEL);
+
     // Clean up all terminal services
     terminalManager?.destroyAll();
     terminalManager = null;
+    hookServer?.stop();
+    hookServer = null;
 
     // Remove terminal IPC listeners
     ipcMain.removeAllListeners(IPC_CHANNELS.TERMINAL_INPUT);
@@ -594,11 +923,39 @@ export function cleanupIpcHandlers(): void {
     ipcMain.removeAllListeners(IPC_CHANNELS.TERMINAL_RESIZE);
     ipcMain.removeAllListeners(IPC_CHANNELS.TERMINAL_RESTART);
     ipcMain.removeAllListeners(IPC_CHANNELS.TERMINAL_DESTROY);
+    ipcMain.removeAllListeners(IPC_CHANNELS.TERMINAL_QUEUE_ADD);
+    ipcMain.removeAllListeners(IPC_CHANNELS.TERMINAL_QUEUE_REMOVE);
+    ipcMain.removeAllListeners(IPC_CHANNELS.TERMINAL_QUEUE_MOVE);
     ipcMain.removeHandler(IPC_CHANNELS.TERMINAL_CREATE);
+    ipcMain.removeHandler(IPC_CHANNELS.TERMINAL_SCREEN_TAIL);
+    ipcMain.removeHandler(IPC_CHANNELS.TERMINAL_ANSWER);
 
     // Remove Claude CLI query handlers
     ipcMain.removeHandler(IPC_CHANNELS.HARNESS_PROBE);
     ipcMain.removeHandler(IPC_CHANNELS.HARNESS_SESSION_NAME);
+    ipcMain.removeHandler(IPC_CHANNELS.HARNESS_TRANSCRIPT);
+    ipcMain.removeHandler(IPC_CHANNELS.HARNESS_SEARCH_TRANSCRIPTS);
+    ipcMain.removeHandler(IPC_CHANNELS.HARNESS_LIST_SESSIONS);
+    ipcMain.removeHandler(IPC_CHANNELS.HARNESS_FORK_SESSION);
+    ipcMain.removeHandler(IPC_CHANNELS.HARNESS_USAGE);
+    ipcMain.removeHandler(IPC_CHANNELS.HARNESS_WATCH_CONTEXT);
+    ipcMain.removeAllListeners(IPC_CHANNELS.HARNESS_UNWATCH_CONTEXT);
+    ipcMain.removeAllListeners(IPC_CHANNELS.HARNESS_CANCEL_HEADLESS);
+    for (const controller of headlessTasks.values()) {
+        controller.abort();
+    }
+    headlessTasks.clear();
+    for (const entry of contextWatches.values()) {
+        entry.watch.stop();
+    }
+    contextWatches.clear();
+
+    // Remove app shell listeners
+    ipcMain.removeAllListeners(IPC_CHANNELS.APP_SET_BADGE_COUNT);
+    ipcMain.removeAllListeners(IPC_CHANNELS.APP_FOCUS_WINDOW);
+    ipcMain.removeAllListeners(IPC_CHANNELS.APP_NOTIFY);
+    notifications.forEach((notification) => notification.close());
+    notifications.clear();
 
     // Remove dialog IPC handlers
     ipcMain.removeHandler(IPC_CHANNELS.DIALOG_SELECT_FOLDERS);
@@ -613,7 +970,21 @@ export function cleanupIpcHandlers(): void {
     ipcMain.removeHandler(IPC_CHANNELS.GIT_GET_DIFF);
     ipcMain.removeHandler(IPC_CHANNELS.GIT_STAGE_FILE);
     ipcMain.removeHandler(IPC_CHANNELS.GIT_UNSTAGE_FILE);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_APPLY_HUNKS);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_DISCARD_FILE);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_RESTORE_DISCARDED);
     ipcMain.removeHandler(IPC_CHANNELS.GIT_COMMIT);
     ipcMain.removeHandler(IPC_CHANNELS.GIT_GET_STAGED_DIFF);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_WORKTREE_CREATE);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_WORKTREE_MERGE);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_WORKTREE_REMOVE);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_LIST_BRANCHES);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_CREATE_BRANCH);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_SWITCH_BRANCH);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_RENAME_BRANCH);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_DELETE_BRANCH);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_LOG);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_COMMIT_FILES);
+    ipcMain.removeHandler(IPC_CHANNELS.GIT_COMMIT_DIFF);
     ipcMain.removeHandler(IPC_CHANNELS.GENERATE_COMMIT_MESSAGE);
 }
@@ -1,13 +1,29 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import {
+    AppNotification,
+    AppNotificationEventMessage,
+    BatchRunRequest,
+    BatchRunUpdateMessage,
+    ConfirmationChoice,
+    ContextStatus,
+    ContextUpdateMessage,
     TerminalCreateOptions,
     TerminalSnapshot,
     TerminalDataMessage,
     TerminalActivityMessage,
     TerminalAwaitingConfirmationMessage,
     TerminalExitMessage,
+    TerminalHookEventMessage,
+    TerminalQueueMessage,
     HarnessLaunchFields,
     HarnessProbeResult,
+    HeadlessProgressMessage,
+    ScheduledPromptSpec,
+    ScheduleFiredMessage,
+    ImportableSession,
+    TokenUsage,
+    TranscriptSearchHit,
+    TranscriptTurn,
 } from '../shared/types';
 import { IPC_CHANNELS } from '../shared/constants';
 
@@ -51,6 +67,33 @@ contextBridge.exposeInMainWorld('terminalAPI', {
         ipcRenderer.send(IPC_CHANNELS.TERMINAL_DESTROY, instanceId);
     },
 
+    // Last non-blank lines on a session's screen
+    getScreenTail: (instanceId: string, lineCount: number): Promise<string[]> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_SCREEN_TAIL, instanceId, lineCount);
+    },
+
+    // Pick an option of the confirmation menu on a session's screen
+    answerConfirmation: (
+        instanceId: string,
+        menuId: number,
+        choice: ConfirmationChoice
+    ): Promise<boolean> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_ANSWER, instanceId, menuId, choice);
+    },
+
+    // Edit a session's prompt queue
+    queuePrompt: (instanceId: string, text: string): void => {
+        ipcRenderer.send(IPC_CHANNELS.TERMINAL_QUEUE_ADD, instanceId, text);
+    },
+
+    removeQueuedPrompt: (instanceId: string, id: string): void => {
+        ipcRenderer.send(IPC_CHANNELS.TERMINAL_QUEUE_REMOVE, instanceId, id);
+    },
+
+    moveQueuedPrompt: (instanceId: string, id: string, toIndex: number): void => {
+        ipcRenderer.send(IPC_CHANNELS.TERMINAL_QUEUE_MOVE, instanceId, id, toIndex);
+    },
+
     onData: (callback: (message: TerminalDataMessage) => void) =>
         subscribe(IPC_CHANNELS.TERMINAL_DATA, callback),
 
@@ -62,6 +105,12 @@ contextBridge.exposeInMainWorld('terminalAPI', {
 
     onExit: (callback: (message: TerminalExitMessage) => void) =>
         subscribe(IPC_CHANNELS.TERMINAL_EXIT, callback),
+
+    onHookEvent: (callback: (message: TerminalHookEventMessage) => void) =>
+        subscribe(IPC_CHANNELS.TERMINAL_HOOK_EVENT, callback),
+
+    onQueue: (callback: (message: TerminalQueueMessage) => void) =>
+        subscribe(IPC_CHANNELS.TERMINAL_QUEUE, callback),
 });
 
 // Expose harness queries to the renderer
@@ -76,6 +125,112 @@ contextBridge.exposeInMainWorld('harnessAPI', {
     ): Promise<string | null> => {
         return ipcRenderer.invoke(IPC_CHANNELS.HARNESS_SESSION_NAME, sessionId, fields);
     },
+
+    getTranscript: (
+        sessionId: string,
+        fields: HarnessLaunchFields
+    ): Promise<TranscriptTurn[] | null> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.HARNESS_TRANSCRIPT, sessionId, fields);
+    },
+
+    searchTranscripts: (
+        query: string,
+        harnesses: HarnessLaunchFields[]
+    ): Promise<TranscriptSearchHit[]> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.HARNESS_SEARCH_TRANSCRIPTS, query, harnesses);
+    },
+
+    listProjectSessions: (
+        projectPath: string,
+        fields: HarnessLaunchFields
+    ): Promise<ImportableSession[]> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.HARNESS_LIST_SESSIONS, projectPath, fields);
+    },
+
+    forkSession: (
+        sessionId: string,
+        newSessionId: string,
+        fields: HarnessLaunchFields,
+        throughTurnId?: string
+    ): Promise<void> => {
+        return ipcRenderer.invoke(
+            IPC_CHANNELS.HARNESS_FORK_SESSION,
+            sessionId,
+            newSessionId,
+            fields,
+            throughTurnId
+        );
+    },
+
+    getUsage: (
+        sessionIds: string[],
+        fields: HarnessLaunchFields
+    ): Promise<Record<string, TokenUsage>> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.HARNESS_USAGE, sessionIds, fields);
+    },
+
+    watchContext: (
+        sessionId: string,
+        fields: HarnessLaunchFields
+    ): Promise<ContextStatus | null> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.HARNESS_WATCH_CONTEXT, sessionId, fields);
+    },
+
+    unwatchContext: (sessionId: string): void => {
+        ipcRenderer.send(IPC_CHANNELS.HARNESS_UNWATCH_CONTEXT, sessionId);
+    },
+
+    onContextUpdate: (callback: (message: ContextUpdateMessage) => void) =>
+        subscribe(IPC_CHANNELS.HARNESS_CONTEXT_UPDATE, callback),
+
+    cancelHeadless: (taskId: string): void => {
+        ipcRenderer.send(IPC_CHANNELS.HARNESS_CANCEL_HEADLESS, taskId);
+    },
+
+    onHeadlessProgress: (callback: (message: HeadlessProgressMessage) => void) =>
+        subscribe(IPC_CHANNELS.HARNESS_HEADLESS_PROGRESS, callback),
+});
+
+// Expose the app shell: dock badge and window focus
+contextBridge.exposeInMainWorld('appAPI', {
+    setBadgeCount: (count: number): void => {
+        ipcRenderer.send(IPC_CHANNELS.APP_SET_BADGE_COUNT, count);
+    },
+
+    focusWindow: (): void => {
+        ipcRenderer.send(IPC_CHANNELS.APP_FOCUS_WINDOW);
+    },
+
+    notify: (notification: AppNotification): void => {
+        ipcRenderer.send(IPC_CHANNELS.APP_NOTIFY, notification);
+    },
+
+    onNotificationEvent: (callback: (message: AppNotificationEventMessage) => void) =>
+        subscribe(IPC_CHANNELS.APP_NOTIFICATION_EVENT, callback),
+});
+
+// Expose scheduled prompts, which the main process fires on time
+contextBridge.exposeInMainWorld('scheduleAPI', {
+    sync: (specs: ScheduledPromptSpec[]): void => {
+        ipcRenderer.send(IPC_CHANNELS.SCHEDULE_SYNC, specs);
+    },
+
+    onFired: (callback: (message: ScheduleFiredMessage) => void) =>
+        subscribe(IPC_CHANNELS.SCHEDULE_FIRED, callback),
+});
+
+// Expose batch runs: one prompt run headless across several workspaces
+contextBridge.exposeInMainWorld('batchAPI', {
+    start: (request: BatchRunRequest): void => {
+        ipcRenderer.send(IPC_CHANNELS.BATCH_START, request);
+    },
+
+    cancel: (batchId: string): void => {
+        ipcRenderer.send(IPC_CHANNELS.BATCH_CANCEL, batchId);
+    },
+
+    onUpdate: (callback: (message: BatchRunUpdateMessage) => void) =>
+        subscribe(IPC_CHANNELS.BATCH_UPDATE, callback),
 });
 
 // Expose Dialog API to renderer
@@ -119,6 +274,43 @@ interface GitDiffHunk {
     }>;
 }
 
+type GitLineAction = 'stage' | 'unstage' | 'discard';
+
+interface GitHunkSelection {
+    hunkIndex: number;
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines?: number[];
+}
+
+interface GitBranchInfo {
+    name: string;
+    isRemote: boolean;
+    isCurrent: boolean;
+    upstream?: string;
+    ahead: number;
+    behind: number;
+}
+
+interface GitCommitInfo {
+    hash: string;
+    shortHash: string;
+    authorName: string;
+    authorEmail: string;
+    date: number;
+    subject: string;
+    body: string;
+    parents: string[];
+}
+
+interface GitCommitFile {
+    path: string;
+    status: string;
+    oldPath?: string;
+}
+
 interface GitDiffResult {
     filePath: string;
     staged: boolean;
@@ -144,14 +336,65 @@ contextBridge.exposeInMainWorld('gitAPI', {
     unstageFile: (rootPath: string, filePath: string): Promise<{ success: boolean }> => {
         return ipcRenderer.invoke(IPC_CHANNELS.GIT_UNSTAGE_FILE, { rootPath, filePath });
     },
+    applyHunks: (
+        rootPath: string,
+        filePath: string,
+        action: GitLineAction,
+        selections: GitHunkSelection[]
+    ): Promise<{ success: boolean; error?: string; snapshotId?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_APPLY_HUNKS, { rootPath, filePath, action, selections });
+    },
+    discardFile: (rootPath: string, filePath: string): Promise<{ success: boolean; error?: string; snapshotId?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_DISCARD_FILE, { rootPath, filePath });
+    },
+    restoreDiscarded: (snapshotId: string): Promise<{ success: boolean; error?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_RESTORE_DISCARDED, { snapshotId });
+    },
     commit: (rootPath: string, message: string): Promise<{ success: boolean; error?: string }> => {
         return ipcRenderer.invoke(IPC_CHANNELS.GIT_COMMIT, { rootPath, message });
     },
     getStagedDiff: (rootPath: string): Promise<{ stagedFiles: string[]; diff: string }> => {
         return ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_STAGED_DIFF, { rootPath });
     },
-    generateCommitMessage: (rootPath: string): Promise<{ message: string; error?: string }> => {
-        return ipcRenderer.invoke(IPC_CHANNELS.GENERATE_COMMIT_MESSAGE, { rootPath });
+    listBranches: (rootPath: string): Promise<GitBranchInfo[]> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_LIST_BRANCHES, { rootPath });
+    },
+    createBranch: (rootPath: string, name: string): Promise<{ success: boolean; error?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_CREATE_BRANCH, { rootPath, name });
+    },
+    switchBranch: (rootPath: string, name: string, isRemote: boolean): Promise<{ success: boolean; error?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_SWITCH_BRANCH, { rootPath, name, isRemote });
+    },
+    renameBranch: (rootPath: string, name: string, newName: string): Promise<{ success: boolean; error?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_RENAME_BRANCH, { rootPath, name, newName });
+    },
+    deleteBranch: (rootPath: string, name: string, force: boolean): Promise<{ success: boolean; error?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_DELETE_BRANCH, { rootPath, name, force });
+    },
+    getLog: (rootPath: string, filePath?: string, skip?: number, limit?: number): Promise<GitCommitInfo[]> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_LOG, { rootPath, filePath, skip, limit });
+    },
+    getCommitFiles: (rootPath: string, hash: string): Promise<GitCommitFile[]> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_COMMIT_FILES, { rootPath, hash });
+    },
+    getCommitDiff: (rootPath: string, hash: string, filePath: string, oldPath?: string): Promise<GitDiffResult | null> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_COMMIT_DIFF, { rootPath, hash, filePath, oldPath });
+    },
+    createWorktree: (rootPath: string, branch: string): Promise<{ success: boolean; error?: string; path?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_WORKTREE_CREATE, { rootPath, branch });
+    },
+    mergeWorktree: (rootPath: string, worktreePath: string, branch: string): Promise<{ success: boolean; error?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_WORKTREE_MERGE, { rootPath, worktreePath, branch });
+    },
+    removeWorktree: (rootPath: string, worktreePath: string, branch: string): Promise<{ success: boolean; error?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GIT_WORKTREE_REMOVE, { rootPath, worktreePath, branch });
+    },
+    generateCommitMessage: (
+        rootPath: string,
+        taskId?: string,
+        harness?: HarnessLaunchFields
+    ): Promise<{ message: string; error?: string }> => {
+        return ipcRenderer.invoke(IPC_CHANNELS.GENERATE_COMMIT_MESSAGE, { rootPath, taskId, harness });
     },
 });
 
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Loader2, X } from 'lucide-react';
+import type { Session, SessionWorktree, Workspace } from '../../stores/workspaceStore';
+import { gitBridge } from '../../services/gitBridge';
+import { terminalBridge } from '../../services/terminalBridge';
+import { useToastStore } from '../../stores/toastStore';
+import './styles.css';
+
+interface CloseWorktreeSessionDialogProps {
+  workspace: Workspace;
+  session: Session & { worktree: SessionWorktree };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Closes the session itself, once its worktree has been dealt with. */
+  onClose: () => void;
+}
+
+type WorktreeChoice = 'merge' | 'keep' | 'delete';
+
+const CHOICES: { value: WorktreeChoice; title: string; meta: string }[] = [
+  {
+    value: 'merge',
+    title: 'Merge and remove',
+    meta: 'Merge the branch into what the workspace has checked out, then remove the worktree and branch. Uncommitted changes must be committed first.',
+  },
+  {
+    value: 'keep',
+    title: 'Keep',
+    meta: 'Leave the worktree and branch as they are, at the path above, to merge or delete by hand later.',
+  },
+  {
+    value: 'delete',
+    title: 'Delete',
+    meta: 'Remove the worktree and branch unmerged. Its changes, committed or not, are lost.',
+  },
+];
+
+/**
+ * Closing a session that ran in its own worktree: what becomes of the branch
+ * its agent worked on.
+ */
+export function CloseWorktreeSessionDialog({
+  workspace,
+  session,
+  open,
+  onOpenChange,
+  onClose,
+}: CloseWorktreeSessionDialogProps) {
+  const [choice, setChoice] = useState<WorktreeChoice>('merge');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setChoice('merge');
+    setError(null);
+  }, [open]);
+
+  const handleClose = async () => {
+    const { path, branch } = session.worktree;
+    if (choice === 'keep') {
+      onClose();
+      useToastStore.getState().show({ message: `Kept branch ${branch} in ${path}` });
+      return;
+    }
+
+    // The agent goes first: left running, it could write into a folder being
+    // merged or deleted, and on Windows its cwd keeps the folder from going.
+    terminalBridge.destroy(session.instanceId);
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result =
+        choice === 'merge'
+          ? await gitBridge.mergeWorktree(workspace.path, path, branch)
+          : await gitBridge.removeWorktree(workspace.path, path, branch);
+      if (!result?.success) {
+        setError(result?.error ?? 'Git is not available');
+        return;
+      }
+      onClose();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content choice-dialog-content">
+          <Dialog.Title className="dialog-title">Close "{session.name}"</Dialog.Title>
+          <Dialog.Description className="choice-dialog-description">
+            This session worked on branch <code>{session.worktree.branch}</code> in its own
+            worktree at <code>{session.worktree.path}</code>.
+          </Dialog.Description>
+
+          <div className="choice-list" role="radiogroup">
+            {CHOICES.map((option) => (
+              <label key={option.value} className="choice-list-item">
+                <input
+                  type="radio"
+                  name="worktree-choice"
+                  checked={choice === option.value}
+                  onChange={() => setChoice(option.value)}
+                  disabled={isWorking}
+                />
+                <span className="choice-list-item-text">
+                  <span className="choice-list-item-title">{option.title}</span>
+                  <span className="choice-list-item-meta">{option.meta}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {error && <div className="choice-dialog-error">{error}</div>}
+
+          <div className="dialog-actions">
+            <button
+              type="button"
+              className="dialog-button-secondary"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="dialog-button-primary"
+              onClick={handleClose}
+              disabled={isWorking}
+            >
+              {isWorking && <Loader2 size={14} className="spinner" />}
+              Close session
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button className="dialog-close" aria-label="Close">
+              <X size={16} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
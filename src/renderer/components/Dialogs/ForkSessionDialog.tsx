@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Loader2, X } from 'lucide-react';
+import type { TranscriptTurn } from '../../../shared/types';
+import { generateSessionInstanceId } from '../../../shared/sessionInstanceId';
+import { useWorkspaceStore, type Session } from '../../stores/workspaceStore';
+import { useHarnessStore } from '../../stores/harnessStore';
+import { useNavigationStore } from '../../stores/navigationStore';
+import { harnessBridge } from '../../services/harnessBridge';
+import './styles.css';
+
+interface ForkSessionDialogProps {
+  workspaceId: string;
+  session: Session;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MAX_PROMPT_PREVIEW_CHARS = 120;
+
+/** A point the conversation can be forked at: after the reply to a prompt. */
+interface ForkPoint {
+  prompt: string;
+  timestamp?: string;
+  /** Last turn of the exchange; absent for the newest, which forks it whole. */
+  throughTurnId?: string;
+}
+
+function promptText(turn: TranscriptTurn): string | null {
+  // Tool results travel back as user messages, but nobody typed them.
+  const text = turn.blocks
+    .map((block) => (block.kind === 'text' ? block.text : ''))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (turn.role !== 'user' || !text) return null;
+  return text.length > MAX_PROMPT_PREVIEW_CHARS
+    ? `${text.slice(0, MAX_PROMPT_PREVIEW_CHARS - 1)}…`
+    : text;
+}
+
+/**
+ * Each exchange a fork can end after, newest first. An exchange runs from a
+ * prompt up to the turn before the next one, tool calls included.
+ */
+function toForkPoints(turns: TranscriptTurn[]): ForkPoint[] {
+  const points: ForkPoint[] = [];
+  for (let i = 0; i < turns.length; i++) {
+    const prompt = promptText(turns[i]);
+    if (prompt === null) continue;
+    if (points.length > 0) points[points.length - 1].throughTurnId = turns[i - 1].id;
+    points.push({ prompt, timestamp: turns[i].timestamp });
+  }
+  return points.reverse();
+}
+
+/**
+ * Branch a conversation into a new session.
+ *
+ * The new session resumes a copy of the transcript cut after the chosen
+ * exchange, so a different approach can be tried from the same context while
+ * the original conversation carries on untouched.
+ */
+export function ForkSessionDialog({ workspaceId, session, open, onOpenChange }: ForkSessionDialogProps) {
+  const [turns, setTurns] = useState<TranscriptTurn[] | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isForking, setIsForking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const importSessions = useWorkspaceStore((state) => state.importSessions);
+  const harnesses = useHarnessStore((state) => state.harnesses);
+  const getLaunchFields = useHarnessStore((state) => state.getLaunchFields);
+  const launchFields = useMemo(
+    () => getLaunchFields(session.harnessId),
+    [getLaunchFields, session.harnessId, harnesses]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setTurns(null);
+    setSelectedIndex(0);
+    setError(null);
+    harnessBridge
+      .getTranscript(session.claudeSessionId, launchFields)
+      .then((result) => {
+        if (!cancelled) setTurns(result ?? []);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setTurns([]);
+        setError(err instanceof Error ? err.message : `Failed to read transcript: ${err}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, session.claudeSessionId, launchFields]);
+
+  const points = useMemo(() => (turns ? toForkPoints(turns) : []), [turns]);
+
+  const handleFork = async () => {
+    const point = points[selectedIndex];
+    if (!point) return;
+
+    setIsForking(true);
+    setError(null);
+    try {
+      const claudeSessionId = crypto.randomUUID();
+      await harnessBridge.forkSession(
+        session.claudeSessionId,
+        claudeSessionId,
+        launchFields,
+        point.throughTurnId
+      );
+      const now = Date.now();
+      const [forked] = importSessions(workspaceId, [
+        {
+          name: `${session.name} (fork)`,
+          instanceId: generateSessionInstanceId(workspaceId),
+          claudeSessionId,
+          harnessId: session.harnessId,
+          // The copied transcript is filed under the folder it ran in
+          worktree: session.worktree,
+          createdAt: now,
+          lastActiveAt: now,
+        },
+      ]);
+      if (forked) {
+        useNavigationStore.setState({ activeWorkspaceId: workspaceId, activeSessionId: forked.id });
+      }
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to fork session: ${err}`);
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content choice-dialog-content">
+          <Dialog.Title className="dialog-title">Fork "{session.name}"</Dialog.Title>
+          <Dialog.Description className="choice-dialog-description">
+            The new session continues from a copy of this conversation, up to and including
+            the reply to the prompt you choose.
+          </Dialog.Description>
+
+          <div className="choice-list" role="radiogroup">
+            {turns === null ? (
+              <div className="choice-list-empty">
+                <Loader2 size={16} className="spinner" />
+              </div>
+            ) : points.length === 0 ? (
+              <div className="choice-list-empty">
+                Nothing has been said in this conversation yet.
+              </div>
+            ) : (
+              points.map((point, index) => (
+                <label key={point.throughTurnId ?? 'latest'} className="choice-list-item">
+                  <input
+                    type="radio"
+                    name="fork-point"
+                    checked={index === selectedIndex}
+                    onChange={() => setSelectedIndex(index)}
+                  />
+                  <span className="choice-list-item-text">
+                    <span className="choice-list-item-title">{point.prompt}</span>
+                    <span className="choice-list-item-meta">
+                      {[
+                        index === 0 && 'Latest',
+                        point.timestamp && new Date(point.timestamp).toLocaleString(),
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </span>
+                  </span>
+                </label>
+              ))
+            )}
+          </div>
+
+          {error && <div className="choice-dialog-error">{error}</div>}
+
+          <div className="dialog-actions">
+            <button
+              type="button"
+              className="dialog-button-secondary"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="dialog-button-primary"
+              onClick={handleFork}
+              disabled={isForking || points.length === 0}
+            >
+              {isForking && <Loader2 size={14} className="spinner" />}
+              Fork
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button className="dialog-close" aria-label="Close">
+              <X size={16} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Loader2, X } from 'lucide-react';
+import type { ImportableSession } from '../../../shared/types';
+import { driverReadsTranscripts } from '../../../shared/constants';
+import { generateSessionInstanceId } from '../../../shared/sessionInstanceId';
+import { useWorkspaceStore, type Workspace } from '../../stores/workspaceStore';
+import { isSelectableHarness, toLaunchFields, useHarnessStore } from '../../stores/harnessStore';
+import { useNavigationStore } from '../../stores/navigationStore';
+import { harnessBridge } from '../../services/harnessBridge';
+import './styles.css';
+
+interface ImportSessionsDialogProps {
+  workspace: Workspace;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Long enough to tell conversations apart in the sidebar, short enough to fit.
+const MAX_IMPORTED_NAME_CHARS = 60;
+
+function importedName(entry: ImportableSession): string {
+  const name = (entry.summary || entry.firstPrompt).replace(/\s+/g, ' ').trim();
+  if (!name) return 'Imported Session';
+  return name.length > MAX_IMPORTED_NAME_CHARS
+    ? `${name.slice(0, MAX_IMPORTED_NAME_CHARS - 1)}…`
+    : name;
+}
+
+function toTime(iso: string): number {
+  const time = Date.parse(iso);
+  return Number.isNaN(time) ? Date.now() : time;
+}
+
+/**
+ * Adopt conversations started in the workspace folder outside Consola.
+ *
+ * Lists what the harness recorded for the folder, minus conversations some
+ * session already owns, and turns the chosen ones into sessions that resume
+ * their conversation when opened.
+ */
+export function ImportSessionsDialog({ workspace, open, onOpenChange }: ImportSessionsDialogProps) {
+  const [entries, setEntries] = useState<ImportableSession[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [chosenHarnessId, setChosenHarnessId] = useState<string | null>(null);
+
+  const workspaces = useWorkspaceStore((state) => state.workspaces);
+  const importSessions = useWorkspaceStore((state) => state.importSessions);
+  const harnesses = useHarnessStore((state) => state.harnesses);
+
+  // Only harnesses that can read their conversations back can list them.
+  const candidates = useMemo(
+    () =>
+      harnesses.filter(
+        (harness) => isSelectableHarness(harness) && driverReadsTranscripts(harness.driverId)
+      ),
+    [harnesses]
+  );
+  const harness =
+    candidates.find((h) => h.id === chosenHarnessId) ??
+    candidates.find((h) => h.id === workspace.defaultHarnessId) ??
+    candidates[0];
+
+  useEffect(() => {
+    if (!open || !harness) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setSelected(new Set());
+    harnessBridge
+      .listProjectSessions(workspace.path, toLaunchFields(harness))
+      .then((result) => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setEntries([]);
+        setError(err instanceof Error ? err.message : `Failed to list conversations: ${err}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, harness, workspace.path]);
+
+  // A conversation belongs to one session; those already claimed anywhere are
+  // hidden rather than imported twice.
+  const unclaimed = useMemo(() => {
+    const claimed = new Set(
+      workspaces.flatMap((ws) => ws.sessions.map((s) => s.claudeSessionId))
+    );
+    return entries.filter((entry) => !claimed.has(entry.sessionId));
+  }, [entries, workspaces]);
+
+  const toggle = (sessionId: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(sessionId)) next.delete(sessionId);
+      else next.add(sessionId);
+      return next;
+    });
+  };
+
+  const allSelected = unclaimed.length > 0 && unclaimed.every((e) => selected.has(e.sessionId));
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(unclaimed.map((e) => e.sessionId)));
+  };
+
+  const handleImport = () => {
+    if (!harness) return;
+    const imported = importSessions(
+      workspace.id,
+      unclaimed
+        .filter((entry) => selected.has(entry.sessionId))
+        .map((entry) => ({
+          name: importedName(entry),
+          instanceId: generateSessionInstanceId(workspace.id),
+          claudeSessionId: entry.sessionId,
+          harnessId: harness.id,
+          createdAt: toTime(entry.created),
+          lastActiveAt: toTime(entry.modified),
+        }))
+    );
+    if (imported.length > 0) {
+      useNavigationStore.setState({
+        activeWorkspaceId: workspace.id,
+        activeSessionId: imported[0].id,
+      });
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content choice-dialog-content">
+          <Dialog.Title className="dialog-title">Import sessions</Dialog.Title>
+          <Dialog.Description className="choice-dialog-description">
+            Conversations started in {workspace.path} outside Consola. Imported sessions
+            resume where they left off.
+          </Dialog.Description>
+
+          {candidates.length > 1 && (
+            <div className="dialog-field">
+              <label className="dialog-label" htmlFor="import-sessions-harness">
+                Harness
+              </label>
+              <select
+                id="import-sessions-harness"
+                className="dialog-input"
+                value={harness?.id ?? ''}
+                onChange={(e) => setChosenHarnessId(e.target.value)}
+              >
+                {candidates.map((h) => (
+                  <option key={h.id} value={h.id}>
+                    {h.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="choice-list">
+            {!harness ? (
+              <div className="choice-list-empty">
+                No enabled harness can list its conversations.
+              </div>
+            ) : isLoading ? (
+              <div className="choice-list-empty">
+                <Loader2 size={16} className="spinner" />
+              </div>
+            ) : error ? (
+              <div className="choice-list-empty">{error}</div>
+            ) : unclaimed.length === 0 ? (
+              <div className="choice-list-empty">
+                There are no conversations here that no session already owns.
+              </div>
+            ) : (
+              <>
+                <label className="choice-list-item choice-list-all">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+                  <span className="choice-list-item-title">Select all</span>
+                </label>
+                {unclaimed.map((entry) => (
+                  <label key={entry.sessionId} className="choice-list-item">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(entry.sessionId)}
+                      onChange={() => toggle(entry.sessionId)}
+                    />
+                    <span className="choice-list-item-text">
+                      <span className="choice-list-item-title">{importedName(entry)}</span>
+                      <span className="choice-list-item-meta">
+                        {[
+                          entry.gitBranch,
+                          entry.modified && new Date(entry.modified).toLocaleString(),
+                          `${entry.messageCount} messages`,
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </>
+            )}
+          </div>
+
+          <div className="dialog-actions">
+            <button
+              type="button"
+              className="dialog-button-secondary"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="dialog-button-primary"
+              onClick={handleImport}
+              disabled={selected.size === 0}
+            >
+              Import{selected.size > 0 ? ` ${selected.size}` : ''}
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button className="dialog-close" aria-label="Close">
+              <X size={16} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X } from 'lucide-react';
+import { isValidCron } from '../../../shared/cron';
+import type { ScheduleTiming } from '../../../shared/types';
+import type { Session, Workspace } from '../../stores/workspaceStore';
+import { nextRunAt, useScheduleStore } from '../../stores/scheduleStore';
+import './styles.css';
+
+interface SchedulePromptDialogProps {
+  workspace: Workspace;
+  /** The session to prompt; absent starts a new session each run. */
+  session?: Session;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CRON_PRESETS = [
+  { label: 'Every weekday at 9:00', expression: '0 9 * * 1-5' },
+  { label: 'Every day at 9:00', expression: '0 9 * * *' },
+  { label: 'Every Monday at 9:00', expression: '0 9 * * 1' },
+  { label: 'Every hour', expression: '0 * * * *' },
+];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** A time as a datetime-local input value, in local time. */
+function toInputValue(time: number): string {
+  const date = new Date(time);
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+function startOfNextHour(): number {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Send a prompt later, once or on a cron timetable: into an existing session,
+ * or into a fresh session in the workspace each time it fires.
+ */
+export function SchedulePromptDialog({ workspace, session, open, onOpenChange }: SchedulePromptDialogProps) {
+  const addSchedule = useScheduleStore((state) => state.addSchedule);
+  const [prompt, setPrompt] = useState('');
+  const [kind, setKind] = useState<ScheduleTiming['kind']>('once');
+  const [at, setAt] = useState('');
+  const [expression, setExpression] = useState(CRON_PRESETS[0].expression);
+
+  useEffect(() => {
+    if (!open) return;
+    setPrompt('');
+    setKind('once');
+    setAt(toInputValue(startOfNextHour()));
+    setExpression(CRON_PRESETS[0].expression);
+  }, [open]);
+
+  const atTime = at ? new Date(at).getTime() : NaN;
+  const timing: ScheduleTiming | null =
+    kind === 'once'
+      ? Number.isNaN(atTime)
+        ? null
+        : { kind: 'once', at: atTime }
+      : isValidCron(expression)
+        ? { kind: 'cron', expression: expression.trim() }
+        : null;
+  const nextRun = timing ? nextRunAt(timing) : null;
+
+  const error =
+    kind === 'cron' && !timing
+      ? 'Not a valid cron expression: five fields, minute hour day month weekday.'
+      : timing && nextRun === null
+        ? kind === 'once'
+          ? 'That time has already passed.'
+          : 'This expression never matches.'
+        : null;
+
+  const handleSave = () => {
+    if (!timing || nextRun === null || !prompt.trim()) return;
+    addSchedule({
+      prompt: prompt.trim(),
+      timing,
+      workspaceId: workspace.id,
+      sessionId: session?.id,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content choice-dialog-content">
+          <Dialog.Title className="dialog-title">Schedule prompt</Dialog.Title>
+          <Dialog.Description className="choice-dialog-description">
+            {session
+              ? `Sent to "${session.name}", queued behind anything it is doing.`
+              : `Each run starts a new session in ${workspace.name}.`}{' '}
+            Runs while Consola is open; a run missed while it is closed is skipped.
+          </Dialog.Description>
+
+          <div className="dialog-field">
+            <label className="dialog-label" htmlFor="schedule-prompt">
+              Prompt
+            </label>
+            <textarea
+              id="schedule-prompt"
+              className="dialog-input schedule-dialog-prompt"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              rows={4}
+              autoFocus
+            />
+          </div>
+
+          <div className="dialog-field">
+            <label className="dialog-label" htmlFor="schedule-kind">
+              When
+            </label>
+            <select
+              id="schedule-kind"
+              className="dialog-input"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as ScheduleTiming['kind'])}
+            >
+              <option value="once">Once</option>
+              <option value="cron">Repeating</option>
+            </select>
+          </div>
+
+          {kind === 'once' ? (
+            <input
+              type="datetime-local"
+              className="dialog-input"
+              value={at}
+              onChange={(e) => setAt(e.target.value)}
+              aria-label="Run at"
+            />
+          ) : (
+            <div className="schedule-dialog-cron">
+              <select
+                className="dialog-input"
+                value={CRON_PRESETS.some((p) => p.expression === expression) ? expression : ''}
+                onChange={(e) => e.target.value && setExpression(e.target.value)}
+                aria-label="Preset"
+              >
+                {CRON_PRESETS.map((preset) => (
+                  <option key={preset.expression} value={preset.expression}>
+                    {preset.label}
+                  </option>
+                ))}
+                <option value="">Custom</option>
+              </select>
+              <input
+                className="dialog-input schedule-dialog-expression"
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+                placeholder="0 9 * * 1-5"
+                spellCheck={false}
+                aria-label="Cron expression"
+              />
+            </div>
+          )}
+
+          {error ? (
+            <div className="choice-dialog-error">{error}</div>
+          ) : (
+            nextRun !== null && (
+              <div className="choice-list-item-meta">
+                Next run {new Date(nextRun).toLocaleString()}
+              </div>
+            )
+          )}
+
+          <div className="dialog-actions">
+            <button
+              type="button"
+              className="dialog-button-secondary"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="dialog-button-primary"
+              onClick={handleSave}
+              disabled={!prompt.trim() || nextRun === null}
+            >
+              Schedule
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button className="dialog-close" aria-label="Close">
+              <X size={16} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -1,17 +1,22 @@
 import { useState } from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
-import { X, Sun, Moon, Monitor, Palette, Keyboard, Boxes, Minus, Plus } from 'lucide-react';
+import { X, Sun, Moon, Monitor, Palette, Keyboard, Boxes, Coins, Bell, AlarmClock, Minus, Plus } from 'lucide-react';
 import {
   useSettingsStore,
   TERMINAL_FONT_SIZE_MIN,
   TERMINAL_FONT_SIZE_MAX,
+  FINISHED_MIN_SECONDS_STEP,
+  FINISHED_MIN_SECONDS_MAX,
+  type NotificationRules,
   type ThemeMode,
 } from '../../stores/settingsStore';
 import { useTheme } from '../../hooks/useTheme';
 import { HarnessesSection } from '../Harnesses';
+import { UsageSection } from '../Usage';
+import { SchedulesSection } from '../Schedules';
 import './styles.css';
 
-type SettingsSection = 'appearance' | 'harnesses' | 'shortcuts';
+type SettingsSection = 'appearance' | 'notifications' | 'harnesses' | 'usage' | 'schedules' | 'shortcuts';
 
 interface SettingsSectionConfig {
   id: SettingsSection;
@@ -21,7 +26,10 @@ interface SettingsSectionConfig {
 
 const sections: SettingsSectionConfig[] = [
   { id: 'appearance', label: 'Appearance', icon: Palette },
+  { id: 'notifications', label: 'Notifications', icon: Bell },
   { id: 'harnesses', label: 'Harnesses', icon: Boxes },
+  { id: 'usage', label: 'Usage', icon: Coins },
+  { id: 'schedules', label: 'Schedules', icon: AlarmClock },
   { id: 'shortcuts', label: 'Keyboard Shortcuts', icon: Keyboard },
 ];
 
@@ -71,7 +79,12 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                 setTerminalFontSize={setTerminalFontSize}
               />
             )}
+            {activeSection === 'notifications' && <NotificationsSection />}
             {activeSection === 'harnesses' && <HarnessesSection />}
+            {activeSection === 'usage' && <UsageSection />}
+            {activeSection === 'schedules' && (
+              <SchedulesSection onNavigate={() => onOpenChange(false)} />
+            )}
             {activeSection === 'shortcuts' && <ShortcutsSection />}
           </div>
 
@@ -152,12 +165,112 @@ function AppearanceSection({
   );
 }
 
+function NotificationToggle({
+  label,
+  description,
+  checked,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label className="settings-modal-toggle">
+      <div className="settings-modal-option-info">
+        <span className="settings-modal-option-label">{label}</span>
+        <span className="settings-modal-option-description">{description}</span>
+      </div>
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+    </label>
+  );
+}
+
+function NotificationsSection() {
+  const rules = useSettingsStore((state) => state.notificationRules);
+  const setRules = useSettingsStore((state) => state.setNotificationRules);
+  const toggle = (key: keyof Omit<NotificationRules, 'finishedMinSeconds'>) => (checked: boolean) =>
+    setRules({ [key]: checked });
+
+  return (
+    <div className="settings-modal-section">
+      <h2 className="settings-modal-section-title">Notifications</h2>
+      <p className="settings-modal-option-description">
+        Sent for sessions that are not on screen, so work in the background can be left alone
+        until it needs you. Clicking one opens its session.
+      </p>
+
+      <NotificationToggle
+        label="Waiting for an answer"
+        description="A permission or trust prompt is waiting for a keypress"
+        checked={rules.awaitingConfirmation}
+        onChange={toggle('awaitingConfirmation')}
+      />
+
+      <NotificationToggle
+        label="Finished working"
+        description="The agent went idle after a long stretch of work"
+        checked={rules.finished}
+        onChange={toggle('finished')}
+      />
+      {rules.finished && (
+        <div className="settings-modal-option settings-modal-option--nested">
+          <div className="settings-modal-option-info">
+            <span className="settings-modal-option-label">Only after working at least</span>
+          </div>
+          <div className="settings-modal-stepper">
+            <button
+              className="settings-modal-stepper-button"
+              onClick={() =>
+                setRules({ finishedMinSeconds: rules.finishedMinSeconds - FINISHED_MIN_SECONDS_STEP })
+              }
+              disabled={rules.finishedMinSeconds <= 0}
+              aria-label="Notify after shorter work"
+            >
+              <Minus size={14} />
+            </button>
+            <span className="settings-modal-stepper-value">{rules.finishedMinSeconds}s</span>
+            <button
+              className="settings-modal-stepper-button"
+              onClick={() =>
+                setRules({ finishedMinSeconds: rules.finishedMinSeconds + FINISHED_MIN_SECONDS_STEP })
+              }
+              disabled={rules.finishedMinSeconds >= FINISHED_MIN_SECONDS_MAX}
+              aria-label="Notify only after longer work"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <NotificationToggle
+        label="Exited"
+        description="The agent's process ended"
+        checked={rules.exited}
+        onChange={toggle('exited')}
+      />
+
+      <NotificationToggle
+        label="Badge the app icon"
+        description="Count sessions waiting on you on the dock or taskbar icon"
+        checked={rules.badge}
+        onChange={toggle('badge')}
+      />
+    </div>
+  );
+}
+
 function ShortcutsSection() {
   const shortcuts = [
     { label: 'Toggle sidebar', key: '⌘\\' },
     { label: 'New workspace', key: '⌘N' },
     { label: 'Open settings', key: '⌘,' },
     { label: 'Toggle theme', key: '⌘⇧T' },
+    { label: 'Search transcripts', key: '⌘⇧F' },
+    { label: 'Approve the first waiting prompt', key: '⌘⇧Y' },
+    { label: 'Deny the first waiting prompt', key: '⌘⇧X' },
     { label: 'Close tab', key: '⌘W' },
   ];
 
@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Loader2, Search } from 'lucide-react';
+import type { TranscriptSearchHit } from '../../../shared/types';
+import { driverReadsTranscripts } from '../../../shared/constants';
+import { useWorkspaceStore, type Session, type Workspace } from '../../stores/workspaceStore';
+import { toLaunchFields, useHarnessStore } from '../../stores/harnessStore';
+import { useNavigationStore } from '../../stores/navigationStore';
+import { usePreviewTabStore } from '../../stores/previewTabStore';
+import { harnessBridge } from '../../services/harnessBridge';
+import './styles.css';
+
+interface TranscriptSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Wait this long after the last keystroke before searching. */
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface ResolvedHit {
+  hit: TranscriptSearchHit;
+  /** Absent for conversations no workspace has a session for. */
+  owner?: { workspace: Workspace; session: Session };
+}
+
+function Snippet({ hit }: { hit: TranscriptSearchHit }) {
+  return (
+    <span className="search-result-snippet">
+      {hit.snippet.slice(0, hit.matchStart)}
+      <mark>{hit.snippet.slice(hit.matchStart, hit.matchEnd)}</mark>
+      {hit.snippet.slice(hit.matchEnd)}
+    </span>
+  );
+}
+
+/**
+ * Search every conversation every harness has recorded.
+ *
+ * The search runs in the main process against the CLIs' own transcripts, so it
+ * finds conversations whether or not their tab is open, and selecting a hit
+ * opens the session with its transcript scrolled to the matching turn.
+ */
+export function TranscriptSearchDialog({ open, onOpenChange }: TranscriptSearchDialogProps) {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<TranscriptSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const workspaces = useWorkspaceStore((state) => state.workspaces);
+  const harnesses = useHarnessStore((state) => state.harnesses);
+  const openTranscript = usePreviewTabStore((state) => state.openTranscript);
+
+  // Archived harnesses are searched too: their sessions are still reachable.
+  const searchableHarnesses = useMemo(
+    () =>
+      harnesses
+        .filter((harness) => driverReadsTranscripts(harness.driverId))
+        .map(toLaunchFields),
+    [harnesses]
+  );
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!open || !trimmed) {
+      setHits([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      harnessBridge
+        .searchTranscripts(trimmed, searchableHarnesses)
+        .then((result) => {
+          if (cancelled) return;
+          setHits(result);
+          setSelectedIndex(0);
+        })
+        .catch((error) => {
+          console.error('Transcript search failed:', error);
+          if (!cancelled) setHits([]);
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, query, searchableHarnesses]);
+
+  // Transcripts are filed under the session ID Consola assigned, which is how
+  // a hit finds its way back to a workspace and tab.
+  const results = useMemo<ResolvedHit[]>(() => {
+    const owners = new Map<string, { workspace: Workspace; session: Session }>();
+    for (const workspace of workspaces) {
+      for (const session of workspace.sessions) {
+        owners.set(session.claudeSessionId, { workspace, session });
+      }
+    }
+    return hits.map((hit) => ({ hit, owner: owners.get(hit.sessionId) }));
+  }, [hits, workspaces]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setQuery('');
+    onOpenChange(next);
+  };
+
+  const handleSelect = ({ hit, owner }: ResolvedHit) => {
+    if (!owner) return;
+    useNavigationStore.setState({
+      activeWorkspaceId: owner.workspace.id,
+      activeSessionId: owner.session.id,
+    });
+    openTranscript(
+      { workspaceId: owner.workspace.id, sessionId: owner.session.id, turnId: hit.turnId },
+      owner.session.name
+    );
+    handleOpenChange(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const selected = results[selectedIndex];
+      if (selected) handleSelect(selected);
+    }
+  };
+
+  // Keep the highlighted result in view while arrowing through a long list.
+  useEffect(() => {
+    document
+      .getElementById(`search-result-${selectedIndex}`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const trimmedQuery = query.trim();
+
+  return (
+    <Dialog.Root open={open} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="search-palette-content" aria-describedby={undefined}>
+          <Dialog.Title className="sr-only">Search transcripts</Dialog.Title>
+
+          <div className="search-palette-input-row">
+            <Search size={16} className="search-palette-icon" />
+            <input
+              className="search-palette-input"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search every conversation"
+              autoFocus
+            />
+            {isSearching && <Loader2 size={14} className="search-palette-spinner" />}
+          </div>
+
+          {trimmedQuery && (
+            <div className="search-palette-results" role="listbox">
+              {results.length === 0 && !isSearching && (
+                <div className="search-palette-empty">No conversation mentions that.</div>
+              )}
+              {results.map((result, index) => {
+                const { hit, owner } = result;
+                return (
+                  <button
+                    key={`${hit.sessionId}:${hit.turnId}`}
+                    id={`search-result-${index}`}
+                    type="button"
+                    role="option"
+                    aria-selected={index === selectedIndex}
+                    className={`search-result ${index === selectedIndex ? 'selected' : ''}`}
+                    onClick={() => handleSelect(result)}
+                    onMouseEnter={() => setSelectedIndex(index)}
+                    disabled={!owner}
+                    title={owner ? undefined : 'No workspace has a session for this conversation'}
+                  >
+                    <span className="search-result-header">
+                      <span className="search-result-location">
+                        {owner
+                          ? `${owner.workspace.name} / ${owner.session.name || 'Untitled'}`
+                          : 'Not in a workspace'}
+                      </span>
+                      <span className="search-result-meta">
+                        {hit.role === 'user' ? 'You' : 'Assistant'}
+                        {hit.timestamp && ` · ${new Date(hit.timestamp).toLocaleString()}`}
+                      </span>
+                    </span>
+                    <Snippet hit={hit} />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
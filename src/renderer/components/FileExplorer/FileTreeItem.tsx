@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import * as Collapsible from '@radix-ui/react-collapsible';
+import * as ContextMenu from '@radix-ui/react-context-menu';
 import { ChevronRight } from 'lucide-react';
 import { FileIcon } from './FileIcon';
 import { FolderIcon } from './FolderIcon';
 import { fileBridge } from '../../services/fileBridge';
 import { useGitStatusStore } from '../../stores/gitStatusStore';
+import { useGitReviewStore } from '../../stores/gitReviewStore';
 
 interface TreeNode {
   name: string;
@@ -24,6 +26,7 @@ export function FileTreeItem({ node, depth, selectedPath, onSelectFile }: FileTr
   const [children, setChildren] = useState<TreeNode[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const getFileStatus = useGitStatusStore((state) => state.getFileStatus);
+  const isGitRepo = useGitStatusStore((state) => state.isGitRepo);
 
   const isSelected = selectedPath === node.path;
   const indent = depth * 12;
@@ -78,7 +81,7 @@ export function FileTreeItem({ node, depth, selectedPath, onSelectFile }: FileTr
     );
   }
 
-  return (
+  const fileButton = (
     <button
       className={`file-tree-item file-tree-file ${isSelected ? 'selected' : ''}`}
       style={{ paddingLeft: indent + 18 }}
@@ -88,4 +91,22 @@ export function FileTreeItem({ node, depth, selectedPath, onSelectFile }: FileTr
       <span className={`file-tree-name ${gitStatusClass}`}>{node.name}</span>
     </button>
   );
+
+  if (!isGitRepo) return fileButton;
+
+  return (
+    <ContextMenu.Root>
+      <ContextMenu.Trigger asChild>{fileButton}</ContextMenu.Trigger>
+      <ContextMenu.Portal>
+        <ContextMenu.Content className="dropdown-content dropdown-content-compact">
+          <ContextMenu.Item
+            className="dropdown-item"
+            onSelect={() => useGitReviewStore.getState().showHistory(node.path)}
+          >
+            Show History
+          </ContextMenu.Item>
+        </ContextMenu.Content>
+      </ContextMenu.Portal>
+    </ContextMenu.Root>
+  );
 }
@@ -1,3 +1,4 @@
+import { Undo2 } from 'lucide-react';
 import { GitFileStatus } from '../../types/electron';
 import { FileIcon } from './FileIcon';
 
@@ -6,6 +7,7 @@ interface GitChangesItemProps {
   status: GitFileStatus;
   isSelected: boolean;
   onSelect: () => void;
+  onDiscard: () => void;
 }
 
 const STATUS_LABELS: Record<GitFileStatus, string> = {
@@ -38,7 +40,7 @@ function getFileDisplayInfo(filePath: string): { filename: string; parentPath: s
   return { filename, parentPath };
 }
 
-export function GitChangesItem({ filePath, status, isSelected, onSelect }: GitChangesItemProps) {
+export function GitChangesItem({ filePath, status, isSelected, onSelect, onDiscard }: GitChangesItemProps) {
   const { filename, parentPath } = getFileDisplayInfo(filePath);
   const statusClass = `git-${status}`;
 
@@ -54,6 +56,17 @@ export function GitChangesItem({ filePath, status, isSelected, onSelect }: GitCh
           <span className="git-changes-item-path">{parentPath}</span>
         )}
       </div>
+      <span
+        role="button"
+        className="git-changes-item-discard"
+        onClick={(e) => {
+          e.stopPropagation();
+          onDiscard();
+        }}
+        title={status === 'untracked' ? 'Delete file' : 'Discard changes'}
+      >
+        <Undo2 size={13} />
+      </span>
       <span className={`git-changes-item-status ${statusClass}`}>
         {STATUS_LABELS[status]}
       </span>
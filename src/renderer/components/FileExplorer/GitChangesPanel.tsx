@@ -4,6 +4,7 @@ import { ChevronRight } from 'lucide-react';
 import { useGitStatusStore } from '../../stores/gitStatusStore';
 import { usePreviewTabStore } from '../../stores/previewTabStore';
 import { GitChangesItem } from './GitChangesItem';
+import { discardFileChanges } from '../../utils/gitDiscard';
 import { GitFileStatus } from '../../types/electron';
 
 interface GitChangesPanelProps {
@@ -87,6 +88,7 @@ export function GitChangesPanel({ rootPath, selectedPath }: GitChangesPanelProps
                   status={status}
                   isSelected={selectedRelativePath === path}
                   onSelect={() => handleSelectFile(path, true)}
+                  onDiscard={() => discardFileChanges(rootPath, path)}
                 />
               ))}
             </div>
@@ -113,6 +115,7 @@ export function GitChangesPanel({ rootPath, selectedPath }: GitChangesPanelProps
                   status={status}
                   isSelected={selectedRelativePath === path}
                   onSelect={() => handleSelectFile(path, false)}
+                  onDiscard={() => discardFileChanges(rootPath, path)}
                 />
               ))}
             </div>
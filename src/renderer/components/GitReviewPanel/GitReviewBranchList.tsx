@@ -0,0 +1,201 @@
+import { useEffect, useState, memo } from 'react';
+import * as Collapsible from '@radix-ui/react-collapsible';
+import { Check, ChevronRight, GitBranch, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { GitBranchInfo } from '../../types/electron';
+import { confirmBranchSwitch, formatAheadBehind, useGitBranchStore } from '../../stores/gitBranchStore';
+
+interface GitReviewBranchListProps {
+  rootPath: string;
+}
+
+export const GitReviewBranchList = memo(function GitReviewBranchList({ rootPath }: GitReviewBranchListProps) {
+  const [localOpen, setLocalOpen] = useState(true);
+  const [remoteOpen, setRemoteOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ name: string; value: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const branches = useGitBranchStore((state) => state.branches);
+  const load = useGitBranchStore((state) => state.load);
+  const createBranch = useGitBranchStore((state) => state.createBranch);
+  const switchBranch = useGitBranchStore((state) => state.switchBranch);
+  const renameBranch = useGitBranchStore((state) => state.renameBranch);
+  const deleteBranch = useGitBranchStore((state) => state.deleteBranch);
+
+  useEffect(() => {
+    load(rootPath);
+    setError(null);
+  }, [rootPath, load]);
+
+  const local = branches.filter((branch) => !branch.isRemote);
+  const remote = branches.filter((branch) => branch.isRemote);
+
+  const run = async (operation: () => Promise<string | null>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      setError(await operation());
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name || isWorking) return;
+    // The new branch starts at HEAD, so no file changes under any session.
+    run(async () => {
+      const err = await createBranch(rootPath, name);
+      if (!err) setNewName('');
+      return err;
+    });
+  };
+
+  const handleSwitch = (branch: GitBranchInfo) => {
+    if (branch.isCurrent || isWorking) return;
+    if (!confirmBranchSwitch(rootPath, branch.name)) return;
+    run(() => switchBranch(rootPath, branch));
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    const value = renaming.value.trim();
+    setRenaming(null);
+    if (!value || value === renaming.name) return;
+    run(() => renameBranch(rootPath, renaming.name, value));
+  };
+
+  const handleDelete = (e: React.MouseEvent, branch: GitBranchInfo) => {
+    e.stopPropagation();
+    if (!window.confirm(`Delete branch "${branch.name}"?`)) return;
+    run(async () => {
+      const err = await deleteBranch(rootPath, branch.name, false);
+      // Git refuses an unmerged branch; say why and let the user insist.
+      if (err && window.confirm(`${err}\n\nDelete it anyway?`)) {
+        return deleteBranch(rootPath, branch.name, true);
+      }
+      return err;
+    });
+  };
+
+  const renderBranch = (branch: GitBranchInfo) => {
+    const counts = formatAheadBehind(branch);
+    if (renaming?.name === branch.name) {
+      return (
+        <div key={branch.name} className="git-review-file-item">
+          <GitBranch size={12} className="git-review-branch-icon" />
+          <input
+            className="git-review-branch-input"
+            value={renaming.value}
+            onChange={(e) => setRenaming({ ...renaming, value: e.target.value })}
+            onBlur={handleRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+              else if (e.key === 'Escape') setRenaming(null);
+            }}
+            spellCheck={false}
+            autoFocus
+          />
+        </div>
+      );
+    }
+
+    return (
+      <button
+        key={branch.name}
+        className={`git-review-file-item git-review-branch-item ${branch.isCurrent ? 'selected' : ''}`}
+        onClick={() => handleSwitch(branch)}
+        title={
+          branch.isCurrent
+            ? `${branch.name} (checked out)`
+            : `Switch to ${branch.name}${branch.upstream ? ` · tracks ${branch.upstream}` : ''}`
+        }
+        disabled={isWorking}
+      >
+        {branch.isCurrent ? (
+          <Check size={12} className="git-review-branch-icon" />
+        ) : (
+          <GitBranch size={12} className="git-review-branch-icon" />
+        )}
+        <span className="git-review-file-item-name">{branch.name}</span>
+        {counts && <span className="git-review-branch-counts">{counts}</span>}
+        {!branch.isRemote && (
+          <span className="git-review-branch-actions">
+            <span
+              role="button"
+              className="git-review-branch-action"
+              title="Rename"
+              onClick={(e) => {
+                e.stopPropagation();
+                setRenaming({ name: branch.name, value: branch.name });
+              }}
+            >
+              <Pencil size={11} />
+            </span>
+            {!branch.isCurrent && (
+              <span
+                role="button"
+                className="git-review-branch-action"
+                title="Delete"
+                onClick={(e) => handleDelete(e, branch)}
+              >
+                <Trash2 size={11} />
+              </span>
+            )}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="git-review-sidebar-content">
+      <div className="git-review-branch-create">
+        <input
+          className="git-review-branch-input"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New branch from HEAD"
+          spellCheck={false}
+          disabled={isWorking}
+        />
+        <button
+          className="git-review-sidebar-toggle"
+          onClick={handleCreate}
+          disabled={!newName.trim() || isWorking}
+          title="Create and switch"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {error && <div className="git-review-branch-error">{error}</div>}
+
+      <Collapsible.Root open={localOpen} onOpenChange={setLocalOpen}>
+        <Collapsible.Trigger className="git-review-section-header">
+          <ChevronRight size={12} className={`git-review-section-chevron ${localOpen ? 'open' : ''}`} />
+          <span className="git-review-section-title">Local</span>
+          <span className="git-review-section-count">{local.length}</span>
+        </Collapsible.Trigger>
+        <Collapsible.Content>
+          <div className="git-review-section-content">{local.map(renderBranch)}</div>
+        </Collapsible.Content>
+      </Collapsible.Root>
+
+      {remote.length > 0 && (
+        <Collapsible.Root open={remoteOpen} onOpenChange={setRemoteOpen}>
+          <Collapsible.Trigger className="git-review-section-header">
+            <ChevronRight size={12} className={`git-review-section-chevron ${remoteOpen ? 'open' : ''}`} />
+            <span className="git-review-section-title">Remote</span>
+            <span className="git-review-section-count">{remote.length}</span>
+          </Collapsible.Trigger>
+          <Collapsible.Content>
+            <div className="git-review-section-content">{remote.map(renderBranch)}</div>
+          </Collapsible.Content>
+        </Collapsible.Root>
+      )}
+    </div>
+  );
+});
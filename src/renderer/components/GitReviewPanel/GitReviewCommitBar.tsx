@@ -1,15 +1,25 @@
-import { useState, useMemo, memo } from 'react';
+import { useState, useMemo, useRef, memo } from 'react';
 import { Loader2, Sparkles, GitCommit } from 'lucide-react';
 import { useGitStatusStore } from '../../stores/gitStatusStore';
 import { useGitReviewStore } from '../../stores/gitReviewStore';
 import { gitBridge } from '../../services/gitBridge';
+import { harnessBridge } from '../../services/harnessBridge';
+import { useHarnessStore } from '../../stores/harnessStore';
 
 interface GitReviewCommitBarProps {
   rootPath: string;
+  /** The harness that writes commit messages; the built-in when it cannot. */
+  sideTaskHarnessId?: string;
 }
 
-export const GitReviewCommitBar = memo(function GitReviewCommitBar({ rootPath }: GitReviewCommitBarProps) {
+export const GitReviewCommitBar = memo(function GitReviewCommitBar({
+  rootPath,
+  sideTaskHarnessId,
+}: GitReviewCommitBarProps) {
   const [error, setError] = useState<string | null>(null);
+  // What the generating agent last said, shown while it works
+  const [progress, setProgress] = useState<string | null>(null);
+  const generateTaskRef = useRef<string | null>(null);
 
   const commitMessage = useGitReviewStore((state) => state.commitMessage);
   const setCommitMessage = useGitReviewStore((state) => state.setCommitMessage);
@@ -31,11 +41,21 @@ export const GitReviewCommitBar = memo(function GitReviewCommitBar({ rootPath }:
   }, [fileStatuses]);
 
   const handleGenerate = async () => {
+    if (generateTaskRef.current) return;
     setError(null);
     setGeneratingMessage(true);
 
+    const taskId = crypto.randomUUID();
+    generateTaskRef.current = taskId;
+    const unsubscribe = harnessBridge.onHeadlessProgress((message) => {
+      if (message.taskId === taskId && message.event.kind === 'text') {
+        setProgress(message.event.text.split('\n')[0]);
+      }
+    });
+
     try {
-      const result = await gitBridge.generateCommitMessage(rootPath);
+      const harness = useHarnessStore.getState().getHeadlessLaunchFields(sideTaskHarnessId);
+      const result = await gitBridge.generateCommitMessage(rootPath, taskId, harness);
       if (result?.message) {
         setCommitMessage(result.message);
       } else if (result?.error) {
@@ -44,10 +64,17 @@ export const GitReviewCommitBar = memo(function GitReviewCommitBar({ rootPath }:
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate message');
     } finally {
+      unsubscribe();
+      generateTaskRef.current = null;
+      setProgress(null);
       setGeneratingMessage(false);
     }
   };
 
+  const handleStopGenerating = () => {
+    if (generateTaskRef.current) harnessBridge.cancelHeadless(generateTaskRef.current);
+  };
+
   const handleCommit = async () => {
     if (!commitMessage.trim() || stagedCount === 0) return;
 
@@ -94,6 +121,11 @@ export const GitReviewCommitBar = memo(function GitReviewCommitBar({ rootPath }:
           placeholder="Enter commit message..."
           rows={2}
         />
+        {progress && !error && (
+          <span className="git-review-commit-progress" title={progress}>
+            {progress}
+          </span>
+        )}
         {error && (
           <span style={{ fontSize: '11px', color: 'var(--color-git-deleted)', marginTop: '4px' }}>
             {error}
@@ -102,19 +134,26 @@ export const GitReviewCommitBar = memo(function GitReviewCommitBar({ rootPath }:
       </div>
 
       <div className="git-review-commit-actions">
-        <button
-          className="git-review-commit-btn generate"
-          onClick={handleGenerate}
-          disabled={isGeneratingMessage || stagedCount === 0}
-          title="Generate commit message (Cmd+G)"
-        >
-          {isGeneratingMessage ? (
+        {isGeneratingMessage ? (
+          <button
+            className="git-review-commit-btn generate"
+            onClick={handleStopGenerating}
+            title="Stop generating"
+          >
             <Loader2 size={14} className="spinner" />
-          ) : (
+            Stop
+          </button>
+        ) : (
+          <button
+            className="git-review-commit-btn generate"
+            onClick={handleGenerate}
+            disabled={stagedCount === 0}
+            title="Generate commit message (Cmd+G)"
+          >
             <Sparkles size={14} />
-          )}
-          Generate
-        </button>
+            Generate
+          </button>
+        )}
 
         <button
           className="git-review-commit-btn commit"
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { ChevronRight, History, Loader2 } from 'lucide-react';
+import type { GitCommitFile, GitCommitInfo } from '../../types/electron';
+import { gitBridge } from '../../services/gitBridge';
+import { useGitReviewStore } from '../../stores/gitReviewStore';
+import { FileIcon } from '../FileExplorer/FileIcon';
+import { DiffView } from '../Views/DiffView';
+import { historyPathOf } from './GitReviewHistoryList';
+
+interface GitReviewCommitViewProps {
+  rootPath: string;
+}
+
+const STATUS_CLASSES: Record<string, string> = {
+  A: 'status-added',
+  M: 'status-modified',
+  D: 'status-deleted',
+  R: 'status-modified',
+};
+
+function CommitFiles({ rootPath, commit, focusPath }: {
+  rootPath: string;
+  commit: GitCommitInfo;
+  focusPath?: string;
+}) {
+  const [files, setFiles] = useState<GitCommitFile[] | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let isCurrent = true;
+    setFiles(null);
+    // A file whose history led here opens straight away
+    setExpanded(new Set(focusPath ? [focusPath] : []));
+    gitBridge.getCommitFiles(rootPath, commit.hash).then((result) => {
+      if (isCurrent) setFiles(result ?? []);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [rootPath, commit.hash, focusPath]);
+
+  const toggle = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  if (!files) {
+    return (
+      <div className="git-review-commit-view-loading">
+        <Loader2 size={16} className="spinner" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="git-review-commit-files">
+      {files.map((file) => {
+        const isExpanded = expanded.has(file.path);
+        return (
+          <div key={file.path} className="git-review-file-section">
+            <div className="git-review-file-header" onClick={() => toggle(file.path)}>
+              <ChevronRight size={14} className={`git-review-file-header-chevron ${isExpanded ? 'open' : ''}`} />
+              <span className="git-review-file-header-icon">
+                <FileIcon filename={file.path.split('/').pop() ?? file.path} />
+              </span>
+              <span className="git-review-file-header-name-group">
+                <span className="git-review-file-header-name">
+                  {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+                </span>
+              </span>
+              <span className={`git-review-file-item-status ${STATUS_CLASSES[file.status] ?? ''}`}>
+                {file.status}
+              </span>
+            </div>
+            {isExpanded && (
+              <div className="git-review-commit-diff">
+                <DiffView
+                  rootPath={rootPath}
+                  relativePath={file.path}
+                  staged={false}
+                  commit={commit.hash}
+                  oldPath={file.oldPath}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** The commit picked from the history: its message and what it changed. */
+export function GitReviewCommitView({ rootPath }: GitReviewCommitViewProps) {
+  const commit = useGitReviewStore((state) => state.selectedCommit);
+  const historyFile = useGitReviewStore((state) => state.historyFile);
+
+  if (!commit) {
+    return (
+      <div className="git-review-diff-list-empty">
+        <History size={48} strokeWidth={1.5} style={{ opacity: 0.3, marginBottom: 'var(--space-4)' }} />
+        <p>Select a commit to see what it changed</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="git-review-diff-list">
+      <div className="git-review-commit-view-header">
+        <div className="git-review-commit-view-subject">{commit.subject}</div>
+        {commit.body && <pre className="git-review-commit-view-body">{commit.body}</pre>}
+        <div className="git-review-commit-view-meta">
+          <span title={commit.authorEmail}>{commit.authorName}</span>
+          {' · '}
+          {new Date(commit.date).toLocaleString()}
+          {' · '}
+          <span className="git-review-commit-view-hash" title={commit.hash}>{commit.shortHash}</span>
+          {commit.parents.length > 1 && ' · merge, shown against its first parent'}
+        </div>
+      </div>
+      <CommitFiles
+        rootPath={rootPath}
+        commit={commit}
+        focusPath={historyFile ? historyPathOf(rootPath, historyFile) : undefined}
+      />
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useState, useMemo, useCallback, memo } from 'react';
 import * as Collapsible from '@radix-ui/react-collapsible';
-import { ChevronRight } from 'lucide-react';
+import { ChevronRight, Undo2 } from 'lucide-react';
 import { useGitStatusStore } from '../../stores/gitStatusStore';
 import { useGitReviewStore } from '../../stores/gitReviewStore';
 import { gitBridge } from '../../services/gitBridge';
+import { discardFileChanges } from '../../utils/gitDiscard';
 import { FileIcon } from '../FileExplorer/FileIcon';
 import { GitFileStatus } from '../../types/electron';
 
@@ -84,6 +85,11 @@ export const GitReviewFileList = memo(function GitReviewFileList({ rootPath }: G
     }
   };
 
+  const handleDiscardFile = (e: React.MouseEvent, filePath: string) => {
+    e.stopPropagation();
+    discardFileChanges(rootPath, filePath);
+  };
+
   const getFilename = (path: string) => {
     const parts = path.split('/');
     return parts[parts.length - 1];
@@ -126,6 +132,14 @@ export const GitReviewFileList = memo(function GitReviewFileList({ rootPath }: G
                   <span className={`git-review-file-item-name ${getStatusClass(status)}`}>
                     {getFilename(path)}
                   </span>
+                  <span
+                    role="button"
+                    className="git-review-file-item-discard"
+                    onClick={(e) => handleDiscardFile(e, path)}
+                    title={status === 'untracked' ? 'Delete file' : 'Discard changes'}
+                  >
+                    <Undo2 size={12} />
+                  </span>
                   <span
                     className={`git-review-file-item-status ${getStatusClass(status)}`}
                     onClick={(e) => handleUnstageFile(e, path)}
@@ -165,6 +179,14 @@ export const GitReviewFileList = memo(function GitReviewFileList({ rootPath }: G
                   <span className={`git-review-file-item-name ${getStatusClass(status)}`}>
                     {getFilename(path)}
                   </span>
+                  <span
+                    role="button"
+                    className="git-review-file-item-discard"
+                    onClick={(e) => handleDiscardFile(e, path)}
+                    title={status === 'untracked' ? 'Delete file' : 'Discard changes'}
+                  >
+                    <Undo2 size={12} />
+                  </span>
                   <span
                     className={`git-review-file-item-status ${getStatusClass(status)}`}
                     onClick={(e) => handleStageFile(e, path)}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, useRef, memo, useCallback } from 'react';
+import { Fragment, useState, useEffect, useMemo, useRef, memo, useCallback } from 'react';
 import { ChevronRight, Loader2, Code, FileText, Copy, Check } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { useGitStatusStore } from '../../stores/gitStatusStore';
@@ -10,6 +10,8 @@ import { GitFileStatus, GitDiffResult } from '../../types/electron';
 import { getLanguageFromPath } from '../../utils/fileUtils';
 import { buildUnifiedDiff } from '../../utils/diffUtils';
 import { codeTheme } from '../../utils/codeTheme';
+import { useHunkSelection } from '../../hooks/useHunkSelection';
+import { DiffHunkHeader, DiffSelectionBar } from '../Views/DiffHunkActions';
 import { SelectableCode } from '../CodeSelection';
 import { useCodeSelectionContext } from '../../contexts/CodeSelectionContext';
 
@@ -50,6 +52,88 @@ const HighlightedCode = memo(function HighlightedCode({
   );
 });
 
+/**
+ * A file's changes as one unified diff, with each hunk's changes, or lines
+ * picked from the gutter, ready to stage, unstage or discard.
+ */
+const HunkDiff = memo(function HunkDiff({
+  rootPath,
+  diff,
+  language,
+  onApplied
+}: {
+  rootPath: string;
+  diff: GitDiffResult;
+  language: string;
+  onApplied: () => void;
+}) {
+  const unifiedLines = useMemo(
+    () => buildUnifiedDiff(diff.oldContent, diff.newContent, diff.hunks),
+    [diff]
+  );
+  const selection = useHunkSelection(rootPath, diff.filePath, diff.hunks, onApplied);
+
+  return (
+    <div className="git-review-inline-diff">
+      <DiffSelectionBar
+        count={selection.selectedCount}
+        error={selection.error}
+        staged={diff.staged}
+        disabled={selection.isWorking}
+        onAction={selection.applySelected}
+        onClear={selection.clearSelection}
+      />
+      {unifiedLines.map((line, idx) => {
+        const lineClass = line.type === 'add'
+          ? 'git-review-inline-diff-line-add'
+          : line.type === 'remove'
+            ? 'git-review-inline-diff-line-remove'
+            : '';
+
+        const gutter = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+        const gutterClass = line.type === 'add'
+          ? 'git-review-inline-diff-gutter-add'
+          : line.type === 'remove'
+            ? 'git-review-inline-diff-gutter-remove'
+            : '';
+
+        const { hunkIndex, lineIndex } = line;
+        const inHunk = hunkIndex !== undefined && lineIndex !== undefined;
+        const isChange = inHunk && line.type !== 'context';
+        const isSelected = isChange && selection.isSelected(hunkIndex, lineIndex);
+
+        return (
+          <Fragment key={idx}>
+            {inHunk && lineIndex === 0 && (
+              <DiffHunkHeader
+                hunk={diff.hunks[hunkIndex]}
+                staged={diff.staged}
+                disabled={selection.isWorking}
+                onAction={(action) => selection.applyHunk(action, hunkIndex)}
+              />
+            )}
+            <div className={`git-review-inline-diff-line ${lineClass} ${isSelected ? 'selected' : ''}`}>
+              <span
+                className={`git-review-inline-diff-gutter ${gutterClass} ${isChange ? 'selectable' : ''}`}
+                onClick={isChange ? (e) => selection.toggleLine(hunkIndex, lineIndex, e.shiftKey) : undefined}
+                title={isChange ? 'Select line (shift-click for a range)' : undefined}
+              >
+                {gutter}
+              </span>
+              <span className="git-review-inline-diff-line-number">
+                {line.newLineNumber ?? line.oldLineNumber ?? ''}
+              </span>
+              <span className="git-review-inline-diff-content">
+                <HighlightedCode content={line.content} language={language} />
+              </span>
+            </div>
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+});
+
 // Use granular selectors to prevent unnecessary re-renders
 function useIsFileExpanded(filePath: string) {
   return useGitReviewStore(useCallback(
@@ -72,6 +156,9 @@ export const GitReviewFileSection = memo(function GitReviewFileSection({
   sectionRef
 }: GitReviewFileSectionProps) {
   const [diffData, setDiffData] = useState<GitDiffResult | null>(null);
+  // A staged file's changes not yet staged, once some of its hunks are
+  const [unstagedData, setUnstagedData] = useState<GitDiffResult | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const [fileContent, setFileContent] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [stats, setStats] = useState({ added: 0, removed: 0 });
@@ -101,9 +188,16 @@ export const GitReviewFileSection = memo(function GitReviewFileSection({
 
     setIsLoading(true);
     const isStaged = status === 'staged';
-
-    gitBridge.getDiff(rootPath, filePath, isStaged)
-      .then((data) => {
+    let isCurrent = true;
+
+    Promise.all([
+      gitBridge.getDiff(rootPath, filePath, isStaged),
+      isStaged ? gitBridge.getDiff(rootPath, filePath, false) : Promise.resolve(null),
+    ])
+      .then(([data, unstaged]) => {
+        // A reload after staging may overtake one for the old status
+        if (!isCurrent) return;
+        setUnstagedData(unstaged && unstaged.hunks.length > 0 ? unstaged : null);
         if (data) {
           setDiffData(data);
           // Calculate stats
@@ -114,7 +208,7 @@ export const GitReviewFileSection = memo(function GitReviewFileSection({
           } else if (data.isDeleted) {
             removed = data.oldContent.split('\n').length;
           } else {
-            for (const hunk of data.hunks) {
+            for (const hunk of [...data.hunks, ...(unstaged?.hunks ?? [])]) {
               for (const line of hunk.lines) {
                 if (line.type === 'add') added++;
                 if (line.type === 'remove') removed++;
@@ -124,8 +218,11 @@ export const GitReviewFileSection = memo(function GitReviewFileSection({
           setStats({ added, removed });
         }
       })
-      .finally(() => setIsLoading(false));
-  }, [isExpanded, rootPath, filePath, status]);
+      .finally(() => isCurrent && setIsLoading(false));
+    return () => {
+      isCurrent = false;
+    };
+  }, [isExpanded, rootPath, filePath, status, reloadKey]);
 
   // Load file content when switching to file view
   useEffect(() => {
@@ -182,13 +279,11 @@ export const GitReviewFileSection = memo(function GitReviewFileSection({
     setTimeout(() => setCopied(false), 1500);
   };
 
-  const unifiedLines = useMemo(() => {
-    if (!diffData) return [];
-    return buildUnifiedDiff(diffData.oldContent, diffData.newContent, diffData.hunks);
-  }, [diffData]);
+  const reloadDiff = useCallback(() => setReloadKey((key) => key + 1), []);
 
   const renderDiffContent = () => {
-    if (isLoading) {
+    // Reloads after staging part of the file keep the diff on screen meanwhile
+    if (isLoading && !diffData) {
       return (
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', padding: 'var(--space-4)' }}>
           <Loader2 size={16} className="spinner" />
@@ -248,36 +343,17 @@ export const GitReviewFileSection = memo(function GitReviewFileSection({
       );
     }
 
-    // Unified diff
+    // Unified diff; a partly staged file shows what is staged and what is not
+    if (!unstagedData) {
+      return <HunkDiff rootPath={rootPath} diff={diffData} language={language} onApplied={reloadDiff} />;
+    }
     return (
-      <div className="git-review-inline-diff">
-        {unifiedLines.map((line, idx) => {
-          const lineClass = line.type === 'add'
-            ? 'git-review-inline-diff-line-add'
-            : line.type === 'remove'
-              ? 'git-review-inline-diff-line-remove'
-              : '';
-
-          const gutter = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
-          const gutterClass = line.type === 'add'
-            ? 'git-review-inline-diff-gutter-add'
-            : line.type === 'remove'
-              ? 'git-review-inline-diff-gutter-remove'
-              : '';
-
-          return (
-            <div key={idx} className={`git-review-inline-diff-line ${lineClass}`}>
-              <span className={`git-review-inline-diff-gutter ${gutterClass}`}>{gutter}</span>
-              <span className="git-review-inline-diff-line-number">
-                {line.newLineNumber ?? line.oldLineNumber ?? ''}
-              </span>
-              <span className="git-review-inline-diff-content">
-                <HighlightedCode content={line.content} language={language} />
-              </span>
-            </div>
-          );
-        })}
-      </div>
+      <>
+        <div className="git-review-diff-part-label">Staged</div>
+        <HunkDiff rootPath={rootPath} diff={diffData} language={language} onApplied={reloadDiff} />
+        <div className="git-review-diff-part-label">Not staged</div>
+        <HunkDiff rootPath={rootPath} diff={unstagedData} language={language} onApplied={reloadDiff} />
+      </>
     );
   };
 
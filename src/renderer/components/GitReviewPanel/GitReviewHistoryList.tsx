@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState, memo } from 'react';
+import { FileText, Loader2, X } from 'lucide-react';
+import type { GitCommitInfo } from '../../types/electron';
+import { gitBridge } from '../../services/gitBridge';
+import { useGitReviewStore } from '../../stores/gitReviewStore';
+
+interface GitReviewHistoryListProps {
+  rootPath: string;
+}
+
+const PAGE_SIZE = 100;
+
+/** Path of a file relative to the repository, as git wants it. */
+export function historyPathOf(rootPath: string, filePath: string): string {
+  return filePath.startsWith(`${rootPath}/`) ? filePath.slice(rootPath.length + 1) : filePath;
+}
+
+export const GitReviewHistoryList = memo(function GitReviewHistoryList({ rootPath }: GitReviewHistoryListProps) {
+  const [commits, setCommits] = useState<GitCommitInfo[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const historyFile = useGitReviewStore((state) => state.historyFile);
+  const selectedCommit = useGitReviewStore((state) => state.selectedCommit);
+  const setSelectedCommit = useGitReviewStore((state) => state.setSelectedCommit);
+  const showHistory = useGitReviewStore((state) => state.showHistory);
+
+  const filePath = historyFile ? historyPathOf(rootPath, historyFile) : undefined;
+
+  // A page for a file no longer shown is dropped when it arrives
+  const requestRef = useRef(0);
+
+  const loadPage = useCallback(async (skip: number) => {
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    const page = (await gitBridge.getLog(rootPath, filePath, skip, PAGE_SIZE)) ?? [];
+    if (request !== requestRef.current) return;
+    setCommits((prev) => (skip === 0 ? page : [...prev, ...page]));
+    setHasMore(page.length === PAGE_SIZE);
+    setIsLoading(false);
+  }, [rootPath, filePath]);
+
+  useEffect(() => {
+    setCommits([]);
+    loadPage(0);
+  }, [loadPage]);
+
+  return (
+    <div className="git-review-sidebar-content">
+      {filePath && (
+        <div className="git-review-history-filter" title={filePath}>
+          <FileText size={12} />
+          <span className="git-review-history-filter-path">{filePath}</span>
+          <button
+            className="git-review-sidebar-toggle"
+            onClick={() => showHistory(null)}
+            title="Show the whole repository's history"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      {commits.map((commit) => (
+        <button
+          key={commit.hash}
+          className={`git-review-history-item ${selectedCommit?.hash === commit.hash ? 'selected' : ''}`}
+          onClick={() => setSelectedCommit(commit)}
+          title={commit.subject}
+        >
+          <span className="git-review-history-item-subject">{commit.subject}</span>
+          <span className="git-review-history-item-meta">
+            {commit.shortHash} · {commit.authorName} · {new Date(commit.date).toLocaleString()}
+          </span>
+        </button>
+      ))}
+
+      {isLoading ? (
+        <div className="git-review-history-more">
+          <Loader2 size={14} className="spinner" />
+        </div>
+      ) : hasMore ? (
+        <button className="git-review-history-more" onClick={() => loadPage(commits.length)}>
+          Load more
+        </button>
+      ) : (
+        commits.length === 0 && <div className="git-review-history-more">No commits yet</div>
+      )}
+    </div>
+  );
+});
@@ -1,15 +1,24 @@
 import { useEffect, useMemo, memo } from 'react';
 import { X, PanelLeftClose, PanelLeft, GitBranch } from 'lucide-react';
 import { useGitStatusStore } from '../../stores/gitStatusStore';
-import { useGitReviewStore } from '../../stores/gitReviewStore';
+import { useGitReviewStore, type SidebarTab } from '../../stores/gitReviewStore';
 import { useNavigationStore } from '../../stores/navigationStore';
-import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { sessionCwd, useWorkspaceStore } from '../../stores/workspaceStore';
 import { GitReviewFileList } from './GitReviewFileList';
+import { GitReviewBranchList } from './GitReviewBranchList';
+import { GitReviewHistoryList, historyPathOf } from './GitReviewHistoryList';
+import { GitReviewCommitView } from './GitReviewCommitView';
 import { GitReviewDiffList } from './GitReviewDiffList';
 import { GitReviewCommitBar } from './GitReviewCommitBar';
 import { CodeSelectionProvider } from '../../contexts/CodeSelectionContext';
 import './styles.css';
 
+const SIDEBAR_TAB_LABELS: Record<SidebarTab, string> = {
+  files: 'Files',
+  branches: 'Branches',
+  history: 'History',
+};
+
 interface GitReviewPanelProps {
   /** Instance ID for code selection feature */
   instanceId?: string;
@@ -19,6 +28,9 @@ export const GitReviewPanel = memo(function GitReviewPanel({ instanceId }: GitRe
   const close = useGitReviewStore((state) => state.close);
   const isSidebarCollapsed = useGitReviewStore((state) => state.isSidebarCollapsed);
   const toggleSidebar = useGitReviewStore((state) => state.toggleSidebar);
+  const sidebarTab = useGitReviewStore((state) => state.sidebarTab);
+  const setSidebarTab = useGitReviewStore((state) => state.setSidebarTab);
+  const historyFile = useGitReviewStore((state) => state.historyFile);
 
   const branch = useGitStatusStore((state) => state.branch);
   const fileStatuses = useGitStatusStore((state) => state.fileStatuses);
@@ -26,10 +38,13 @@ export const GitReviewPanel = memo(function GitReviewPanel({ instanceId }: GitRe
   const refresh = useGitStatusStore((state) => state.refresh);
 
   const activeWorkspaceId = useNavigationStore((state) => state.activeWorkspaceId);
+  const activeSessionId = useNavigationStore((state) => state.activeSessionId);
   const getWorkspace = useWorkspaceStore((state) => state.getWorkspace);
 
+  // Review the active session's own worktree when it has one
   const workspace = activeWorkspaceId ? getWorkspace(activeWorkspaceId) : null;
-  const rootPath = workspace?.path ?? null;
+  const session = workspace?.sessions.find((s) => s.id === activeSessionId);
+  const rootPath = workspace ? sessionCwd(workspace, session) : null;
 
   // Refresh git status when panel opens
   useEffect(() => {
@@ -99,12 +114,27 @@ export const GitReviewPanel = memo(function GitReviewPanel({ instanceId }: GitRe
     );
   }
 
+  // The history replaces the changes beside it, not just the sidebar list
+  const isHistory = sidebarTab === 'history';
+
   const panelContent = (
     <div className="git-review-panel">
       {/* Sidebar */}
       <div className={`git-review-sidebar ${isSidebarCollapsed ? 'collapsed' : ''}`}>
         <div className="git-review-sidebar-header">
-          <span className="git-review-sidebar-title">Files</span>
+          <div className="git-review-sidebar-tabs" role="tablist">
+            {(['files', 'branches', 'history'] as const).map((tab) => (
+              <button
+                key={tab}
+                role="tab"
+                aria-selected={sidebarTab === tab}
+                className={`git-review-sidebar-title git-review-sidebar-tab ${sidebarTab === tab ? 'active' : ''}`}
+                onClick={() => setSidebarTab(tab)}
+              >
+                {SIDEBAR_TAB_LABELS[tab]}
+              </button>
+            ))}
+          </div>
           <button
             className="git-review-sidebar-toggle"
             onClick={toggleSidebar}
@@ -113,7 +143,14 @@ export const GitReviewPanel = memo(function GitReviewPanel({ instanceId }: GitRe
             {isSidebarCollapsed ? <PanelLeft size={14} /> : <PanelLeftClose size={14} />}
           </button>
         </div>
-        {!isSidebarCollapsed && <GitReviewFileList rootPath={rootPath} />}
+        {!isSidebarCollapsed &&
+          (sidebarTab === 'files' ? (
+            <GitReviewFileList rootPath={rootPath} />
+          ) : sidebarTab === 'branches' ? (
+            <GitReviewBranchList rootPath={rootPath} />
+          ) : (
+            <GitReviewHistoryList rootPath={rootPath} />
+          ))}
       </div>
 
       {/* Main content */}
@@ -131,22 +168,42 @@ export const GitReviewPanel = memo(function GitReviewPanel({ instanceId }: GitRe
                 <PanelLeft size={14} />
               </button>
             )}
-            <span className="git-review-main-header-title">Git Changes</span>
-            <span className="git-review-main-header-subtitle">
-              {branch && `on ${branch}`} · {totalCount} file{totalCount !== 1 ? 's' : ''} changed
-              {stagedCount > 0 && ` · ${stagedCount} approved`}
-            </span>
+            {isHistory ? (
+              <>
+                <span className="git-review-main-header-title">History</span>
+                <span className="git-review-main-header-subtitle">
+                  {historyFile ? historyPathOf(rootPath, historyFile) : branch && `on ${branch}`}
+                </span>
+              </>
+            ) : (
+              <>
+                <span className="git-review-main-header-title">Git Changes</span>
+                <span className="git-review-main-header-subtitle">
+                  {branch && `on ${branch}`} · {totalCount} file{totalCount !== 1 ? 's' : ''} changed
+                  {stagedCount > 0 && ` · ${stagedCount} approved`}
+                </span>
+              </>
+            )}
           </div>
           <button className="git-review-close-btn" onClick={close} title="Close (Esc)">
             <X size={16} />
           </button>
         </div>
 
-        {/* Diff list */}
-        <GitReviewDiffList rootPath={rootPath} />
-
-        {/* Commit bar */}
-        <GitReviewCommitBar rootPath={rootPath} />
+        {isHistory ? (
+          <GitReviewCommitView rootPath={rootPath} />
+        ) : (
+          <>
+            {/* Diff list */}
+            <GitReviewDiffList rootPath={rootPath} />
+
+            {/* Commit bar */}
+            <GitReviewCommitBar
+              rootPath={rootPath}
+              sideTaskHarnessId={workspace?.sideTaskHarnessId ?? workspace?.defaultHarnessId}
+            />
+          </>
+        )}
       </div>
     </div>
   );
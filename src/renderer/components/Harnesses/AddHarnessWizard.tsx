@@ -2,14 +2,18 @@ import { useState } from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
 import { Check, X } from 'lucide-react';
 import type { HarnessDriverId } from '../../../shared/types';
-import { HARNESS_DRIVERS } from '../../../shared/constants';
+import { getDriverDescriptor, HARNESS_DRIVERS } from '../../../shared/constants';
 import {
   DEFAULT_ACCENT_COLOR,
   HARNESS_ID_PATTERN,
-  parseLaunchArgs,
   useHarnessStore,
 } from '../../stores/harnessStore';
-import { ConfigFields, IdentityFields, type HarnessDraft } from './harnessFields';
+import {
+  ConfigFields,
+  IdentityFields,
+  toLaunchSettings,
+  type HarnessDraft,
+} from './harnessFields';
 import './styles.css';
 
 const STEPS = ['Driver', 'Identity', 'Config'] as const;
@@ -23,6 +27,9 @@ function emptyDraft(): HarnessDraft {
     binaryPath: '',
     configDir: '',
     launchArgs: '',
+    sessionArgsTemplate: '',
+    configDirEnvVar: '',
+    versionArgs: '',
   };
 }
 
@@ -81,17 +88,20 @@ export function AddHarnessWizard({
   })();
 
   const canAdvance = step === 0 ? true : step === 1 ? !idError && !!draft.name.trim() : true;
+  // A custom driver has no binary of its own to fall back to.
+  const canSubmit =
+    !idError &&
+    !!draft.name.trim() &&
+    (!getDriverDescriptor(draft.driverId).isCustom || !!draft.binaryPath.trim());
 
   const submit = () => {
-    if (idError || !draft.name.trim()) return;
+    if (!canSubmit) return;
     const harness = addHarness({
       id: draft.id,
       driverId: draft.driverId,
       name: draft.name.trim(),
       accentColor: draft.accentColor,
-      binaryPath: draft.binaryPath.trim() || undefined,
-      configDir: draft.configDir.trim() || undefined,
-      extraArgs: parseLaunchArgs(draft.launchArgs),
+      ...toLaunchSettings(draft),
     });
     void probeHarness(harness.id);
     close();
@@ -179,7 +189,12 @@ export function AddHarnessWizard({
                 Next
               </button>
             ) : (
-              <button type="button" className="dialog-button-primary" onClick={submit}>
+              <button
+                type="button"
+                className="dialog-button-primary"
+                disabled={!canSubmit}
+                onClick={submit}
+              >
                 Add harness
               </button>
             )}
@@ -1,13 +1,14 @@
 import { useState } from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
 import { X } from 'lucide-react';
+import { getDriverDescriptor } from '../../../shared/constants';
+import { formatLaunchArgs, useHarnessStore, type Harness } from '../../stores/harnessStore';
 import {
-  formatLaunchArgs,
-  parseLaunchArgs,
-  useHarnessStore,
-  type Harness,
-} from '../../stores/harnessStore';
-import { ConfigFields, IdentityFields, type HarnessDraft } from './harnessFields';
+  ConfigFields,
+  IdentityFields,
+  toLaunchSettings,
+  type HarnessDraft,
+} from './harnessFields';
 import './styles.css';
 
 function toDraft(harness: Harness): HarnessDraft {
@@ -19,6 +20,9 @@ function toDraft(harness: Harness): HarnessDraft {
     binaryPath: harness.binaryPath ?? '',
     configDir: harness.configDir ?? '',
     launchArgs: formatLaunchArgs(harness.extraArgs),
+    sessionArgsTemplate: formatLaunchArgs(harness.sessionArgsTemplate ?? []),
+    configDirEnvVar: harness.configDirEnvVar ?? '',
+    versionArgs: formatLaunchArgs(harness.versionArgs ?? []),
   };
 }
 
@@ -42,19 +46,22 @@ export function EditHarnessDialog({
   // Load the harness into a draft the first time this render cycle sees it.
   const activeDraft = draft?.id === harness?.id ? draft : harness ? toDraft(harness) : null;
 
+  // A custom driver has no binary of its own to fall back to.
+  const canSave =
+    !!activeDraft?.name.trim() &&
+    (!getDriverDescriptor(activeDraft.driverId).isCustom || !!activeDraft.binaryPath.trim());
+
   const change = (updates: Partial<HarnessDraft>) => {
     if (!activeDraft) return;
     setDraft({ ...activeDraft, ...updates });
   };
 
   const save = () => {
-    if (!harness || !activeDraft || !activeDraft.name.trim()) return;
+    if (!harness || !activeDraft || !canSave) return;
     updateHarness(harness.id, {
       name: activeDraft.name.trim(),
       accentColor: activeDraft.accentColor,
-      binaryPath: activeDraft.binaryPath.trim() || undefined,
-      configDir: activeDraft.configDir.trim() || undefined,
-      extraArgs: parseLaunchArgs(activeDraft.launchArgs),
+      ...toLaunchSettings(activeDraft),
     });
     void probeHarness(harness.id);
     setDraft(null);
@@ -87,7 +94,7 @@ export function EditHarnessDialog({
             <button
               type="button"
               className="dialog-button-primary"
-              disabled={!activeDraft?.name.trim()}
+              disabled={!canSave}
               onClick={save}
             >
               Save changes
@@ -60,7 +60,7 @@ export function HarnessCard({
           <span className="harness-card-status">
             {harness.archived
               ? `Archived${sessionCount > 0 ? ` · ${sessionCount} session${sessionCount === 1 ? '' : 's'} still use this` : ''}`
-              : describeHarnessStatus(status)}
+              : describeHarnessStatus(status, harness.driverId)}
           </span>
         </div>
       </div>
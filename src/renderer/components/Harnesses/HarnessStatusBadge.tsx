@@ -1,9 +1,10 @@
-import type { HarnessAccount } from '../../../shared/types';
+import type { HarnessAccount, HarnessDriverId } from '../../../shared/types';
+import { getDriverDescriptor } from '../../../shared/constants';
 import type { HarnessStatus } from '../../stores/harnessStore';
 import './styles.css';
 
 /**
- * Plan names Claude reports, mapped to how the CLI itself describes them.
+ * Plan names the CLIs report, mapped to how each CLI itself describes them.
  * Unknown values are shown as-is rather than hidden, so a new plan tier still
  * tells the user something.
  */
@@ -12,6 +13,11 @@ const PLAN_LABELS: Record<string, string> = {
   claude_pro: 'Claude Pro Subscription',
   claude_team: 'Claude Team Subscription',
   claude_enterprise: 'Claude Enterprise',
+  // Codex reports the ChatGPT plan it signed in under.
+  plus: 'ChatGPT Plus',
+  pro: 'ChatGPT Pro',
+  team: 'ChatGPT Team',
+  enterprise: 'ChatGPT Enterprise',
 };
 
 function describePlan(account: HarnessAccount): string | null {
@@ -28,11 +34,19 @@ function describePlan(account: HarnessAccount): string | null {
  * Mirrors what the CLI would tell you: who it is signed in as, on which plan,
  * or why it could not be reached.
  */
-export function describeHarnessStatus(status: HarnessStatus | undefined): string {
+export function describeHarnessStatus(
+  status: HarnessStatus | undefined,
+  driverId: HarnessDriverId
+): string {
   if (!status || status.state === 'unknown') return 'Not checked yet.';
   if (status.state === 'probing') return 'Checking…';
   if (status.state === 'error') return status.error ?? 'Unavailable.';
 
+  // A CLI whose login Consola cannot read is not thereby signed out.
+  if (!getDriverDescriptor(driverId).readsAccount) {
+    return `Found at ${status.resolvedBinary ?? 'its configured path'}.`;
+  }
+
   const { account } = status;
   if (!account?.emailAddress && !account?.displayName) {
     return 'Found, but not signed in.';
@@ -35,6 +35,8 @@ export function HarnessesSection() {
     const counts: Record<string, number> = {};
     for (const workspace of workspaces) {
       for (const session of workspace.sessions) {
+        // Shells never launch their harness, so they do not depend on it.
+        if (session.kind === 'shell') continue;
         counts[session.harnessId] = (counts[session.harnessId] ?? 0) + 1;
       }
     }
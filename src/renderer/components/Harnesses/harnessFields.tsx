@@ -2,7 +2,12 @@ import { FolderOpen } from 'lucide-react';
 import type { HarnessDriverId } from '../../../shared/types';
 import { getDriverDescriptor } from '../../../shared/constants';
 import { dialogBridge } from '../../services/dialogBridge';
-import { HARNESS_ACCENT_COLORS } from '../../stores/harnessStore';
+import {
+  HARNESS_ACCENT_COLORS,
+  parseLaunchArgs,
+  type Harness,
+  type LaunchSettingKey,
+} from '../../stores/harnessStore';
 import './styles.css';
 
 /**
@@ -19,10 +24,37 @@ export interface HarnessDraft {
   binaryPath: string;
   configDir: string;
   launchArgs: string;
+  /** Custom driver: the argv template, as typed. */
+  sessionArgsTemplate: string;
+  /** Custom driver: the variable the config directory is passed in. */
+  configDirEnvVar: string;
+  /** Custom driver: version-probe arguments, as typed. */
+  versionArgs: string;
 }
 
 type DraftChange = (updates: Partial<HarnessDraft>) => void;
 
+/**
+ * The launch settings a draft saves as.
+ *
+ * Shared by the add wizard and the edit dialog. Blank fields become absent so
+ * they mean "use the default"; the custom-only fields are saved only for the
+ * custom driver, so switching a draft's driver never leaves a stray template
+ * behind.
+ */
+export function toLaunchSettings(draft: HarnessDraft): Pick<Harness, LaunchSettingKey> {
+  const isCustom = getDriverDescriptor(draft.driverId).isCustom;
+  const versionArgs = parseLaunchArgs(draft.versionArgs);
+  return {
+    binaryPath: draft.binaryPath.trim() || undefined,
+    configDir: draft.configDir.trim() || undefined,
+    extraArgs: isCustom ? [] : parseLaunchArgs(draft.launchArgs),
+    sessionArgsTemplate: isCustom ? parseLaunchArgs(draft.sessionArgsTemplate) : undefined,
+    configDirEnvVar: isCustom ? draft.configDirEnvVar.trim() || undefined : undefined,
+    versionArgs: isCustom && versionArgs.length > 0 ? versionArgs : undefined,
+  };
+}
+
 /**
  * Name, routing key and colour.
  *
@@ -103,8 +135,10 @@ export function IdentityFields({
 /**
  * Binary, profile directory and launch arguments.
  *
- * Every field is optional: left blank, the harness resolves exactly the way
- * Consola does with no harness configured at all.
+ * Every field is optional for a known CLI: left blank, the harness resolves
+ * exactly the way Consola does with no harness configured at all. A custom
+ * driver knows nothing about its CLI, so there the binary is required and the
+ * command line itself is described here.
  */
 export function ConfigFields({
   draft,
@@ -114,6 +148,9 @@ export function ConfigFields({
   onChange: DraftChange;
 }) {
   const driver = getDriverDescriptor(draft.driverId);
+  const configDirLabel = driver.isCustom
+    ? draft.configDirEnvVar.trim() || 'Config directory'
+    : driver.configDirEnvVar;
 
   const browseForConfigDir = async () => {
     const selection = await dialogBridge.selectFolder();
@@ -124,7 +161,7 @@ export function ConfigFields({
     <div className="dialog-form">
       <div className="dialog-field">
         <label className="dialog-label" htmlFor="harness-binary">
-          Binary path
+          {driver.isCustom ? 'Binary' : 'Binary path'}
         </label>
         <input
           id="harness-binary"
@@ -134,13 +171,21 @@ export function ConfigFields({
           placeholder={driver.binaryName}
         />
         <span className="harness-field-hint">
-          Leave blank to find <code>{driver.binaryName}</code> on your PATH.
+          {driver.isCustom ? (
+            'Required. A path, or a command name to find on your PATH.'
+          ) : (
+            <>
+              Leave blank to find <code>{driver.binaryName}</code> on your PATH.
+            </>
+          )}
         </span>
       </div>
 
+      {driver.isCustom && <CommandFields draft={draft} onChange={onChange} />}
+
       <div className="dialog-field">
         <label className="dialog-label" htmlFor="harness-config-dir">
-          {driver.configDirEnvVar} path
+          {configDirLabel} path
         </label>
         <div className="harness-input-row">
           <input
@@ -165,21 +210,93 @@ export function ConfigFields({
         </span>
       </div>
 
+      {/* A custom command line already says everything passed to it. */}
+      {!driver.isCustom && (
+        <div className="dialog-field">
+          <label className="dialog-label" htmlFor="harness-args">
+            Launch arguments
+          </label>
+          <input
+            id="harness-args"
+            className="dialog-input"
+            value={draft.launchArgs}
+            onChange={(event) => onChange({ launchArgs: event.target.value })}
+            placeholder={`e.g. ${driver.exampleArgs}`}
+          />
+          <span className="harness-field-hint">
+            Passed to every session this harness starts.
+          </span>
+        </div>
+      )}
+
+      {driver.resumeNote && (
+        <div className="dialog-field">
+          <span className="harness-field-hint">{driver.resumeNote}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * How a custom CLI is launched and inspected.
+ *
+ * The template is the whole session argv. Markers make one template serve both
+ * kinds of launch, since most CLIs spell "start" and "continue" differently.
+ */
+function CommandFields({ draft, onChange }: { draft: HarnessDraft; onChange: DraftChange }) {
+  return (
+    <>
+      <div className="dialog-field">
+        <label className="dialog-label" htmlFor="harness-args-template">
+          Session arguments
+        </label>
+        <input
+          id="harness-args-template"
+          className="dialog-input"
+          value={draft.sessionArgsTemplate}
+          onChange={(event) => onChange({ sessionArgsTemplate: event.target.value })}
+          placeholder="e.g. {resume}--restore-chat-history"
+        />
+        <span className="harness-field-hint">
+          <code>{'{sessionId}'}</code> becomes Consola's session ID. Arguments
+          starting with <code>{'{resume}'}</code> are passed only when resuming,
+          and with <code>{'{new}'}</code> only when starting fresh.
+        </span>
+      </div>
+
       <div className="dialog-field">
-        <label className="dialog-label" htmlFor="harness-args">
-          Launch arguments
+        <label className="dialog-label" htmlFor="harness-config-env-var">
+          Config directory variable
         </label>
         <input
-          id="harness-args"
+          id="harness-config-env-var"
           className="dialog-input"
-          value={draft.launchArgs}
-          onChange={(event) => onChange({ launchArgs: event.target.value })}
-          placeholder="e.g. --permission-mode plan"
+          value={draft.configDirEnvVar}
+          onChange={(event) => onChange({ configDirEnvVar: event.target.value })}
+          placeholder="e.g. AIDER_HOME"
         />
         <span className="harness-field-hint">
-          Passed to every session this harness starts.
+          The environment variable the config directory below is passed in.
         </span>
       </div>
-    </div>
+
+      <div className="dialog-field">
+        <label className="dialog-label" htmlFor="harness-version-args">
+          Version check
+        </label>
+        <input
+          id="harness-version-args"
+          className="dialog-input"
+          value={draft.versionArgs}
+          onChange={(event) => onChange({ versionArgs: event.target.value })}
+          placeholder="--version"
+        />
+        <span className="harness-field-hint">
+          Arguments that make the binary print its version. Leave blank to only
+          check that it exists.
+        </span>
+      </div>
+    </>
   );
 }
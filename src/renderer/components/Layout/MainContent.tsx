@@ -1,15 +1,16 @@
 import { useNavigationStore } from '../../stores/navigationStore';
 import { useWorkspaceStore } from '../../stores/workspaceStore';
-import { HomeView, ContentView, NewSessionView } from '../Views';
+import { HomeView, ContentView, NewSessionView, BatchRunView } from '../Views';
 
 export function MainContent() {
   const activeWorkspaceId = useNavigationStore((state) => state.activeWorkspaceId);
   const activeSessionId = useNavigationStore((state) => state.activeSessionId);
+  const homeView = useNavigationStore((state) => state.homeView);
   const getWorkspace = useWorkspaceStore((state) => state.getWorkspace);
 
-  // No workspace selected - show home/welcome
+  // No workspace selected - show home/welcome, or batch runs across them all
   if (!activeWorkspaceId) {
-    return <HomeView />;
+    return homeView === 'batch' ? <BatchRunView /> : <HomeView />;
   }
 
   const workspace = getWorkspace(activeWorkspaceId);
@@ -0,0 +1,34 @@
+import { X } from 'lucide-react';
+import { useToastStore } from '../../stores/toastStore';
+
+/** Toasts stacked in the bottom corner, above everything but dialogs. */
+export function Toasts() {
+  const toasts = useToastStore((state) => state.toasts);
+  const dismiss = useToastStore((state) => state.dismiss);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="toasts" role="status" aria-live="polite">
+      {toasts.map((toast) => (
+        <div key={toast.id} className={`toast ${toast.isError ? 'error' : ''}`}>
+          <span className="toast-message">{toast.message}</span>
+          {toast.action && (
+            <button
+              className="toast-action"
+              onClick={() => {
+                dismiss(toast.id);
+                toast.action?.run();
+              }}
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button className="toast-close" onClick={() => dismiss(toast.id)} aria-label="Dismiss">
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,16 +2,23 @@ import { useEffect } from 'react';
 import { Sidebar } from '../Sidebar';
 import { AppHeader } from './AppHeader';
 import { MainContent } from './MainContent';
+import { Toasts } from './Toasts';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
 import { useTheme } from '../../hooks/useTheme';
 import { useWindowDropGuard } from '../../hooks/useWindowDropGuard';
+import { useSessionNotifications } from '../../hooks/useSessionNotifications';
+import { useConfirmationShortcuts } from '../../hooks/useConfirmationShortcuts';
+import { useScheduledPrompts } from '../../hooks/useScheduledPrompts';
 import { useSettings } from '../../contexts/SettingsContext';
+import { useSearch } from '../../contexts/SearchContext';
 import { useNavigationStore } from '../../stores/navigationStore';
 import { useTerminalStore } from '../../stores/terminalStore';
+import { useBatchStore } from '../../stores/batchStore';
 import './styles.css';
 
 export function Layout() {
   const { openSettings } = useSettings();
+  const { openSearch } = useSearch();
   const activeWorkspaceId = useNavigationStore((state) => state.activeWorkspaceId);
   const setActiveSession = useNavigationStore((state) => state.setActiveSession);
 
@@ -25,6 +32,7 @@ export function Layout() {
   useKeyboardShortcuts({
     onNewSession: handleNewSession,
     onOpenSettings: openSettings,
+    onOpenSearch: openSearch,
   });
   useTheme();
   useWindowDropGuard();
@@ -32,6 +40,11 @@ export function Layout() {
   // Terminals report activity for every session, including ones whose pane is
   // not mounted, so the subscription lives here rather than in the pane.
   useEffect(() => useTerminalStore.getState().subscribeToEvents(), []);
+  // Likewise batch runs, which report while their view is closed.
+  useEffect(() => useBatchStore.getState().subscribeToEvents(), []);
+  useSessionNotifications();
+  useConfirmationShortcuts();
+  useScheduledPrompts();
 
   return (
     <div className="layout">
@@ -42,6 +55,7 @@ export function Layout() {
           <MainContent />
         </main>
       </div>
+      <Toasts />
     </div>
   );
 }
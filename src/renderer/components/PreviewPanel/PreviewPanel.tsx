@@ -3,6 +3,7 @@ import { PreviewTabBar } from './PreviewTabBar';
 import { CodeFileView } from '../Views/CodeFileView';
 import { MarkdownFileView } from '../Views/MarkdownFileView';
 import { DiffView } from '../Views/DiffView';
+import { TranscriptView } from '../Views/TranscriptView';
 import { getFileCategory } from '../../utils/fileUtils';
 import { FileText } from 'lucide-react';
 import './styles.css';
@@ -19,6 +20,10 @@ function FileViewer({ tab }: { tab: PreviewTab }) {
     );
   }
 
+  if (tab.transcript) {
+    return <TranscriptView source={tab.transcript} />;
+  }
+
   // Regular file view
   const category = getFileCategory(tab.filePath);
 
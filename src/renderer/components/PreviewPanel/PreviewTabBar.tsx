@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import * as ContextMenu from '@radix-ui/react-context-menu';
-import { X } from 'lucide-react';
+import { ScrollText, X } from 'lucide-react';
 import { usePreviewTabStore } from '../../stores/previewTabStore';
 import { FileIcon } from '../FileExplorer/FileIcon';
 
@@ -30,7 +30,7 @@ function TabTooltip({ filePath, targetRef, visible }: TabTooltipProps) {
 }
 
 interface PreviewTabItemProps {
-  tab: { id: string; filePath: string; filename: string };
+  tab: { id: string; filePath: string; filename: string; transcript?: unknown };
   isActive: boolean;
   onSelect: () => void;
   onClose: () => void;
@@ -97,7 +97,11 @@ function PreviewTabItem({
             onMouseEnter={handleMouseEnter}
             onMouseLeave={handleMouseLeave}
           >
-            <FileIcon filename={tab.filename} className="preview-tab-icon" />
+            {tab.transcript ? (
+              <ScrollText size={12} className="preview-tab-icon" />
+            ) : (
+              <FileIcon filename={tab.filename} className="preview-tab-icon" />
+            )}
             <span className="preview-tab-name">{tab.filename}</span>
             <button
               className="preview-tab-close"
@@ -0,0 +1,139 @@
+import { Trash2 } from 'lucide-react';
+import type { ScheduleTiming } from '../../../shared/types';
+import { useWorkspaceStore, type Workspace } from '../../stores/workspaceStore';
+import { nextRunAt, useScheduleStore, type Schedule } from '../../stores/scheduleStore';
+import { focusSession } from '../../hooks/useSessionNotifications';
+import './styles.css';
+
+// The history lists the latest runs; older ones are kept but not shown.
+const MAX_LISTED_RUNS = 20;
+
+interface SchedulesSectionProps {
+  /** Called after opening a session, so settings can get out of the way. */
+  onNavigate: () => void;
+}
+
+function describeTiming(timing: ScheduleTiming): string {
+  if (timing.kind === 'once') return `Once, ${new Date(timing.at).toLocaleString()}`;
+  return `Cron ${timing.expression}`;
+}
+
+function describeTarget(schedule: Schedule, workspace: Workspace | undefined): string {
+  if (!workspace) return 'Workspace removed';
+  if (!schedule.sessionId) return `New session in ${workspace.name}`;
+  const session = workspace.sessions.find((s) => s.id === schedule.sessionId);
+  return session ? `${workspace.name} › ${session.name}` : `${workspace.name} › session removed`;
+}
+
+/**
+ * The Schedules settings section: every scheduled prompt, with when it next
+ * fires, and the sessions recent runs went to.
+ */
+export function SchedulesSection({ onNavigate }: SchedulesSectionProps) {
+  const schedules = useScheduleStore((state) => state.schedules);
+  const runs = useScheduleStore((state) => state.runs);
+  const updateSchedule = useScheduleStore((state) => state.updateSchedule);
+  const removeSchedule = useScheduleStore((state) => state.removeSchedule);
+  const workspaces = useWorkspaceStore((state) => state.workspaces);
+
+  const findWorkspace = (id: string) => workspaces.find((ws) => ws.id === id);
+  const prompts = new Map(schedules.map((schedule) => [schedule.id, schedule.prompt]));
+
+  const openSession = (workspaceId: string, sessionId: string) => {
+    focusSession(workspaceId, sessionId);
+    onNavigate();
+  };
+
+  return (
+    <div className="settings-modal-section">
+      <h2 className="settings-modal-section-title">Schedules</h2>
+      <p className="schedules-section-description">
+        Prompts sent on a timetable, set up from a workspace's or session's
+        menu. They run while Consola is open; runs missed while it is closed
+        are skipped.
+      </p>
+
+      {schedules.length === 0 ? (
+        <p className="schedules-section-description">Nothing is scheduled.</p>
+      ) : (
+        <ul className="schedules-list">
+          {schedules.map((schedule) => {
+            const workspace = findWorkspace(schedule.workspaceId);
+            const nextRun = schedule.enabled ? nextRunAt(schedule.timing) : null;
+            return (
+              <li key={schedule.id} className="schedules-item">
+                <input
+                  type="checkbox"
+                  checked={schedule.enabled}
+                  onChange={(e) => updateSchedule(schedule.id, { enabled: e.target.checked })}
+                  aria-label={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+                />
+                <div className="schedules-item-text">
+                  <span className="schedules-item-prompt" title={schedule.prompt}>
+                    {schedule.prompt}
+                  </span>
+                  <span className="schedules-item-meta">
+                    {[
+                      describeTarget(schedule, workspace),
+                      describeTiming(schedule.timing),
+                      nextRun !== null && `next ${new Date(nextRun).toLocaleString()}`,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  className="schedules-item-remove"
+                  onClick={() => removeSchedule(schedule.id)}
+                  aria-label="Delete schedule"
+                  title="Delete schedule"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {runs.length > 0 && (
+        <div className="schedules-runs">
+          <div className="schedules-runs-heading">Recent runs</div>
+          <table className="schedules-runs-table">
+            <tbody>
+              {runs.slice(0, MAX_LISTED_RUNS).map((run) => {
+                const session = run.sessionId
+                  ? findWorkspace(run.workspaceId)?.sessions.find((s) => s.id === run.sessionId)
+                  : undefined;
+                return (
+                  <tr key={run.id}>
+                    <td className="schedules-runs-time">{new Date(run.firedAt).toLocaleString()}</td>
+                    <td className="schedules-runs-prompt">{prompts.get(run.scheduleId)}</td>
+                    <td className="schedules-runs-result">
+                      {run.error ? (
+                        <span className="schedules-runs-error" title={run.error}>
+                          Failed
+                        </span>
+                      ) : session ? (
+                        <button
+                          type="button"
+                          className="schedules-runs-link"
+                          onClick={() => openSession(run.workspaceId, session.id)}
+                        >
+                          {session.name || 'Untitled'}
+                        </button>
+                      ) : (
+                        'Session removed'
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
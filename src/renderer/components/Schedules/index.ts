@@ -0,0 +1 @@
+export { SchedulesSection } from './SchedulesSection';
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, CircleCheck, CirclePower, MessageCircleQuestionMark } from 'lucide-react';
+import { useNavigationStore } from '../../stores/navigationStore';
+import { useWorkspaceStore, type Session, type Workspace } from '../../stores/workspaceStore';
+import { useTerminalStore, type TerminalState } from '../../stores/terminalStore';
+import { useAttentionStore, type AttentionReason } from '../../stores/attentionStore';
+import { terminalBridge } from '../../services/terminalBridge';
+import { focusSession } from '../../hooks/useSessionNotifications';
+
+// Enough of the screen to read a menu or the end of a reply at a glance.
+const PREVIEW_LINES = 4;
+
+// Most urgent first: a menu blocks the agent, a finished run only waits.
+const REASON_ORDER: AttentionReason[] = ['awaiting-confirmation', 'finished', 'exited'];
+
+const REASON_LABELS: Record<AttentionReason, string> = {
+  'awaiting-confirmation': 'Waiting for an answer',
+  finished: 'Finished',
+  exited: 'Exited',
+};
+
+interface InboxEntry {
+  workspace: Workspace;
+  session: Session;
+  reason: AttentionReason;
+  terminal: TerminalState;
+}
+
+function ReasonIcon({ reason }: { reason: AttentionReason }) {
+  if (reason === 'awaiting-confirmation') return <MessageCircleQuestionMark size={14} />;
+  if (reason === 'finished') return <CircleCheck size={14} />;
+  return <CirclePower size={14} />;
+}
+
+function InboxItem({ entry }: { entry: InboxEntry }) {
+  const { workspace, session, reason, terminal } = entry;
+  const [lines, setLines] = useState<string[]>([]);
+
+  // The screen only settles when the state does, so that is when to re-read it.
+  useEffect(() => {
+    let cancelled = false;
+    terminalBridge
+      .getScreenTail(session.instanceId, PREVIEW_LINES)
+      .then((tail) => {
+        if (!cancelled) setLines(tail);
+      })
+      .catch(() => {
+        if (!cancelled) setLines([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [session.instanceId, reason, terminal]);
+
+  return (
+    <div className={`inbox-item inbox-item--${reason}`}>
+      <button className="inbox-item-open" onClick={() => focusSession(workspace.id, session.id)}>
+        <span className="inbox-item-header">
+          <span className="inbox-item-icon">
+            <ReasonIcon reason={reason} />
+          </span>
+          <span className="inbox-item-name">{session.name || 'Untitled'}</span>
+          <span className="inbox-item-workspace">{workspace.name}</span>
+        </span>
+        <span className="inbox-item-reason">{REASON_LABELS[reason]}</span>
+        {lines.length > 0 && (
+          <pre className="inbox-item-screen" title={lines.join('\n')}>
+            {lines.join('\n')}
+          </pre>
+        )}
+      </button>
+      {reason === 'awaiting-confirmation' && terminal.confirmationChoices.length > 0 && (
+        <div className="inbox-item-choices">
+          {terminal.confirmationChoices.map((choice) => (
+            <button
+              key={choice.number}
+              className={`inbox-item-choice inbox-item-choice--${choice.intent}`}
+              title={choice.label}
+              onClick={() =>
+                terminalBridge.answerConfirmation(
+                  session.instanceId,
+                  terminal.confirmationMenuId,
+                  choice
+                )
+              }
+            >
+              {choice.number}. {choice.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Every session across workspaces that is waiting on the user.
+ *
+ * Menus and exits come straight from each terminal's state, so they stay
+ * listed until answered or restarted. A finished run is listed while
+ * `attentionStore` still flags it, which is until its session is looked at.
+ * A menu whose options could be read is answered right here.
+ */
+export function InboxSection() {
+  const isExpanded = useNavigationStore((state) => state.isInboxExpanded);
+  const toggleExpanded = useNavigationStore((state) => state.toggleInboxExpanded);
+  const workspaces = useWorkspaceStore((state) => state.workspaces);
+  const terminals = useTerminalStore((state) => state.terminals);
+  const flagged = useAttentionStore((state) => state.flagged);
+
+  const entries = useMemo(() => {
+    const result: InboxEntry[] = [];
+    for (const workspace of workspaces) {
+      for (const session of workspace.sessions) {
+        const terminal = terminals[session.instanceId];
+        if (!terminal) continue;
+        const reason: AttentionReason | null = terminal.isAwaitingConfirmation
+          ? 'awaiting-confirmation'
+          : terminal.hasExited
+            ? 'exited'
+            : flagged[session.instanceId] === 'finished' && !terminal.isBusy
+              ? 'finished'
+              : null;
+        if (reason) result.push({ workspace, session, reason, terminal });
+      }
+    }
+    return result.sort((a, b) => REASON_ORDER.indexOf(a.reason) - REASON_ORDER.indexOf(b.reason));
+  }, [workspaces, terminals, flagged]);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="sidebar-inbox">
+      <div className="sidebar-section-header">
+        <button className="sidebar-inbox-toggle" onClick={toggleExpanded}>
+          {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          <span className="sidebar-section-title">Inbox</span>
+        </button>
+        <span className="sidebar-inbox-count">{entries.length}</span>
+      </div>
+      {isExpanded && (
+        <div className="inbox-list">
+          {entries.map((entry) => (
+            <InboxItem key={entry.session.instanceId} entry={entry} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,11 +6,13 @@ interface NavItemProps {
   label: string;
   onClick: () => void;
   shortcut?: string;
+  /** Defaults to being active on the home screen, which is where NavItems lead. */
+  isActive?: boolean;
 }
 
-export function NavItem({ icon, label, onClick, shortcut }: NavItemProps) {
+export function NavItem({ icon, label, onClick, shortcut, isActive: isActiveProp }: NavItemProps) {
   const activeWorkspaceId = useNavigationStore((state) => state.activeWorkspaceId);
-  const isActive = activeWorkspaceId === null;
+  const isActive = isActiveProp ?? activeWorkspaceId === null;
 
   return (
     <button
@@ -1,15 +1,36 @@
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
-import { MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import { AlarmClock, Columns2, GitFork, MoreHorizontal, Pencil, ScrollText, Trash2 } from 'lucide-react';
 
 interface SessionActionsMenuProps {
   sessionName: string;
   onRename: () => void;
+  /** Absent when there is no open session to tile this one beside. */
+  onOpenInSplit?: () => void;
+  /** Absent when the session's harness keeps no transcript Consola can read. */
+  onViewTranscript?: () => void;
+  /** Absent when the conversation cannot be copied, for the same reason. */
+  onFork?: () => void;
+  /** Absent for shell sessions, which have no agent to prompt. */
+  onSchedule?: () => void;
   onDelete: () => void;
+  /** The caller asks before deleting itself, with more to offer than a confirm. */
+  confirmsDelete?: boolean;
 }
 
-export function SessionActionsMenu({ sessionName, onRename, onDelete }: SessionActionsMenuProps) {
+export function SessionActionsMenu({
+  sessionName,
+  onRename,
+  onOpenInSplit,
+  onViewTranscript,
+  onFork,
+  onSchedule,
+  onDelete,
+  confirmsDelete = false,
+}: SessionActionsMenuProps) {
   const handleDelete = () => {
-    if (window.confirm(`Delete session "${sessionName}"? This will remove the session and its chat history.`)) {
+    if (confirmsDelete) {
+      onDelete();
+    } else if (window.confirm(`Delete session "${sessionName}"? This will remove the session and its chat history.`)) {
       onDelete();
     }
   };
@@ -35,6 +56,42 @@ export function SessionActionsMenu({ sessionName, onRename, onDelete }: SessionA
             <Pencil size={14} />
             <span>Rename</span>
           </DropdownMenu.Item>
+          {onOpenInSplit && (
+            <DropdownMenu.Item
+              className="dropdown-item"
+              onSelect={onOpenInSplit}
+            >
+              <Columns2 size={14} />
+              <span>Open in split pane</span>
+            </DropdownMenu.Item>
+          )}
+          {onViewTranscript && (
+            <DropdownMenu.Item
+              className="dropdown-item"
+              onSelect={onViewTranscript}
+            >
+              <ScrollText size={14} />
+              <span>View transcript</span>
+            </DropdownMenu.Item>
+          )}
+          {onFork && (
+            <DropdownMenu.Item
+              className="dropdown-item"
+              onSelect={onFork}
+            >
+              <GitFork size={14} />
+              <span>Fork…</span>
+            </DropdownMenu.Item>
+          )}
+          {onSchedule && (
+            <DropdownMenu.Item
+              className="dropdown-item"
+              onSelect={onSchedule}
+            >
+              <AlarmClock size={14} />
+              <span>Schedule prompt…</span>
+            </DropdownMenu.Item>
+          )}
           <DropdownMenu.Item
             className="dropdown-item dropdown-item-destructive"
             onSelect={handleDelete}
@@ -1,9 +1,16 @@
 import { useState, useRef, useEffect } from 'react';
-import { MessageSquare } from 'lucide-react';
+import { MessageSquare, SquareTerminal } from 'lucide-react';
+import { driverReadsTranscripts } from '../../../shared/constants';
 import { useTerminalStore } from '../../stores/terminalStore';
 import { useWorkspaceStore, type Session } from '../../stores/workspaceStore';
 import { useNavigationStore } from '../../stores/navigationStore';
+import { useSplitPaneStore } from '../../stores/splitPaneStore';
+import { useHarnessStore } from '../../stores/harnessStore';
+import { usePreviewTabStore } from '../../stores/previewTabStore';
 import { SessionActionsMenu } from './SessionActionsMenu';
+import { ForkSessionDialog } from '../Dialogs/ForkSessionDialog';
+import { SchedulePromptDialog } from '../Dialogs/SchedulePromptDialog';
+import { CloseWorktreeSessionDialog } from '../Dialogs/CloseWorktreeSessionDialog';
 import { terminalBridge } from '../../services/terminalBridge';
 
 interface SessionNavItemProps {
@@ -21,10 +28,13 @@ export function SessionNavItem({
 }: SessionNavItemProps) {
   const [isRenaming, setIsRenaming] = useState(false);
   const [newName, setNewName] = useState(session.name);
+  const [isForkOpen, setIsForkOpen] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [isCloseWorktreeOpen, setIsCloseWorktreeOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Activity is inferred from terminal output, so the only states Consola can
-  // distinguish are "Claude is producing output" and "Claude has exited".
+  // Activity comes from the agent's hooks where its CLI has them, and is
+  // otherwise inferred from terminal output.
   const sessionStatus = useTerminalStore((state) => {
     const terminal = state.terminals[session.instanceId];
     if (!terminal) return null;
@@ -35,14 +45,37 @@ export function SessionNavItem({
     if (terminal.isBusy) return 'running';
     return null;
   });
+  const activeTool = useTerminalStore(
+    (state) => state.terminals[session.instanceId]?.activeTool ?? null
+  );
   const removeTerminalInstance = useTerminalStore((state) => state.removeInstance);
 
+  const workspace = useWorkspaceStore((state) => state.getWorkspace(workspaceId));
   const updateSession = useWorkspaceStore((state) => state.updateSession);
   const deleteSession = useWorkspaceStore((state) => state.deleteSession);
 
+  const activeWorkspaceId = useNavigationStore((state) => state.activeWorkspaceId);
   const activeSessionId = useNavigationStore((state) => state.activeSessionId);
   const setActiveSession = useNavigationStore((state) => state.setActiveSession);
 
+  const addPane = useSplitPaneStore((state) => state.addPane);
+  const removeSessionPanes = useSplitPaneStore((state) => state.removeSession);
+  const openTranscript = usePreviewTabStore((state) => state.openTranscript);
+
+  // Only an agent that has run has a conversation, and only some harnesses
+  // keep it in a form Consola can read back.
+  const readsTranscripts = useHarnessStore((state) =>
+    driverReadsTranscripts(state.getLaunchFields(session.harnessId).driverId)
+  );
+  const canViewTranscript = session.kind === 'agent' && session.hasStarted && readsTranscripts;
+
+  // A worktree is only this session's to merge or delete when no fork of it
+  // still runs there.
+  const { worktree } = session;
+  const ownsWorktree =
+    worktree !== undefined &&
+    !workspace?.sessions.some((s) => s.id !== session.id && s.worktree?.path === worktree.path);
+
   useEffect(() => {
     if (isRenaming && inputRef.current) {
       inputRef.current.focus();
@@ -77,6 +110,7 @@ export function SessionNavItem({
     // Remove from store. The conversation itself stays in Claude's own session
     // files and remains reachable through `claude --resume`.
     deleteSession(workspaceId, session.id);
+    removeSessionPanes(session.id);
 
     // Clear active session if this was it
     if (activeSessionId === session.id) {
@@ -84,43 +118,94 @@ export function SessionNavItem({
     }
   };
 
+  // Tiles this session beside whichever one is open, in that one's workspace.
+  // Only offered while another session is on screen to tile it beside.
+  const canOpenInSplit = activeWorkspaceId !== null && activeSessionId !== null && !isActive;
+  const handleOpenInSplit = () => {
+    if (!activeWorkspaceId) return;
+    addPane(activeWorkspaceId, { workspaceId, sessionId: session.id });
+  };
+
+  // The preview panel belongs to the session view, so the session is opened
+  // too for the tab to have somewhere to show.
+  const handleViewTranscript = () => {
+    if (!isActive) onClick();
+    openTranscript({ workspaceId, sessionId: session.id }, session.name);
+  };
+
   const handleStartRename = () => {
     setNewName(session.name);
     setIsRenaming(true);
   };
 
   return (
-    <button
-      className={`session-nav-item session-nav-item--indent-1 ${isActive ? 'active' : ''}`}
-      onClick={isRenaming ? undefined : onClick}
-    >
-      <span className="session-nav-item-icon">
-        <MessageSquare size={14} />
-      </span>
-      {isRenaming ? (
-        <input
-          ref={inputRef}
-          type="text"
-          className="session-rename-input"
-          value={newName}
-          onChange={(e) => setNewName(e.target.value)}
-          onBlur={handleRename}
-          onKeyDown={handleKeyDown}
-          onClick={(e) => e.stopPropagation()}
+    <>
+      <button
+        className={`session-nav-item session-nav-item--indent-1 ${isActive ? 'active' : ''}`}
+        onClick={isRenaming ? undefined : onClick}
+      >
+        <span className="session-nav-item-icon">
+          {session.kind === 'shell' ? <SquareTerminal size={14} /> : <MessageSquare size={14} />}
+        </span>
+        {isRenaming ? (
+          <input
+            ref={inputRef}
+            type="text"
+            className="session-rename-input"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={handleKeyDown}
+            onClick={(e) => e.stopPropagation()}
+          />
+        ) : (
+          <span className="session-nav-item-name">{session.name}</span>
+        )}
+        {sessionStatus && (
+          <span
+            className={`session-status-indicator session-status-indicator--${sessionStatus}`}
+            title={sessionStatus === 'running' && activeTool ? `Running ${activeTool}` : undefined}
+          />
+        )}
+        {!isRenaming && (
+          <SessionActionsMenu
+            sessionName={session.name}
+            onRename={handleStartRename}
+            onOpenInSplit={canOpenInSplit ? handleOpenInSplit : undefined}
+            onViewTranscript={canViewTranscript ? handleViewTranscript : undefined}
+            onFork={canViewTranscript ? () => setIsForkOpen(true) : undefined}
+            onSchedule={session.kind === 'agent' ? () => setIsScheduleOpen(true) : undefined}
+            onDelete={ownsWorktree ? () => setIsCloseWorktreeOpen(true) : handleDelete}
+            confirmsDelete={ownsWorktree}
+          />
+        )}
+      </button>
+      {/* Outside the button, so clicks in the dialog do not open the session. */}
+      {canViewTranscript && (
+        <ForkSessionDialog
+          workspaceId={workspaceId}
+          session={session}
+          open={isForkOpen}
+          onOpenChange={setIsForkOpen}
         />
-      ) : (
-        <span className="session-nav-item-name">{session.name}</span>
       )}
-      {sessionStatus && (
-        <span className={`session-status-indicator session-status-indicator--${sessionStatus}`} />
+      {workspace && session.kind === 'agent' && (
+        <SchedulePromptDialog
+          workspace={workspace}
+          session={session}
+          open={isScheduleOpen}
+          onOpenChange={setIsScheduleOpen}
+        />
       )}
-      {!isRenaming && (
-        <SessionActionsMenu
-          sessionName={session.name}
-          onRename={handleStartRename}
-          onDelete={handleDelete}
+      {workspace && worktree && ownsWorktree && (
+        <CloseWorktreeSessionDialog
+          workspace={workspace}
+          session={{ ...session, worktree }}
+          open={isCloseWorktreeOpen}
+          onOpenChange={setIsCloseWorktreeOpen}
+          onClose={handleDelete}
         />
       )}
-    </button>
+    </>
   );
 }
@@ -1,7 +1,11 @@
+import { useState } from 'react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
-import { Boxes, Check, ChevronRight, MoreHorizontal, Trash2 } from 'lucide-react';
+import { AlarmClock, Boxes, Check, ChevronRight, History, MoreHorizontal, Trash2, Wand2 } from 'lucide-react';
+import { driverReadsTranscripts, driverRunsHeadless } from '../../../shared/constants';
 import { isSelectableHarness, useHarnessStore } from '../../stores/harnessStore';
 import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { ImportSessionsDialog } from '../Dialogs/ImportSessionsDialog';
+import { SchedulePromptDialog } from '../Dialogs/SchedulePromptDialog';
 
 interface WorkspaceActionsMenuProps {
   workspaceId: string;
@@ -13,9 +17,16 @@ export function WorkspaceActionsMenu({ workspaceId, workspaceName, onDelete }: W
   const getWorkspace = useWorkspaceStore((state) => state.getWorkspace);
   const updateWorkspace = useWorkspaceStore((state) => state.updateWorkspace);
   const harnesses = useHarnessStore((state) => state.harnesses);
+  const [importOpen, setImportOpen] = useState(false);
+  const [scheduleOpen, setScheduleOpen] = useState(false);
 
-  const defaultHarnessId = getWorkspace(workspaceId)?.defaultHarnessId;
+  const workspace = getWorkspace(workspaceId);
+  const defaultHarnessId = workspace?.defaultHarnessId;
   const selectable = harnesses.filter(isSelectableHarness);
+  const canImport = selectable.some((harness) => driverReadsTranscripts(harness.driverId));
+  // Side tasks (commit messages) need a harness that can run a prompt headless.
+  const sideTaskCapable = selectable.filter((harness) => driverRunsHeadless(harness.driverId));
+  const sideTaskHarnessId = workspace?.sideTaskHarnessId;
 
   const handleDelete = () => {
     if (window.confirm(`Are you sure you want to delete "${workspaceName}"?`)) {
@@ -24,60 +35,120 @@ export function WorkspaceActionsMenu({ workspaceId, workspaceName, onDelete }: W
   };
 
   return (
-    <DropdownMenu.Root>
-      <DropdownMenu.Trigger asChild>
-        <button
-          className="workspace-actions-trigger"
-          onClick={(e) => e.stopPropagation()}
-          aria-label="Workspace actions"
-        >
-          <MoreHorizontal size={14} />
-        </button>
-      </DropdownMenu.Trigger>
+    <>
+      <DropdownMenu.Root>
+        <DropdownMenu.Trigger asChild>
+          <button
+            className="workspace-actions-trigger"
+            onClick={(e) => e.stopPropagation()}
+            aria-label="Workspace actions"
+          >
+            <MoreHorizontal size={14} />
+          </button>
+        </DropdownMenu.Trigger>
+
+        <DropdownMenu.Portal>
+          <DropdownMenu.Content className="dropdown-content" sideOffset={4} align="end">
+            {selectable.length > 1 && (
+              <DropdownMenu.Sub>
+                <DropdownMenu.SubTrigger className="dropdown-item">
+                  <Boxes size={14} />
+                  <span>Default harness</span>
+                  <ChevronRight size={14} style={{ marginLeft: 'auto' }} />
+                </DropdownMenu.SubTrigger>
+                <DropdownMenu.Portal>
+                  <DropdownMenu.SubContent className="dropdown-content" sideOffset={4}>
+                    {selectable.map((harness) => (
+                      <DropdownMenu.Item
+                        key={harness.id}
+                        className="dropdown-item"
+                        onSelect={() =>
+                          updateWorkspace(workspaceId, { defaultHarnessId: harness.id })
+                        }
+                      >
+                        <span
+                          className="workspace-harness-dot"
+                          style={{ background: harness.accentColor }}
+                        />
+                        <span>{harness.name}</span>
+                        {harness.id === defaultHarnessId && (
+                          <Check size={14} style={{ marginLeft: 'auto' }} />
+                        )}
+                      </DropdownMenu.Item>
+                    ))}
+                  </DropdownMenu.SubContent>
+                </DropdownMenu.Portal>
+              </DropdownMenu.Sub>
+            )}
 
-      <DropdownMenu.Portal>
-        <DropdownMenu.Content className="dropdown-content" sideOffset={4} align="end">
-          {selectable.length > 1 && (
-            <DropdownMenu.Sub>
-              <DropdownMenu.SubTrigger className="dropdown-item">
-                <Boxes size={14} />
-                <span>Default harness</span>
-                <ChevronRight size={14} style={{ marginLeft: 'auto' }} />
-              </DropdownMenu.SubTrigger>
-              <DropdownMenu.Portal>
-                <DropdownMenu.SubContent className="dropdown-content" sideOffset={4}>
-                  {selectable.map((harness) => (
+            {sideTaskCapable.length > 1 && (
+              <DropdownMenu.Sub>
+                <DropdownMenu.SubTrigger className="dropdown-item">
+                  <Wand2 size={14} />
+                  <span>Side task harness</span>
+                  <ChevronRight size={14} style={{ marginLeft: 'auto' }} />
+                </DropdownMenu.SubTrigger>
+                <DropdownMenu.Portal>
+                  <DropdownMenu.SubContent className="dropdown-content" sideOffset={4}>
                     <DropdownMenu.Item
-                      key={harness.id}
                       className="dropdown-item"
-                      onSelect={() =>
-                        updateWorkspace(workspaceId, { defaultHarnessId: harness.id })
-                      }
+                      onSelect={() => updateWorkspace(workspaceId, { sideTaskHarnessId: undefined })}
                     >
-                      <span
-                        className="workspace-harness-dot"
-                        style={{ background: harness.accentColor }}
-                      />
-                      <span>{harness.name}</span>
-                      {harness.id === defaultHarnessId && (
-                        <Check size={14} style={{ marginLeft: 'auto' }} />
-                      )}
+                      <span>Same as default</span>
+                      {!sideTaskHarnessId && <Check size={14} style={{ marginLeft: 'auto' }} />}
                     </DropdownMenu.Item>
-                  ))}
-                </DropdownMenu.SubContent>
-              </DropdownMenu.Portal>
-            </DropdownMenu.Sub>
-          )}
+                    <DropdownMenu.Separator className="dropdown-separator" />
+                    {sideTaskCapable.map((harness) => (
+                      <DropdownMenu.Item
+                        key={harness.id}
+                        className="dropdown-item"
+                        onSelect={() =>
+                          updateWorkspace(workspaceId, { sideTaskHarnessId: harness.id })
+                        }
+                      >
+                        <span
+                          className="workspace-harness-dot"
+                          style={{ background: harness.accentColor }}
+                        />
+                        <span>{harness.name}</span>
+                        {harness.id === sideTaskHarnessId && (
+                          <Check size={14} style={{ marginLeft: 'auto' }} />
+                        )}
+                      </DropdownMenu.Item>
+                    ))}
+                  </DropdownMenu.SubContent>
+                </DropdownMenu.Portal>
+              </DropdownMenu.Sub>
+            )}
 
-          <DropdownMenu.Item
-            className="dropdown-item dropdown-item-destructive"
-            onSelect={handleDelete}
-          >
-            <Trash2 size={14} />
-            <span>Delete workspace</span>
-          </DropdownMenu.Item>
-        </DropdownMenu.Content>
-      </DropdownMenu.Portal>
-    </DropdownMenu.Root>
+            {canImport && (
+              <DropdownMenu.Item className="dropdown-item" onSelect={() => setImportOpen(true)}>
+                <History size={14} />
+                <span>Import sessions…</span>
+              </DropdownMenu.Item>
+            )}
+
+            <DropdownMenu.Item className="dropdown-item" onSelect={() => setScheduleOpen(true)}>
+              <AlarmClock size={14} />
+              <span>Schedule prompt…</span>
+            </DropdownMenu.Item>
+
+            <DropdownMenu.Item
+              className="dropdown-item dropdown-item-destructive"
+              onSelect={handleDelete}
+            >
+              <Trash2 size={14} />
+              <span>Delete workspace</span>
+            </DropdownMenu.Item>
+          </DropdownMenu.Content>
+        </DropdownMenu.Portal>
+      </DropdownMenu.Root>
+      {workspace && (
+        <>
+          <ImportSessionsDialog workspace={workspace} open={importOpen} onOpenChange={setImportOpen} />
+          <SchedulePromptDialog workspace={workspace} open={scheduleOpen} onOpenChange={setScheduleOpen} />
+        </>
+      )}
+    </>
   );
 }
@@ -2,18 +2,15 @@ import * as Collapsible from '@radix-ui/react-collapsible';
 import { Folder, GitBranch, ChevronRight, ChevronDown, Plus } from 'lucide-react';
 import { useNavigationStore } from '../../stores/navigationStore';
 import { useWorkspaceStore, type Workspace } from '../../stores/workspaceStore';
+import { useSplitPaneStore } from '../../stores/splitPaneStore';
 import { WorkspaceActionsMenu } from './WorkspaceActionsMenu';
 import { SessionNavItem } from './SessionNavItem';
+import { generateSessionInstanceId } from '../../../shared/sessionInstanceId';
 
 interface WorkspaceNavItemProps {
   workspace: Workspace;
 }
 
-function generateSessionInstanceId(workspaceId: string): string {
-  const sessionId = Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
-  return `workspace-${workspaceId}-session-${sessionId}`;
-}
-
 export function WorkspaceNavItem({ workspace }: WorkspaceNavItemProps) {
   const isExpanded = useNavigationStore((state) => state.isWorkspaceExpanded(workspace.id));
   const toggleExpanded = useNavigationStore((state) => state.toggleWorkspaceExpanded);
@@ -24,6 +21,7 @@ export function WorkspaceNavItem({ workspace }: WorkspaceNavItemProps) {
 
   const deleteWorkspace = useWorkspaceStore((state) => state.deleteWorkspace);
   const createSession = useWorkspaceStore((state) => state.createSession);
+  const removeWorkspaceSplit = useSplitPaneStore((state) => state.removeWorkspace);
 
   const isActive = activeWorkspaceId === workspace.id && activeSessionId === null;
 
@@ -46,6 +44,7 @@ export function WorkspaceNavItem({ workspace }: WorkspaceNavItemProps) {
       setActiveWorkspace(null);
     }
     deleteWorkspace(workspace.id);
+    removeWorkspaceSplit(workspace.id);
   };
 
   const handleAddSession = (e: React.MouseEvent) => {
@@ -61,6 +60,7 @@ export function WorkspaceNavItem({ workspace }: WorkspaceNavItemProps) {
       // Quick-add takes the workspace's default; the picker on the new-session
       // screen is where another harness gets chosen.
       harnessId: workspace.defaultHarnessId,
+      kind: 'agent',
     });
 
     if (session) {
@@ -1,19 +1,25 @@
-import { Settings, Home, Plus } from 'lucide-react';
+import { Settings, Home, Layers, Plus, Search } from 'lucide-react';
 import * as Tooltip from '@radix-ui/react-tooltip';
 import { useNavigationStore } from '../../stores/navigationStore';
 import { useWorkspaceStore } from '../../stores/workspaceStore';
 import { useSettings } from '../../contexts/SettingsContext';
+import { useSearch } from '../../contexts/SearchContext';
 import { dialogBridge } from '../../services/dialogBridge';
 import { NavItem } from './NavItem';
+import { InboxSection } from './InboxSection';
 import { WorkspaceNavItem } from './WorkspaceNavItem';
 import './styles.css';
 
 export function Sidebar() {
   const isSidebarHidden = useNavigationStore((state) => state.isSidebarHidden);
   const setActiveWorkspace = useNavigationStore((state) => state.setActiveWorkspace);
+  const showHomeView = useNavigationStore((state) => state.showHomeView);
+  const isHomeOpen = useNavigationStore((state) => state.activeWorkspaceId === null);
+  const homeView = useNavigationStore((state) => state.homeView);
   const workspaces = useWorkspaceStore((state) => state.workspaces);
   const createWorkspace = useWorkspaceStore((state) => state.createWorkspace);
   const { openSettings } = useSettings();
+  const { openSearch } = useSearch();
 
   if (isSidebarHidden) {
     return null;
@@ -28,7 +34,7 @@ export function Sidebar() {
   };
 
   const handleGoHome = () => {
-    setActiveWorkspace(null);
+    showHomeView('welcome');
   };
 
   const newWorkspaceButton = (
@@ -44,9 +50,25 @@ export function Sidebar() {
           icon={<Home size={16} />}
           label="Home"
           onClick={handleGoHome}
+          isActive={isHomeOpen && homeView === 'welcome'}
+        />
+        <NavItem
+          icon={<Layers size={16} />}
+          label="Batch run"
+          onClick={() => showHomeView('batch')}
+          isActive={isHomeOpen && homeView === 'batch'}
+        />
+        <NavItem
+          icon={<Search size={16} />}
+          label="Search"
+          onClick={openSearch}
+          shortcut="⌘⇧F"
+          isActive={false}
         />
       </div>
 
+      <InboxSection />
+
       <div className="sidebar-section">
         <div className="sidebar-section-header">
           <span className="sidebar-section-title">Workspaces</span>
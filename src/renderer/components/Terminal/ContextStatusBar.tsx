@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import type { ContextStatus, HarnessLaunchFields } from '../../../shared/types';
+import { harnessBridge } from '../../services/harnessBridge';
+import { formatTokens } from '../../stores/usageStore';
+
+interface ContextStatusBarProps {
+    claudeSessionId: string;
+    harness: HarnessLaunchFields;
+}
+
+// How far short of auto-compaction to start warning, as a share of the window:
+// about one long turn's worth.
+const COMPACT_WARNING_FRACTION = 0.1;
+
+/** `claude-opus-4-1-20250805` → `Opus 4.1` */
+function formatModel(model: string): string {
+    const parts = model.replace(/^claude-/, '').replace(/-\d{8}$/, '').split('-');
+    const family = parts.find((part) => /^[a-z]+$/i.test(part));
+    const version = parts.filter((part) => /^\d+$/.test(part)).join('.');
+    if (!family) return model;
+    return `${family[0].toUpperCase()}${family.slice(1)}${version ? ` ${version}` : ''}`;
+}
+
+/**
+ * How full the conversation's context window is, above the terminal.
+ *
+ * Follows the transcript in the main process rather than reading the CLI's own
+ * footer, so it is known before the TUI says the window is full. Shows nothing
+ * until the first reply, when there is something to report.
+ */
+export function ContextStatusBar({ claudeSessionId, harness }: ContextStatusBarProps) {
+    const [status, setStatus] = useState<ContextStatus | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setStatus(null);
+
+        const unsubscribe = harnessBridge.onContextUpdate((message) => {
+            if (message.sessionId === claudeSessionId) setStatus(message.status);
+        });
+        harnessBridge
+            .watchContext(claudeSessionId, harness)
+            .then((current) => {
+                if (!cancelled && current) setStatus(current);
+            })
+            .catch((error) => {
+                console.error('Failed to follow context usage:', error);
+            });
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+            harnessBridge.unwatchContext(claudeSessionId);
+        };
+    }, [claudeSessionId, harness]);
+
+    if (!status) return null;
+
+    const fraction = Math.min(status.usedTokens / status.windowTokens, 1);
+    const compactSoon =
+        !status.compacted &&
+        status.usedTokens >=
+            status.autoCompactTokens - status.windowTokens * COMPACT_WARNING_FRACTION;
+    const tokensToCompact = Math.max(status.autoCompactTokens - status.usedTokens, 0);
+
+    return (
+        <div
+            className={`terminal-context-bar ${compactSoon ? 'terminal-context-bar--warning' : ''}`}
+            title={`Auto-compacts at about ${formatTokens(status.autoCompactTokens)} tokens`}
+        >
+            {status.model && (
+                <span className="terminal-context-model">{formatModel(status.model)}</span>
+            )}
+            {status.compacted ? (
+                <span className="terminal-context-label">
+                    Compacted — size known after the next reply
+                </span>
+            ) : (
+                <>
+                    <span className="terminal-context-meter" aria-hidden>
+                        <span
+                            className="terminal-context-meter-fill"
+                            style={{ width: `${fraction * 100}%` }}
+                        />
+                    </span>
+                    <span className="terminal-context-label">
+                        {formatTokens(status.usedTokens)} / {formatTokens(status.windowTokens)}{' '}
+                        ({Math.round(fraction * 100)}%)
+                    </span>
+                    {compactSoon && (
+                        <span className="terminal-context-warning">
+                            {tokensToCompact > 0
+                                ? `Auto-compact in ~${formatTokens(tokensToCompact)} tokens`
+                                : 'Auto-compact imminent'}
+                        </span>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, ListPlus, X } from 'lucide-react';
+import type { QueuedPrompt } from '../../../shared/types';
+import { useTerminalStore } from '../../stores/terminalStore';
+import { terminalBridge } from '../../services/terminalBridge';
+
+interface PromptQueueProps {
+    instanceId: string;
+}
+
+const EMPTY_QUEUE: QueuedPrompt[] = [];
+
+/**
+ * Follow-up prompts lined up for a session, below its terminal.
+ *
+ * The queue itself lives with the terminal in the main process, which submits
+ * the first item each time the agent finishes a turn and its composer is
+ * empty again. This only shows it and sends edits.
+ */
+export function PromptQueue({ instanceId }: PromptQueueProps) {
+    const queue = useTerminalStore((state) => state.promptQueues[instanceId] ?? EMPTY_QUEUE);
+    const [isAdding, setIsAdding] = useState(false);
+    const [draft, setDraft] = useState('');
+
+    const handleAdd = () => {
+        const text = draft.trim();
+        if (text) terminalBridge.queuePrompt(instanceId, text);
+        setDraft('');
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'Enter') {
+            event.preventDefault();
+            handleAdd();
+        } else if (event.key === 'Escape') {
+            setDraft('');
+            setIsAdding(false);
+        }
+    };
+
+    return (
+        <div className="terminal-queue">
+            {queue.length > 0 && (
+                <ol className="terminal-queue-list">
+                    {queue.map((item, index) => (
+                        <li key={item.id} className="terminal-queue-item">
+                            <span className="terminal-queue-position">{index + 1}</span>
+                            <span className="terminal-queue-text" title={item.text}>
+                                {item.text}
+                            </span>
+                            <button
+                                type="button"
+                                className="terminal-queue-button"
+                                onClick={() => terminalBridge.moveQueuedPrompt(instanceId, item.id, index - 1)}
+                                disabled={index === 0}
+                                aria-label="Move up"
+                            >
+                                <ChevronUp size={12} />
+                            </button>
+                            <button
+                                type="button"
+                                className="terminal-queue-button"
+                                onClick={() => terminalBridge.moveQueuedPrompt(instanceId, item.id, index + 1)}
+                                disabled={index === queue.length - 1}
+                                aria-label="Move down"
+                            >
+                                <ChevronDown size={12} />
+                            </button>
+                            <button
+                                type="button"
+                                className="terminal-queue-button"
+                                onClick={() => terminalBridge.removeQueuedPrompt(instanceId, item.id)}
+                                aria-label="Remove from queue"
+                            >
+                                <X size={12} />
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            {isAdding ? (
+                <input
+                    className="terminal-queue-input"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => {
+                        if (!draft.trim()) setIsAdding(false);
+                    }}
+                    placeholder="A prompt to send after the current turn — Enter to queue"
+                    autoFocus
+                />
+            ) : (
+                <button
+                    type="button"
+                    className="terminal-queue-add"
+                    onClick={() => setIsAdding(true)}
+                >
+                    <ListPlus size={12} />
+                    <span>Queue a follow-up</span>
+                </button>
+            )}
+        </div>
+    );
+}
@@ -1,14 +1,20 @@
+import { useEffect, useRef } from 'react';
 import { RotateCw, FilePlus, FileX } from 'lucide-react';
-import type { HarnessLaunchFields } from '../../../shared/types';
+import type { HarnessLaunchFields, SessionKind } from '../../../shared/types';
+import { driverReadsTranscripts } from '../../../shared/constants';
 import { useTerminalStore } from '../../stores/terminalStore';
 import { terminalBridge } from '../../services/terminalBridge';
 import { useTerminal } from './useTerminal';
 import { useTerminalFileDrop } from './useTerminalFileDrop';
+import { ContextStatusBar } from './ContextStatusBar';
+import { PromptQueue } from './PromptQueue';
 import '@xterm/xterm/css/xterm.css';
 import './styles.css';
 
 interface TerminalPanelProps {
     instanceId: string;
+    /** An agent conversation, or a plain shell in the workspace folder. */
+    kind: SessionKind;
     cwd: string;
     /** Session ID Consola assigned to this tab. */
     claudeSessionId: string;
@@ -16,6 +22,10 @@ interface TerminalPanelProps {
     resume: boolean;
     /** Binary, config directory and arguments from this session's harness. */
     harness: HarnessLaunchFields;
+    /** Whether to take keyboard focus once attached. Defaults to true. */
+    autoFocus?: boolean;
+    /** Bumped to move keyboard focus into this terminal. */
+    focusRequest?: number;
 }
 
 /**
@@ -26,19 +36,35 @@ interface TerminalPanelProps {
  */
 export function TerminalPanel({
     instanceId,
+    kind,
     cwd,
     claudeSessionId,
     resume,
     harness,
+    autoFocus = true,
+    focusRequest,
 }: TerminalPanelProps) {
     const { containerRef, focus } = useTerminal({
         instanceId,
+        kind,
         cwd,
         claudeSessionId,
         resume,
         harness,
+        autoFocus,
     });
 
+    // Only a new request moves focus: a pane remounting with the count it was
+    // left at must not steal focus from the pane that has it.
+    const lastFocusRequest = useRef(focusRequest);
+    useEffect(() => {
+        if (focusRequest === lastFocusRequest.current) return;
+        lastFocusRequest.current = focusRequest;
+        focus();
+        // `focus` is recreated every render; the request is what matters.
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [focusRequest]);
+
     const { isDragging, notice, dropProps } = useTerminalFileDrop({
         instanceId,
         cwd,
@@ -66,7 +92,11 @@ export function TerminalPanel({
                         type="button"
                         className="terminal-restart-button"
                         onClick={handleRestart}
-                        title="Claude exited — resume this conversation"
+                        title={
+                            kind === 'shell'
+                                ? 'Shell exited — start a new one'
+                                : 'Claude exited — resume this conversation'
+                        }
                     >
                         <RotateCw size={13} />
                         <span>Restart</span>
@@ -74,6 +104,10 @@ export function TerminalPanel({
                 </div>
             )}
 
+            {kind === 'agent' && driverReadsTranscripts(harness.driverId) && (
+                <ContextStatusBar claudeSessionId={claudeSessionId} harness={harness} />
+            )}
+
             {/*
               * The drop zone is the frame rather than the xterm box: xterm sizes
               * itself from that box, and an overlay inside it would be measured
@@ -101,6 +135,8 @@ export function TerminalPanel({
                     </div>
                 )}
             </div>
+
+            {kind === 'agent' && <PromptQueue instanceId={instanceId} />}
         </div>
     );
 }
@@ -4,7 +4,7 @@ import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
 import { Unicode11Addon } from '@xterm/addon-unicode11';
 import { WebglAddon } from '@xterm/addon-webgl';
-import type { HarnessLaunchFields } from '../../../shared/types';
+import type { HarnessLaunchFields, SessionKind } from '../../../shared/types';
 import { useSettingsStore } from '../../stores/settingsStore';
 import { useTerminalStore } from '../../stores/terminalStore';
 import { terminalBridge } from '../../services/terminalBridge';
@@ -12,12 +12,15 @@ import { buildXtermTheme, readTerminalFont, TERMINAL_FONT_FAMILY } from './xterm
 
 interface UseTerminalOptions {
     instanceId: string;
+    kind: SessionKind;
     cwd: string;
     claudeSessionId: string;
     /** Whether this tab has run before and should resume its conversation. */
     resume: boolean;
     /** Binary, config directory and arguments from this session's harness. */
     harness: HarnessLaunchFields;
+    /** Whether to take keyboard focus once attached to the PTY. */
+    autoFocus: boolean;
 }
 
 /**
@@ -29,10 +32,12 @@ interface UseTerminalOptions {
  */
 export function useTerminal({
     instanceId,
+    kind,
     cwd,
     claudeSessionId,
     resume,
     harness,
+    autoFocus,
 }: UseTerminalOptions) {
     const containerRef = useRef<HTMLDivElement>(null);
     const terminalRef = useRef<Terminal | null>(null);
@@ -129,6 +134,7 @@ export function useTerminal({
         terminalBridge
             .create({
                 instanceId,
+                kind,
                 cwd,
                 claudeSessionId,
                 resume,
@@ -147,7 +153,10 @@ export function useTerminal({
                     terminal.write(snapshot.replay);
                 }
                 setTerminalState(instanceId, { hasExited: snapshot.exited });
-                terminal.focus();
+                useTerminalStore.getState().setPromptQueue(instanceId, snapshot.queue);
+                // Panes tiled beside the active session attach alongside it,
+                // and would otherwise race it for focus.
+                if (autoFocus) terminal.focus();
             })
             .catch((error) => {
                 console.error('Failed to start terminal:', error);
@@ -174,7 +183,7 @@ export function useTerminal({
         };
         // The PTY identity is what matters here; theme and font are applied below.
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [instanceId, cwd, claudeSessionId, resume, setTerminalState]);
+    }, [instanceId, kind, cwd, claudeSessionId, resume, setTerminalState]);
 
     // Follow the app's light/dark setting without rebuilding the terminal.
     useEffect(() => {
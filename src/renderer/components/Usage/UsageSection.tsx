@@ -0,0 +1,173 @@
+import { useEffect, useMemo } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import type { TokenUsage } from '../../../shared/types';
+import { useWorkspaceStore, type Session } from '../../stores/workspaceStore';
+import { useHarnessStore } from '../../stores/harnessStore';
+import {
+  formatCost,
+  formatTokens,
+  sumUsage,
+  useUsageStore,
+} from '../../stores/usageStore';
+import './styles.css';
+
+// The sessions table lists the costliest; the totals above cover the rest.
+const MAX_LISTED_SESSIONS = 10;
+
+interface UsageRow {
+  key: string;
+  label: string;
+  detail?: string;
+  accentColor?: string;
+  sessionCount: number;
+  usage: TokenUsage;
+}
+
+function UsageTable({ title, rows }: { title: string; rows: UsageRow[] }) {
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="usage-table-group">
+      <div className="usage-table-heading">{title}</div>
+      <table className="usage-table">
+        <thead>
+          <tr>
+            <th />
+            <th>Sessions</th>
+            <th>Input</th>
+            <th>Output</th>
+            <th>Cache read</th>
+            <th>Cache write</th>
+            <th>Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td className="usage-table-label" title={row.detail}>
+                {row.accentColor && (
+                  <span className="usage-table-dot" style={{ background: row.accentColor }} />
+                )}
+                {row.label}
+              </td>
+              <td>{row.sessionCount}</td>
+              <td>{formatTokens(row.usage.inputTokens)}</td>
+              <td>{formatTokens(row.usage.outputTokens)}</td>
+              <td>{formatTokens(row.usage.cacheReadTokens)}</td>
+              <td>{formatTokens(row.usage.cacheWriteTokens)}</td>
+              <td className="usage-table-cost">{formatCost(row.usage.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * The Usage settings section.
+ *
+ * Totals are summed from each conversation's transcript, grouped by harness
+ * and by workspace, so a team sharing several config directories can see
+ * which login and which project the tokens go to.
+ */
+export function UsageSection() {
+  const workspaces = useWorkspaceStore((state) => state.workspaces);
+  const harnesses = useHarnessStore((state) => state.harnesses);
+  const usage = useUsageStore((state) => state.usage);
+  const isLoading = useUsageStore((state) => state.isLoading);
+  const refresh = useUsageStore((state) => state.refresh);
+
+  const sessions = useMemo(() => workspaces.flatMap((ws) => ws.sessions), [workspaces]);
+
+  // Read when the section is opened rather than kept current in the background.
+  useEffect(() => {
+    void refresh(useWorkspaceStore.getState().workspaces.flatMap((ws) => ws.sessions));
+  }, [refresh]);
+
+  const measured = sessions.filter((session) => usage[session.claudeSessionId]);
+
+  const toRow = (key: string, label: string, members: Session[]): UsageRow => ({
+    key,
+    label,
+    sessionCount: members.length,
+    usage: sumUsage(members.map((session) => usage[session.claudeSessionId])),
+  });
+
+  const harnessRows = harnesses
+    .map((harness) => ({
+      ...toRow(
+        harness.id,
+        harness.name,
+        measured.filter((session) => session.harnessId === harness.id)
+      ),
+      detail: harness.configDir || undefined,
+      accentColor: harness.accentColor,
+    }))
+    .filter((row) => row.sessionCount > 0)
+    .sort((a, b) => b.usage.costUsd - a.usage.costUsd);
+
+  const workspaceRows = workspaces
+    .map((workspace) => ({
+      ...toRow(
+        workspace.id,
+        workspace.name,
+        workspace.sessions.filter((session) => usage[session.claudeSessionId])
+      ),
+      detail: workspace.path,
+    }))
+    .filter((row) => row.sessionCount > 0)
+    .sort((a, b) => b.usage.costUsd - a.usage.costUsd);
+
+  const workspaceNames = new Map(workspaces.map((ws) => [ws.id, ws.name]));
+  const sessionRows = measured
+    .map((session) => ({
+      ...toRow(session.id, session.name || 'Untitled', [session]),
+      detail: workspaceNames.get(session.workspaceId),
+    }))
+    .sort((a, b) => b.usage.costUsd - a.usage.costUsd)
+    .slice(0, MAX_LISTED_SESSIONS);
+
+  const total = sumUsage(measured.map((session) => usage[session.claudeSessionId]));
+
+  return (
+    <div className="settings-modal-section">
+      <div className="usage-section-header">
+        <h2 className="settings-modal-section-title">Usage</h2>
+        <button
+          type="button"
+          className="usage-refresh-button"
+          onClick={() => void refresh(sessions)}
+          disabled={isLoading}
+          aria-label="Re-read usage"
+          title="Re-read usage"
+        >
+          {isLoading ? <Loader2 size={14} className="spinner" /> : <RefreshCw size={14} />}
+        </button>
+      </div>
+
+      <p className="usage-section-description">
+        Tokens recorded in each session's transcript. Costs are estimated at
+        the models' list prices, which is not what a subscription is billed.
+      </p>
+
+      {measured.length === 0 ? (
+        <p className="usage-section-description">
+          {isLoading ? 'Reading transcripts…' : 'No session has used any tokens yet.'}
+        </p>
+      ) : (
+        <>
+          <div className="usage-total">
+            <span className="usage-total-cost">{formatCost(total.costUsd)}</span>
+            <span className="usage-total-detail">
+              across {measured.length} {measured.length === 1 ? 'session' : 'sessions'}
+            </span>
+          </div>
+          <UsageTable title="By harness" rows={harnessRows} />
+          <UsageTable title="By workspace" rows={workspaceRows} />
+          <UsageTable title="Costliest sessions" rows={sessionRows} />
+        </>
+      )}
+    </div>
+  );
+}
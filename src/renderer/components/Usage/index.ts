@@ -0,0 +1 @@
+export { UsageSection } from './UsageSection';
@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import { Ban, Check, CircleDashed, Loader2, Play, Trash2, X } from 'lucide-react';
+import { driverRunsHeadless } from '../../../shared/constants';
+import type { BatchTargetStatus, HeadlessToolPolicy } from '../../../shared/types';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { isSelectableHarness, useHarnessStore } from '../../stores/harnessStore';
+import { formatCost } from '../../stores/usageStore';
+import { isBatchActive, useBatchStore, type Batch, type BatchTarget } from '../../stores/batchStore';
+import './styles.css';
+
+const TOOL_POLICIES: { value: HeadlessToolPolicy; label: string }[] = [
+  { value: 'none', label: 'No tools — answer from the prompt alone' },
+  { value: 'read-only', label: 'Read-only — read and search files' },
+  { value: 'edit', label: 'Edit — read and change files' },
+  { value: 'all', label: 'All tools — including shell commands' },
+];
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+const DEFAULT_CONCURRENCY = 3;
+
+const STATUS_LABELS: Record<BatchTargetStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+function StatusIcon({ status }: { status: BatchTargetStatus }) {
+  switch (status) {
+    case 'queued':
+      return <CircleDashed size={14} />;
+    case 'running':
+      return <Loader2 size={14} className="spinner" />;
+    case 'succeeded':
+      return <Check size={14} />;
+    case 'failed':
+      return <X size={14} />;
+    case 'cancelled':
+      return <Ban size={14} />;
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function BatchTargetRow({ target, workspaceName }: { target: BatchTarget; workspaceName: string }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const canExpand = Boolean(target.output);
+
+  return (
+    <>
+      <tr
+        className={`batch-run-row ${canExpand ? 'batch-run-row--expandable' : ''}`}
+        onClick={() => canExpand && setIsExpanded(!isExpanded)}
+      >
+        <td className="batch-run-workspace">{workspaceName}</td>
+        <td>
+          <span className={`batch-run-status batch-run-status--${target.status}`}>
+            <StatusIcon status={target.status} />
+            {STATUS_LABELS[target.status]}
+          </span>
+        </td>
+        <td className="batch-run-number">
+          {target.durationMs !== undefined ? formatDuration(target.durationMs) : ''}
+        </td>
+        <td className="batch-run-number">
+          {target.costUsd !== undefined ? formatCost(target.costUsd) : ''}
+        </td>
+        <td className="batch-run-output">
+          {target.status === 'running' ? target.activity : target.output?.split('\n')[0]}
+        </td>
+      </tr>
+      {isExpanded && (
+        <tr className="batch-run-detail">
+          <td colSpan={5}>
+            <pre>{target.output}</pre>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+function BatchResults({ batch }: { batch: Batch }) {
+  const workspaces = useWorkspaceStore((state) => state.workspaces);
+  const harnessName = useHarnessStore((state) => state.getHarness(batch.harnessId)?.name);
+  const cancelBatch = useBatchStore((state) => state.cancelBatch);
+  const removeBatch = useBatchStore((state) => state.removeBatch);
+  const isActive = isBatchActive(batch);
+  const finished = batch.targets.filter((t) => !['queued', 'running'].includes(t.status)).length;
+
+  return (
+    <section className="batch-run-results">
+      <div className="batch-run-results-header">
+        <div className="batch-run-results-title">
+          <span className="batch-run-results-prompt" title={batch.prompt}>
+            {batch.prompt}
+          </span>
+          <span className="batch-run-results-meta">
+            {[
+              new Date(batch.startedAt).toLocaleString(),
+              harnessName,
+              TOOL_POLICIES.find((p) => p.value === batch.toolPolicy)?.label.split(' — ')[0],
+              `${finished}/${batch.targets.length} finished`,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </span>
+        </div>
+        {isActive ? (
+          <button type="button" className="batch-run-action" onClick={() => cancelBatch(batch.id)}>
+            <Ban size={14} />
+            <span>Cancel</span>
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="batch-run-action"
+            onClick={() => removeBatch(batch.id)}
+            aria-label="Remove results"
+            title="Remove results"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      <table className="batch-run-table">
+        <thead>
+          <tr>
+            <th>Workspace</th>
+            <th>Status</th>
+            <th>Time</th>
+            <th>Cost</th>
+            <th>Output</th>
+          </tr>
+        </thead>
+        <tbody>
+          {batch.targets.map((target) => (
+            <BatchTargetRow
+              key={target.workspaceId}
+              target={target}
+              workspaceName={
+                workspaces.find((ws) => ws.id === target.workspaceId)?.name ?? 'Removed workspace'
+              }
+            />
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+/**
+ * Run one prompt headless in many workspaces at once — a dependency audit, or
+ * the same mechanical change across several repositories — and compare what
+ * each run answered.
+ */
+export function BatchRunView() {
+  const workspaces = useWorkspaceStore((state) => state.workspaces);
+  const harnesses = useHarnessStore((state) => state.harnesses);
+  const batches = useBatchStore((state) => state.batches);
+  const startBatch = useBatchStore((state) => state.startBatch);
+
+  const [prompt, setPrompt] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [toolPolicy, setToolPolicy] = useState<HeadlessToolPolicy>('read-only');
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [chosenHarnessId, setChosenHarnessId] = useState<string | null>(null);
+
+  // Batch runs need a one-shot mode, which not every driver has.
+  const candidates = harnesses.filter(
+    (harness) => isSelectableHarness(harness) && driverRunsHeadless(harness.driverId)
+  );
+  const harness = candidates.find((h) => h.id === chosenHarnessId) ?? candidates[0];
+
+  const toggle = (workspaceId: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(workspaceId)) next.delete(workspaceId);
+      else next.add(workspaceId);
+      return next;
+    });
+  };
+
+  const allSelected = workspaces.length > 0 && workspaces.every((ws) => selected.has(ws.id));
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(workspaces.map((ws) => ws.id)));
+  };
+
+  const handleRun = () => {
+    if (!harness) return;
+    if (
+      toolPolicy === 'all' &&
+      !window.confirm(
+        `Run with every tool allowed, shell commands included, in ${selected.size} workspaces? Nothing will ask before acting.`
+      )
+    ) {
+      return;
+    }
+    const batch = startBatch({
+      prompt: prompt.trim(),
+      toolPolicy,
+      harnessId: harness.id,
+      concurrency,
+      workspaceIds: workspaces.filter((ws) => selected.has(ws.id)).map((ws) => ws.id),
+    });
+    if (batch) setPrompt('');
+  };
+
+  return (
+    <div className="batch-run-view">
+      <div className="batch-run-content">
+        <h1 className="batch-run-title">Batch run</h1>
+        <p className="batch-run-description">
+          Run one prompt headless in several workspaces at once. Each gets its own
+          one-shot agent in its own folder; nothing asks for permission, so only the
+          tools you allow can be used.
+        </p>
+
+        <textarea
+          className="batch-run-prompt"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="e.g. List dependencies more than one major version behind."
+          rows={4}
+        />
+
+        <div className="batch-run-options">
+          <label className="batch-run-option">
+            <span>Tools</span>
+            <select
+              value={toolPolicy}
+              onChange={(e) => setToolPolicy(e.target.value as HeadlessToolPolicy)}
+            >
+              {TOOL_POLICIES.map((policy) => (
+                <option key={policy.value} value={policy.value}>
+                  {policy.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {candidates.length > 1 && (
+            <label className="batch-run-option">
+              <span>Harness</span>
+              <select value={harness?.id ?? ''} onChange={(e) => setChosenHarnessId(e.target.value)}>
+                {candidates.map((h) => (
+                  <option key={h.id} value={h.id}>
+                    {h.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="batch-run-option">
+            <span>At a time</span>
+            <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))}>
+              {CONCURRENCY_OPTIONS.map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="batch-run-workspaces">
+          {workspaces.length === 0 ? (
+            <div className="batch-run-empty">Add a workspace to run a batch in it.</div>
+          ) : (
+            <>
+              <label className="batch-run-workspace-item batch-run-workspace-all">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+                <span>Select all</span>
+              </label>
+              {workspaces.map((workspace) => (
+                <label key={workspace.id} className="batch-run-workspace-item">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(workspace.id)}
+                    onChange={() => toggle(workspace.id)}
+                  />
+                  <span>{workspace.name}</span>
+                  <span className="batch-run-workspace-path">{workspace.path}</span>
+                </label>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="batch-run-actions">
+          {!harness && <span className="batch-run-empty">No enabled harness can run headless.</span>}
+          <button
+            type="button"
+            className="batch-run-start"
+            onClick={handleRun}
+            disabled={!harness || !prompt.trim() || selected.size === 0}
+          >
+            <Play size={14} />
+            <span>Run in {selected.size} {selected.size === 1 ? 'workspace' : 'workspaces'}</span>
+          </button>
+        </div>
+
+        {batches.map((batch) => (
+          <BatchResults key={batch.id} batch={batch} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,21 @@
-import { useEffect, useMemo } from 'react';
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
 import { Group, Panel, Separator, useDefaultLayout } from 'react-resizable-panels';
-import { driverSupportsSessionNaming } from '../../../shared/constants';
-import { useWorkspaceStore } from '../../stores/workspaceStore';
-import { useHarnessStore } from '../../stores/harnessStore';
+import { Columns2, Rows2 } from 'lucide-react';
+import { sessionCwd, useWorkspaceStore } from '../../stores/workspaceStore';
+import {
+  useSplitPaneStore,
+  type PaneRef,
+  type SplitOrientation,
+} from '../../stores/splitPaneStore';
 import { usePreviewTabStore } from '../../stores/previewTabStore';
 import { useNavigationStore } from '../../stores/navigationStore';
 import { useGitStatusAutoRefresh } from '../../stores/gitStatusStore';
 import { useGitReviewStore } from '../../stores/gitReviewStore';
-import { harnessBridge } from '../../services/harnessBridge';
-import { TerminalPanel } from '../Terminal';
 import { PreviewPanel } from '../PreviewPanel';
 import { GitReviewPanel } from '../GitReviewPanel';
+import { SessionUsage } from './SessionUsage';
 import { PathDisplay } from './PathDisplay';
+import { SessionPane } from './SessionPane';
 import { FileExplorer } from '../FileExplorer';
 import './styles.css';
 
@@ -20,21 +24,84 @@ interface ContentViewProps {
   sessionId: string;
 }
 
-/** How often to check whether the CLI has written a summary for the session. */
-const SESSION_NAME_POLL_MS = 5000;
+const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+const paneFocusShortcut = isMac ? '⌥⌘←/→' : 'Ctrl+Alt+←/→';
+
+interface SplitPanesProps {
+  workspaceId: string;
+  orientation: SplitOrientation;
+  panes: PaneRef[];
+  focusRequests: Record<string, number>;
+  onPaneFocused: (index: number) => void;
+  onClosePane: (sessionId: string) => void;
+}
+
+/**
+ * The active session and the sessions tiled beside it.
+ *
+ * Sizes are remembered per workspace and per set of panes, so a split comes
+ * back the way it was left when its workspace is reopened.
+ */
+function SplitPanes({
+  workspaceId,
+  orientation,
+  panes,
+  focusRequests,
+  onPaneFocused,
+  onClosePane,
+}: SplitPanesProps) {
+  const { defaultLayout, onLayoutChanged } = useDefaultLayout({
+    id: `split-panes-${workspaceId}-${orientation}`,
+    panelIds: panes.map((pane) => pane.sessionId),
+    storage: localStorage,
+  });
+
+  return (
+    <Group
+      orientation={orientation}
+      defaultLayout={defaultLayout}
+      onLayoutChanged={onLayoutChanged}
+    >
+      {panes.map((pane, index) => (
+        <Fragment key={pane.sessionId}>
+          {index > 0 && <Separator className="resize-handle" />}
+          <Panel id={pane.sessionId} minSize="15%">
+            {/* Focus events bubble, so this hears the terminal inside take it. */}
+            <div className="split-pane" onFocus={() => onPaneFocused(index)}>
+              <SessionPane
+                workspaceId={pane.workspaceId}
+                sessionId={pane.sessionId}
+                autoFocus={index === 0}
+                focusRequest={focusRequests[pane.sessionId]}
+                showHeader
+                showWorkspaceName={pane.workspaceId !== workspaceId}
+                onClose={index > 0 ? () => onClosePane(pane.sessionId) : undefined}
+              />
+            </div>
+          </Panel>
+        </Fragment>
+      ))}
+    </Group>
+  );
+}
 
 export function ContentView({ workspaceId, sessionId }: ContentViewProps) {
   const isExplorerVisible = useNavigationStore((state) => state.isExplorerVisible);
   const toggleExplorer = useNavigationStore((state) => state.toggleExplorer);
   const isGitReviewOpen = useGitReviewStore((state) => state.isOpen);
 
+  const workspaces = useWorkspaceStore((state) => state.workspaces);
   const getWorkspace = useWorkspaceStore((state) => state.getWorkspace);
   const getSession = useWorkspaceStore((state) => state.getSession);
-  const updateSession = useWorkspaceStore((state) => state.updateSession);
   const openFile = usePreviewTabStore((state) => state.openFile);
   const hasOpenTabs = usePreviewTabStore((state) => state.tabs.length > 0);
   const activePreviewTabId = usePreviewTabStore((state) => state.activeTabId);
 
+  const split = useSplitPaneStore((state) => state.splits[workspaceId]);
+  const removePane = useSplitPaneStore((state) => state.removePane);
+  const setOrientation = useSplitPaneStore((state) => state.setOrientation);
+  const orientation = split?.orientation ?? 'horizontal';
+
   const { defaultLayout, onLayoutChanged } = useDefaultLayout({
     id: 'content-view-split',
     storage: localStorage,
@@ -45,77 +112,60 @@ export function ContentView({ workspaceId, sessionId }: ContentViewProps) {
   // Get active session
   const session = workspace ? getSession(workspaceId, sessionId) : undefined;
 
-  // Determine instanceId and cwd from workspace
+  // Determine instanceId and cwd; a session in a worktree has its own folder,
+  // and the explorer and git views follow it there.
   const instanceId = session?.instanceId ?? '';
-  const cwd = workspace?.path ?? '';
-
-  const sessionName = session?.name;
-  const claudeSessionId = session?.claudeSessionId;
-  const hasStarted = session?.hasStarted;
-  const harnessId = session?.harnessId;
-
-  // Launch settings are resolved from the registry on every render rather than
-  // copied onto the session, so editing a harness in Settings reaches its
-  // sessions the next time they start. `harnesses` is a dependency because
-  // getLaunchFields reads it, even though it is not referenced directly.
-  const harnesses = useHarnessStore((state) => state.harnesses);
-  const getLaunchFields = useHarnessStore((state) => state.getLaunchFields);
-  const launchFields = useMemo(
-    () => getLaunchFields(harnessId),
-    [getLaunchFields, harnessId, harnesses]
-  );
-  const supportsSessionNaming = driverSupportsSessionNaming(launchFields.driverId);
+  const cwd = workspace ? sessionCwd(workspace, session) : '';
+
+  // The active session always takes the first pane. Tiled sessions that have
+  // since been deleted, or that are the active one, are left out rather than
+  // pruned here, so the stored split is only ever changed by the user.
+  const panes = useMemo<PaneRef[]>(() => {
+    const tiled = (split?.panes ?? []).filter(
+      (pane) =>
+        pane.sessionId !== sessionId &&
+        workspaces.some(
+          (ws) =>
+            ws.id === pane.workspaceId && ws.sessions.some((s) => s.id === pane.sessionId)
+        )
+    );
+    return [{ workspaceId, sessionId }, ...tiled];
+  }, [split, workspaces, workspaceId, sessionId]);
+  const isSplit = panes.length > 1;
+
+  // Which pane last had keyboard focus, and a counter per pane that is bumped
+  // to send focus there.
+  const focusedPaneRef = useRef(0);
+  const [focusRequests, setFocusRequests] = useState<Record<string, number>>({});
 
   // Enable auto-refresh of git status on window focus
-  useGitStatusAutoRefresh(workspace?.isGitRepo ? workspace.path : null);
+  useGitStatusAutoRefresh(workspace?.isGitRepo ? cwd : null);
 
-  // Record that this tab has launched, so reopening it resumes the
-  // conversation instead of trying to create a session ID Claude already has.
+  // Move keyboard focus between panes. Listens in the capture phase because
+  // the focused terminal would otherwise consume the keystroke itself.
   useEffect(() => {
-    if (!hasStarted && sessionId) {
-      updateSession(workspaceId, sessionId, { hasStarted: true });
-    }
-  }, [hasStarted, sessionId, workspaceId, updateSession]);
-
-  // The CLI writes a summary for a conversation once it has content. Adopt it
-  // as the tab name, polling until it appears, and stop once the session is
-  // named. Drivers whose transcripts Consola cannot read never produce one, so
-  // they are skipped outright rather than polled forever.
-  useEffect(() => {
-    if (!claudeSessionId) return;
-    if (!supportsSessionNaming) return;
-    if (sessionName !== '' && sessionName !== 'New Session') return;
-
-    let cancelled = false;
-
-    const adoptName = () => {
-      harnessBridge
-        .getSessionName(claudeSessionId, launchFields)
-        .then((name) => {
-          if (cancelled || !name) return;
-          updateSession(workspaceId, sessionId, { name });
-        })
-        .catch(() => {
-          // Index not written yet; the next poll will pick it up.
-        });
-    };
+    if (!isSplit) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isMod = event.metaKey || event.ctrlKey;
+      if (!isMod || !event.altKey) return;
 
-    adoptName();
-    const timer = setInterval(adoptName, SESSION_NAME_POLL_MS);
+      let step = 0;
+      if (event.key === 'ArrowRight' || event.key === 'ArrowDown') step = 1;
+      if (event.key === 'ArrowLeft' || event.key === 'ArrowUp') step = -1;
+      if (step === 0) return;
 
-    return () => {
-      cancelled = true;
-      clearInterval(timer);
+      event.preventDefault();
+      event.stopPropagation();
+      const next = (focusedPaneRef.current + step + panes.length) % panes.length;
+      const target = panes[next].sessionId;
+      focusedPaneRef.current = next;
+      setFocusRequests((requests) => ({ ...requests, [target]: (requests[target] ?? 0) + 1 }));
     };
-  }, [
-    claudeSessionId,
-    sessionName,
-    sessionId,
-    workspaceId,
-    updateSession,
-    launchFields,
-    supportsSessionNaming,
-  ]);
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isSplit, panes]);
 
   if (!workspace || !session) {
     return (
@@ -145,9 +195,25 @@ export function ContentView({ workspaceId, sessionId }: ContentViewProps) {
             </>
           )}
         </h1>
-        {workspace.path && (
+        {isSplit && (
+          <button
+            type="button"
+            className="workspace-view-split-toggle"
+            onClick={() =>
+              setOrientation(workspaceId, orientation === 'horizontal' ? 'vertical' : 'horizontal')
+            }
+            title={`${
+              orientation === 'horizontal' ? 'Stack panes' : 'Place panes side by side'
+            } — ${paneFocusShortcut} moves between them`}
+            aria-label={orientation === 'horizontal' ? 'Stack panes' : 'Place panes side by side'}
+          >
+            {orientation === 'horizontal' ? <Rows2 size={14} /> : <Columns2 size={14} />}
+          </button>
+        )}
+        <SessionUsage workspace={workspace} session={session} />
+        {cwd && (
           <PathDisplay
-            path={workspace.path}
+            path={cwd}
             className="workspace-view-path"
             showExplorerToggle
             isExplorerVisible={isExplorerVisible}
@@ -174,13 +240,21 @@ export function ContentView({ workspaceId, sessionId }: ContentViewProps) {
             </>
           )}
           <Panel id="agent" defaultSize={isExplorerVisible ? "45%" : "60%"} minSize="20%">
-            <TerminalPanel
-              instanceId={instanceId}
-              cwd={cwd}
-              claudeSessionId={session.claudeSessionId}
-              resume={session.hasStarted}
-              harness={launchFields}
-            />
+            {isSplit ? (
+              <SplitPanes
+                key={`${workspaceId}-${orientation}`}
+                workspaceId={workspaceId}
+                orientation={orientation}
+                panes={panes}
+                focusRequests={focusRequests}
+                onPaneFocused={(index) => {
+                  focusedPaneRef.current = index;
+                }}
+                onClosePane={(closed) => removePane(workspaceId, closed)}
+              />
+            ) : (
+              <SessionPane workspaceId={workspaceId} sessionId={sessionId} />
+            )}
           </Panel>
           {hasOpenTabs && (
             <>
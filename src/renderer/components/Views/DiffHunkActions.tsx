@@ -0,0 +1,79 @@
+import { Loader2 } from 'lucide-react';
+import type { GitDiffHunk, GitLineAction } from '../../types/electron';
+import './styles.css';
+
+interface HunkActionButtonsProps {
+  staged: boolean;
+  disabled: boolean;
+  onAction: (action: GitLineAction) => void;
+}
+
+/** Staged changes can only be unstaged; the rest staged or thrown away. */
+function HunkActionButtons({ staged, disabled, onAction }: HunkActionButtonsProps) {
+  const actions: { action: GitLineAction; label: string }[] = staged
+    ? [{ action: 'unstage', label: 'Unstage' }]
+    : [{ action: 'stage', label: 'Stage' }, { action: 'discard', label: 'Discard' }];
+
+  return (
+    <span className="diff-hunk-actions">
+      {actions.map(({ action, label }) => (
+        <button
+          key={action}
+          className={`diff-hunk-action ${action === 'discard' ? 'danger' : ''}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onAction(action);
+          }}
+          disabled={disabled}
+        >
+          {label}
+        </button>
+      ))}
+    </span>
+  );
+}
+
+interface DiffHunkHeaderProps extends HunkActionButtonsProps {
+  hunk: GitDiffHunk;
+}
+
+/** The row above a hunk: its range, and what can be done with all of it. */
+export function DiffHunkHeader({ hunk, ...buttons }: DiffHunkHeaderProps) {
+  return (
+    <div className="diff-hunk-header">
+      <span className="diff-hunk-header-range">
+        @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+      </span>
+      <HunkActionButtons {...buttons} />
+    </div>
+  );
+}
+
+interface DiffSelectionBarProps extends HunkActionButtonsProps {
+  count: number;
+  error: string | null;
+  onClear: () => void;
+}
+
+/** What can be done with the lines picked from the gutter, and what went wrong last time. */
+export function DiffSelectionBar({ count, error, onClear, ...buttons }: DiffSelectionBarProps) {
+  if (count === 0 && !error) return null;
+
+  return (
+    <div className="diff-selection-bar">
+      {count > 0 && (
+        <>
+          <span className="diff-selection-bar-count">
+            {buttons.disabled && <Loader2 size={12} className="spinner" />}
+            {count} {count === 1 ? 'line' : 'lines'} selected
+          </span>
+          <HunkActionButtons {...buttons} />
+          <button className="diff-hunk-action" onClick={onClear} disabled={buttons.disabled}>
+            Clear
+          </button>
+        </>
+      )}
+      {error && <span className="diff-selection-bar-error">{error}</span>}
+    </div>
+  );
+}
@@ -1,17 +1,25 @@
-import { useState, useEffect, useMemo } from 'react';
+import { Fragment, useState, useEffect, useMemo, useCallback } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { Loader2 } from 'lucide-react';
 import { gitBridge } from '../../services/gitBridge';
-import type { GitDiffResult } from '../../types/electron';
+import type { GitDiffHunk, GitDiffResult } from '../../types/electron';
 import { getLanguageFromPath } from '../../utils/fileUtils';
 import { buildUnifiedDiff } from '../../utils/diffUtils';
 import { codeTheme } from '../../utils/codeTheme';
 import { useSelectAll } from '../../hooks/useSelectAll';
+import { useHunkSelection } from '../../hooks/useHunkSelection';
+import { DiffHunkHeader, DiffSelectionBar } from './DiffHunkActions';
+
+const NO_HUNKS: GitDiffHunk[] = [];
 
 interface DiffViewProps {
   rootPath: string;
   relativePath: string;
   staged: boolean;
+  /** Show the file's change in this commit instead, read-only */
+  commit?: string;
+  /** Where the file was before the commit renamed it */
+  oldPath?: string;
 }
 
 /**
@@ -48,19 +56,32 @@ function HighlightedLine({
   );
 }
 
-export function DiffView({ rootPath, relativePath, staged }: DiffViewProps) {
+export function DiffView({ rootPath, relativePath, staged, commit, oldPath }: DiffViewProps) {
   const [diffData, setDiffData] = useState<GitDiffResult | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const contentRef = useSelectAll<HTMLDivElement>();
 
   const language = useMemo(() => getLanguageFromPath(relativePath), [relativePath]);
+  const reloadDiff = useCallback(() => setReloadKey((key) => key + 1), []);
+  const selection = useHunkSelection(rootPath, relativePath, diffData?.hunks ?? NO_HUNKS, reloadDiff);
+  // Only changes still to commit can be staged or discarded
+  const isEditable = commit === undefined;
+
+  // Another file's diff is not worth showing while this one loads
+  useEffect(() => {
+    setDiffData(null);
+  }, [rootPath, relativePath, staged, commit]);
 
   useEffect(() => {
     setIsLoading(true);
     setError(null);
 
-    gitBridge.getDiff(rootPath, relativePath, staged)
+    const load = commit
+      ? gitBridge.getCommitDiff(rootPath, commit, relativePath, oldPath)
+      : gitBridge.getDiff(rootPath, relativePath, staged);
+    load
       .then((data) => {
         if (data) {
           setDiffData(data);
@@ -70,14 +91,15 @@ export function DiffView({ rootPath, relativePath, staged }: DiffViewProps) {
       })
       .catch((err) => setError(err.message))
       .finally(() => setIsLoading(false));
-  }, [rootPath, relativePath, staged]);
+  }, [rootPath, relativePath, staged, commit, oldPath, reloadKey]);
 
   const unifiedLines = useMemo(() => {
     if (!diffData) return [];
     return buildUnifiedDiff(diffData.oldContent, diffData.newContent, diffData.hunks);
   }, [diffData]);
 
-  if (isLoading) {
+  // Reloads after staging part of the file keep the diff on screen meanwhile
+  if (isLoading && !diffData) {
     return (
       <div className="diff-view loading">
         <Loader2 size={24} className="spinner" />
@@ -165,9 +187,23 @@ export function DiffView({ rootPath, relativePath, staged }: DiffViewProps) {
   return (
     <div className="diff-view" ref={contentRef} tabIndex={0}>
       <div className="diff-header">
-        <span className="diff-header-label">{staged ? 'Staged' : 'Modified'}</span>
-        <span className="diff-header-path">{relativePath}</span>
+        <span className="diff-header-label">
+          {commit ? commit.slice(0, 7) : staged ? 'Staged' : 'Modified'}
+        </span>
+        <span className="diff-header-path">
+          {oldPath ? `${oldPath} → ${relativePath}` : relativePath}
+        </span>
       </div>
+      {isEditable && (
+        <DiffSelectionBar
+          count={selection.selectedCount}
+          error={selection.error}
+          staged={staged}
+          disabled={selection.isWorking}
+          onAction={selection.applySelected}
+          onClear={selection.clearSelection}
+        />
+      )}
       <div className="diff-unified-content">
         {unifiedLines.map((line, idx) => {
           const lineClass = line.type === 'add'
@@ -183,19 +219,40 @@ export function DiffView({ rootPath, relativePath, staged }: DiffViewProps) {
               ? 'diff-unified-gutter-remove'
               : '';
 
+          const { hunkIndex, lineIndex } = line;
+          const inHunk = hunkIndex !== undefined && lineIndex !== undefined;
+          const isChange = isEditable && inHunk && line.type !== 'context';
+          const isSelected = isChange && selection.isSelected(hunkIndex, lineIndex);
+
           return (
-            <div key={idx} className={`diff-unified-line ${lineClass}`}>
-              <span className={`diff-unified-gutter ${gutterClass}`}>{gutter}</span>
-              <span className={`diff-unified-line-number ${line.oldLineNumber === undefined ? 'diff-unified-line-number-empty' : ''}`}>
-                {line.oldLineNumber ?? ''}
-              </span>
-              <span className={`diff-unified-line-number ${line.newLineNumber === undefined ? 'diff-unified-line-number-empty' : ''}`}>
-                {line.newLineNumber ?? ''}
-              </span>
-              <span className="diff-unified-line-content">
-                <HighlightedLine content={line.content} language={language} />
-              </span>
-            </div>
+            <Fragment key={idx}>
+              {isEditable && inHunk && lineIndex === 0 && (
+                <DiffHunkHeader
+                  hunk={diffData.hunks[hunkIndex]}
+                  staged={staged}
+                  disabled={selection.isWorking}
+                  onAction={(action) => selection.applyHunk(action, hunkIndex)}
+                />
+              )}
+              <div className={`diff-unified-line ${lineClass} ${isSelected ? 'selected' : ''}`}>
+                <span
+                  className={`diff-unified-gutter ${gutterClass} ${isChange ? 'selectable' : ''}`}
+                  onClick={isChange ? (e) => selection.toggleLine(hunkIndex, lineIndex, e.shiftKey) : undefined}
+                  title={isChange ? 'Select line (shift-click for a range)' : undefined}
+                >
+                  {gutter}
+                </span>
+                <span className={`diff-unified-line-number ${line.oldLineNumber === undefined ? 'diff-unified-line-number-empty' : ''}`}>
+                  {line.oldLineNumber ?? ''}
+                </span>
+                <span className={`diff-unified-line-number ${line.newLineNumber === undefined ? 'diff-unified-line-number-empty' : ''}`}>
+                  {line.newLineNumber ?? ''}
+                </span>
+                <span className="diff-unified-line-content">
+                  <HighlightedLine content={line.content} language={language} />
+                </span>
+              </div>
+            </Fragment>
           );
         })}
       </div>
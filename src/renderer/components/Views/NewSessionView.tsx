@@ -1,24 +1,30 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, ChevronDown } from 'lucide-react';
+import { Send, ChevronDown, GitBranch, SquareTerminal } from 'lucide-react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
-import { useWorkspaceStore, type Workspace } from '../../stores/workspaceStore';
+import { generateSessionInstanceId } from '../../../shared/sessionInstanceId';
+import { useWorkspaceStore, type SessionWorktree, type Workspace } from '../../stores/workspaceStore';
 import { useNavigationStore } from '../../stores/navigationStore';
 import { useTerminalStore } from '../../stores/terminalStore';
 import { isSelectableHarness, useHarnessStore } from '../../stores/harnessStore';
+import { gitBridge } from '../../services/gitBridge';
 import './styles.css';
 
 interface NewSessionViewProps {
   workspace: Workspace;
 }
 
-function generateSessionInstanceId(workspaceId: string): string {
-  const sessionId = Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
-  return `workspace-${workspaceId}-session-${sessionId}`;
+/** A fresh branch name for a session's worktree; the user may change it. */
+function generateWorktreeBranch(): string {
+  return `consola/session-${Date.now().toString(36)}`;
 }
 
 export function NewSessionView({ workspace }: NewSessionViewProps) {
   const [prompt, setPrompt] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Run the session in its own worktree, on a new branch
+  const [useWorktree, setUseWorktree] = useState(false);
+  const [worktreeBranch, setWorktreeBranch] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const workspaces = useWorkspaceStore((state) => state.workspaces);
@@ -43,6 +49,8 @@ export function NewSessionView({ workspace }: NewSessionViewProps) {
   useEffect(() => {
     textareaRef.current?.focus();
     setSelectedHarnessId(workspace.defaultHarnessId);
+    setUseWorktree(false);
+    setError(null);
   }, [workspace.id, workspace.defaultHarnessId]);
 
   // Auto-resize textarea
@@ -58,13 +66,33 @@ export function NewSessionView({ workspace }: NewSessionViewProps) {
     setActiveWorkspace(workspaceId);
   };
 
+  const handleToggleWorktree = (checked: boolean) => {
+    setUseWorktree(checked);
+    setError(null);
+    if (checked && !worktreeBranch) setWorktreeBranch(generateWorktreeBranch());
+  };
+
   const handleSubmit = async () => {
     const trimmedPrompt = prompt.trim();
     if (!trimmedPrompt || isSubmitting) return;
 
     setIsSubmitting(true);
+    setError(null);
 
     try {
+      // The worktree comes first: a session whose checkout failed would run
+      // in the shared folder it was meant to stay out of.
+      let worktree: SessionWorktree | undefined;
+      if (useWorktree) {
+        const branch = worktreeBranch.trim();
+        const result = await gitBridge.createWorktree(workspace.path, branch);
+        if (!result?.success || !result.path) {
+          setError(result?.error ?? 'Could not create the worktree');
+          return;
+        }
+        worktree = { path: result.path, branch };
+      }
+
       // Placeholder name until Claude writes a summary for the conversation,
       // which ContentView then adopts.
       const instanceId = generateSessionInstanceId(workspace.id);
@@ -75,6 +103,8 @@ export function NewSessionView({ workspace }: NewSessionViewProps) {
         // Fixed now and never changed: the conversation's transcript will live
         // in this harness's config directory, and resuming reads it back.
         harnessId: selectedHarness?.id ?? workspace.defaultHarnessId,
+        kind: 'agent',
+        worktree,
       });
 
       if (!session) {
@@ -89,13 +119,28 @@ export function NewSessionView({ workspace }: NewSessionViewProps) {
       // Set as active immediately
       setActiveSession(session.id);
 
-      // Clear the input
+      // Clear the input, and the branch so the next worktree gets its own
       setPrompt('');
+      setWorktreeBranch('');
+      setUseWorktree(false);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // A shell needs no prompt to start and is never renamed, so it is created
+  // and opened in one step under a fixed name.
+  const handleOpenShell = () => {
+    const session = createSession(workspace.id, {
+      name: 'Shell',
+      workspaceId: workspace.id,
+      instanceId: generateSessionInstanceId(workspace.id),
+      harnessId: workspace.defaultHarnessId,
+      kind: 'shell',
+    });
+    if (session) setActiveSession(session.id);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -185,16 +230,48 @@ export function NewSessionView({ workspace }: NewSessionViewProps) {
           <button
             className="new-session-submit"
             onClick={handleSubmit}
-            disabled={!prompt.trim() || isSubmitting}
+            disabled={!prompt.trim() || isSubmitting || (useWorktree && !worktreeBranch.trim())}
             aria-label="Send message"
           >
             <Send size={18} />
           </button>
         </div>
 
+        {workspace.isGitRepo && (
+          <div className="new-session-worktree">
+            <label className="new-session-worktree-toggle">
+              <input
+                type="checkbox"
+                checked={useWorktree}
+                onChange={(e) => handleToggleWorktree(e.target.checked)}
+                disabled={isSubmitting}
+              />
+              <GitBranch size={14} />
+              <span>Run in a new worktree{useWorktree ? ' on branch' : ''}</span>
+            </label>
+            {useWorktree && (
+              <input
+                className="new-session-worktree-branch"
+                value={worktreeBranch}
+                onChange={(e) => setWorktreeBranch(e.target.value)}
+                spellCheck={false}
+                aria-label="Branch name"
+                disabled={isSubmitting}
+              />
+            )}
+          </div>
+        )}
+
+        {error && <div className="new-session-error">{error}</div>}
+
         <div className="new-session-hint">
           Press <kbd>Enter</kbd> to send, <kbd>Shift + Enter</kbd> for new line
         </div>
+
+        <button className="new-session-shell" onClick={handleOpenShell}>
+          <SquareTerminal size={14} />
+          <span>Open a shell in {workspace.name}</span>
+        </button>
       </div>
     </div>
   );
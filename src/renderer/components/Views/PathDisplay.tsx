@@ -1,7 +1,11 @@
+import { useEffect, useState } from 'react';
 import * as Tooltip from '@radix-ui/react-tooltip';
-import { FolderTree, RotateCw, GitBranch, GitPullRequestDraft } from 'lucide-react';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import { Check, ChevronDown, FolderTree, RotateCw, GitBranch, GitPullRequestDraft } from 'lucide-react';
+import type { GitBranchInfo } from '../../types/electron';
 import { useGitStatusStore } from '../../stores/gitStatusStore';
 import { useGitReviewStore } from '../../stores/gitReviewStore';
+import { confirmBranchSwitch, formatAheadBehind, useGitBranchStore } from '../../stores/gitBranchStore';
 
 interface PathDisplayProps {
   path: string;
@@ -42,6 +46,93 @@ function truncatePath(fullPath: string): string {
   return `${firstPart}/.../${lastSegments}`;
 }
 
+// Stable, so the selector below does not hand React a new array each time
+const NO_BRANCHES: GitBranchInfo[] = [];
+
+interface BranchSwitcherProps {
+  path: string;
+  branch: string;
+}
+
+/**
+ * The checked-out branch, opening onto the others to switch to. Ahead/behind
+ * counts show how the branch stands against its upstream.
+ */
+function BranchSwitcher({ path, branch }: BranchSwitcherProps) {
+  const [error, setError] = useState<string | null>(null);
+  const branches = useGitBranchStore((state) => (state.rootPath === path ? state.branches : NO_BRANCHES));
+  const load = useGitBranchStore((state) => state.load);
+  const switchBranch = useGitBranchStore((state) => state.switchBranch);
+  const openReview = useGitReviewStore((state) => state.open);
+  const setSidebarTab = useGitReviewStore((state) => state.setSidebarTab);
+  const stats = useGitStatusStore((state) => state.stats);
+
+  // Reload alongside git status, which is when commits come and go
+  useEffect(() => {
+    load(path);
+  }, [path, branch, stats, load]);
+
+  const current = branches.find((b) => b.isCurrent);
+  const counts = current ? formatAheadBehind(current) : '';
+  const local = branches.filter((b) => !b.isRemote);
+  const remote = branches.filter((b) => b.isRemote);
+
+  const handleSwitch = async (target: GitBranchInfo) => {
+    if (target.isCurrent || !confirmBranchSwitch(path, target.name)) return;
+    setError(await switchBranch(path, target));
+  };
+
+  const renderItem = (target: GitBranchInfo) => (
+    <DropdownMenu.Item
+      key={target.name}
+      className="dropdown-item"
+      onSelect={() => handleSwitch(target)}
+    >
+      <span className="branch-switcher-name">{target.name}</span>
+      <span className="branch-switcher-counts">{formatAheadBehind(target)}</span>
+      {target.isCurrent && <Check size={14} />}
+    </DropdownMenu.Item>
+  );
+
+  return (
+    <DropdownMenu.Root onOpenChange={(open) => open && setError(null)}>
+      <DropdownMenu.Trigger asChild>
+        <button
+          className={`branch-switcher-trigger ${error ? 'branch-switcher-trigger--error' : ''}`}
+          title={error ?? 'Switch branch'}
+        >
+          <GitBranch size={14} className="git-branch-icon" />
+          <span className="git-branch-name">{branch}</span>
+          {counts && <span className="branch-switcher-counts">{counts}</span>}
+          <ChevronDown size={12} className="git-branch-icon" />
+        </button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content className="dropdown-content branch-switcher-content" sideOffset={4} align="end">
+          {local.map(renderItem)}
+          {remote.length > 0 && (
+            <>
+              <DropdownMenu.Separator className="dropdown-separator" />
+              <DropdownMenu.Label className="branch-switcher-label">Remote</DropdownMenu.Label>
+              {remote.map(renderItem)}
+            </>
+          )}
+          <DropdownMenu.Separator className="dropdown-separator" />
+          <DropdownMenu.Item
+            className="dropdown-item"
+            onSelect={() => {
+              setSidebarTab('branches');
+              openReview();
+            }}
+          >
+            Manage branches…
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
+
 export function PathDisplay({
   path,
   className,
@@ -87,12 +178,7 @@ export function PathDisplay({
         {/* Git branch and stats badge - show if it's a git repo */}
         {isGitRepo && (
           <div className="git-stats-badge">
-            {branch && (
-              <>
-                <GitBranch size={14} className="git-branch-icon" />
-                <span className="git-branch-name">{branch}</span>
-              </>
-            )}
+            {branch && <BranchSwitcher path={path} branch={branch} />}
             {stats.modifiedCount > 0 && (
               <>
                 <span className="git-stats-separator">·</span>
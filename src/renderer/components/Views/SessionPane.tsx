@@ -0,0 +1,158 @@
+import { useEffect, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { driverSupportsSessionNaming } from '../../../shared/constants';
+import { sessionCwd, useWorkspaceStore } from '../../stores/workspaceStore';
+import { useHarnessStore } from '../../stores/harnessStore';
+import { harnessBridge } from '../../services/harnessBridge';
+import { TerminalPanel } from '../Terminal';
+
+interface SessionPaneProps {
+  workspaceId: string;
+  sessionId: string;
+  /** Whether the terminal takes keyboard focus once it has attached. */
+  autoFocus?: boolean;
+  /** Bumped to move keyboard focus into this pane. */
+  focusRequest?: number;
+  /** Shown in a split, where each pane needs saying which session it is. */
+  showHeader?: boolean;
+  /** Also name the workspace in the header, for a session from elsewhere. */
+  showWorkspaceName?: boolean;
+  /** Closes the pane; the session itself keeps running. */
+  onClose?: () => void;
+}
+
+/** How often to check whether the CLI has written a summary for the session. */
+const SESSION_NAME_POLL_MS = 5000;
+
+/**
+ * One session's terminal, with the bookkeeping every visible session needs.
+ *
+ * A session on screen is marked as started and adopts the name its CLI writes,
+ * whether it is the workspace's active session or one tiled beside it.
+ */
+export function SessionPane({
+  workspaceId,
+  sessionId,
+  autoFocus = true,
+  focusRequest,
+  showHeader = false,
+  showWorkspaceName = false,
+  onClose,
+}: SessionPaneProps) {
+  const workspace = useWorkspaceStore((state) =>
+    state.workspaces.find((ws) => ws.id === workspaceId)
+  );
+  const session = workspace?.sessions.find((s) => s.id === sessionId);
+  const exists = session !== undefined;
+  const updateSession = useWorkspaceStore((state) => state.updateSession);
+
+  const cwd = workspace ? sessionCwd(workspace, session) : '';
+  const sessionName = session?.name;
+  const claudeSessionId = session?.claudeSessionId;
+  const hasStarted = session?.hasStarted;
+  const harnessId = session?.harnessId;
+  const isShell = session?.kind === 'shell';
+
+  // Launch settings are resolved from the registry on every render rather than
+  // copied onto the session, so editing a harness in Settings reaches its
+  // sessions the next time they start. `harnesses` is a dependency because
+  // getLaunchFields reads it, even though it is not referenced directly.
+  const harnesses = useHarnessStore((state) => state.harnesses);
+  const getLaunchFields = useHarnessStore((state) => state.getLaunchFields);
+  const launchFields = useMemo(
+    () => getLaunchFields(harnessId),
+    [getLaunchFields, harnessId, harnesses]
+  );
+  const supportsSessionNaming = driverSupportsSessionNaming(launchFields.driverId);
+
+  // Record that this tab has launched, so reopening it resumes the
+  // conversation instead of trying to create a session ID Claude already has.
+  useEffect(() => {
+    if (exists && !hasStarted) {
+      updateSession(workspaceId, sessionId, { hasStarted: true });
+    }
+  }, [exists, hasStarted, sessionId, workspaceId, updateSession]);
+
+  // The CLI writes a summary for a conversation once it has content. Adopt it
+  // as the tab name, polling until it appears, and stop once the session is
+  // named. Drivers whose transcripts Consola cannot read never produce one, so
+  // they are skipped outright rather than polled forever.
+  useEffect(() => {
+    if (!claudeSessionId) return;
+    if (isShell) return;
+    if (!supportsSessionNaming) return;
+    if (sessionName !== '' && sessionName !== 'New Session') return;
+
+    let cancelled = false;
+
+    const adoptName = () => {
+      harnessBridge
+        .getSessionName(claudeSessionId, launchFields)
+        .then((name) => {
+          if (cancelled || !name) return;
+          updateSession(workspaceId, sessionId, { name });
+        })
+        .catch(() => {
+          // Index not written yet; the next poll will pick it up.
+        });
+    };
+
+    adoptName();
+    const timer = setInterval(adoptName, SESSION_NAME_POLL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [
+    claudeSessionId,
+    sessionName,
+    sessionId,
+    workspaceId,
+    updateSession,
+    launchFields,
+    supportsSessionNaming,
+    isShell,
+  ]);
+
+  if (!workspace || !session) return null;
+
+  return (
+    <div className="session-pane">
+      {showHeader && (
+        <div className="session-pane-header">
+          <span className="session-pane-title">
+            {showWorkspaceName && (
+              <>
+                <span className="session-pane-workspace">{workspace.name}</span>
+                <span className="workspace-view-separator">/</span>
+              </>
+            )}
+            <span>{session.name}</span>
+          </span>
+          {onClose && (
+            <button
+              type="button"
+              className="session-pane-close"
+              onClick={onClose}
+              aria-label="Close pane"
+              title="Close pane"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      )}
+      <TerminalPanel
+        instanceId={session.instanceId}
+        kind={session.kind}
+        cwd={cwd}
+        claudeSessionId={session.claudeSessionId}
+        resume={session.hasStarted}
+        harness={launchFields}
+        autoFocus={autoFocus}
+        focusRequest={focusRequest}
+      />
+    </div>
+  );
+}
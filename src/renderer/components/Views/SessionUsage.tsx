@@ -0,0 +1,74 @@
+import { useEffect, useMemo } from 'react';
+import { Coins } from 'lucide-react';
+import type { TokenUsage } from '../../../shared/types';
+import type { Session, Workspace } from '../../stores/workspaceStore';
+import { useTerminalStore } from '../../stores/terminalStore';
+import {
+  formatCost,
+  formatTokens,
+  sumUsage,
+  totalTokens,
+  useUsageStore,
+} from '../../stores/usageStore';
+
+interface SessionUsageProps {
+  workspace: Workspace;
+  session: Session;
+}
+
+function describe(label: string, usage: TokenUsage): string {
+  return [
+    `${label}: ${formatCost(usage.costUsd)} (estimated)`,
+    `  Input ${formatTokens(usage.inputTokens)} · Output ${formatTokens(usage.outputTokens)}`,
+    `  Cache read ${formatTokens(usage.cacheReadTokens)} · Cache write ${formatTokens(
+      usage.cacheWriteTokens
+    )}`,
+  ].join('\n');
+}
+
+/**
+ * Tokens and estimated cost of the open session, for the content header.
+ *
+ * Re-read whenever the session goes idle, since a finished turn is when the
+ * transcript gains a reply's usage. The tooltip breaks it down and adds the
+ * workspace's total.
+ */
+export function SessionUsage({ workspace, session }: SessionUsageProps) {
+  const refresh = useUsageStore((state) => state.refresh);
+  const usage = useUsageStore((state) => state.usage);
+  const isBusy = useTerminalStore(
+    (state) => state.terminals[session.instanceId]?.isBusy ?? false
+  );
+
+  // The workspace total covers sessions that are not open, read once per visit.
+  useEffect(() => {
+    void refresh(workspace.sessions);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refresh, workspace.id]);
+
+  useEffect(() => {
+    if (isBusy) return;
+    void refresh([session]);
+  }, [refresh, session, isBusy]);
+
+  const sessionUsage = usage[session.claudeSessionId];
+  const workspaceUsage = useMemo(
+    () => sumUsage(workspace.sessions.map((s) => usage[s.claudeSessionId])),
+    [workspace.sessions, usage]
+  );
+
+  if (!sessionUsage || totalTokens(sessionUsage) === 0) return null;
+
+  return (
+    <span
+      className="workspace-view-usage"
+      title={`${describe('This session', sessionUsage)}\n${describe(
+        workspace.name,
+        workspaceUsage
+      )}`}
+    >
+      <Coins size={12} />
+      {formatTokens(totalTokens(sessionUsage))} tokens · {formatCost(sessionUsage.costUsd)}
+    </span>
+  );
+}
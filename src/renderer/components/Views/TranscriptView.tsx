@@ -0,0 +1,340 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ScrollArea } from '@radix-ui/themes';
+import {
+  AlertCircle,
+  Brain,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  RotateCw,
+  Search,
+  Wrench,
+} from 'lucide-react';
+import type { TranscriptBlock, TranscriptTurn } from '../../../shared/types';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { useHarnessStore } from '../../stores/harnessStore';
+import { useTerminalStore } from '../../stores/terminalStore';
+import type { TranscriptSource } from '../../stores/previewTabStore';
+import { harnessBridge } from '../../services/harnessBridge';
+import { CodeBlock, MarkdownRenderer } from '../Markdown';
+import { useSelectAll } from '../../hooks/useSelectAll';
+import './styles.css';
+
+interface TranscriptViewProps {
+  source: TranscriptSource;
+}
+
+/**
+ * The one-line gist of a tool call: the command, path or pattern it was
+ * given, whichever the tool takes.
+ */
+function summarizeToolInput(input: unknown): string {
+  if (typeof input !== 'object' || input === null) return '';
+  const fields = input as Record<string, unknown>;
+  for (const key of ['command', 'file_path', 'path', 'pattern', 'url', 'description']) {
+    const value = fields[key];
+    if (typeof value === 'string' && value) return value.split('\n')[0];
+  }
+  return '';
+}
+
+function blockText(block: TranscriptBlock): string {
+  switch (block.kind) {
+    case 'text':
+    case 'thinking':
+      return block.text;
+    case 'tool-use':
+      return `${block.name} ${JSON.stringify(block.input ?? '')}`;
+    case 'tool-result':
+      return block.content;
+  }
+}
+
+function turnMatches(turn: TranscriptTurn, query: string): boolean {
+  return turn.blocks.some((block) => blockText(block).toLowerCase().includes(query));
+}
+
+/**
+ * A block that shows only its heading until opened.
+ *
+ * Tool calls and thinking make up most of a long transcript; rendering every
+ * one of them highlighted up front would make the tab slow to open, and they
+ * are what a reader skims past.
+ */
+function ExpandableBlock({
+  icon,
+  title,
+  detail,
+  tone,
+  children,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  detail?: string;
+  tone?: 'error';
+  children: () => React.ReactNode;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className={`transcript-expandable ${tone === 'error' ? 'error' : ''}`}>
+      <button
+        type="button"
+        className="transcript-expandable-header"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        {icon}
+        <span className="transcript-expandable-title">{title}</span>
+        {detail && <span className="transcript-expandable-detail">{detail}</span>}
+      </button>
+      {isOpen && <div className="transcript-expandable-body">{children()}</div>}
+    </div>
+  );
+}
+
+function TranscriptBlockView({ block }: { block: TranscriptBlock }) {
+  switch (block.kind) {
+    case 'text':
+      return <MarkdownRenderer content={block.text} enableCommandHighlighting={false} />;
+    case 'thinking':
+      return (
+        <ExpandableBlock icon={<Brain size={12} />} title="Thinking">
+          {() => <MarkdownRenderer content={block.text} enableCommandHighlighting={false} />}
+        </ExpandableBlock>
+      );
+    case 'tool-use': {
+      const command = (block.input as { command?: unknown } | null)?.command;
+      return (
+        <ExpandableBlock
+          icon={<Wrench size={12} />}
+          title={block.name}
+          detail={summarizeToolInput(block.input)}
+        >
+          {() =>
+            typeof command === 'string' ? (
+              <CodeBlock code={command} language="bash" />
+            ) : (
+              <CodeBlock code={JSON.stringify(block.input, null, 2) ?? ''} language="json" />
+            )
+          }
+        </ExpandableBlock>
+      );
+    }
+    case 'tool-result':
+      return (
+        <ExpandableBlock
+          icon={block.isError ? <AlertCircle size={12} /> : <ChevronRight size={12} />}
+          title={block.isError ? 'Error' : 'Result'}
+          detail={block.content.split('\n')[0]}
+          tone={block.isError ? 'error' : undefined}
+        >
+          {() => (
+            <>
+              <CodeBlock code={block.content || '(empty)'} language="text" />
+              {block.truncated && (
+                <div className="transcript-truncated">Output shortened for display.</div>
+              )}
+            </>
+          )}
+        </ExpandableBlock>
+      );
+  }
+}
+
+function TranscriptTurnView({ turn, isTarget }: { turn: TranscriptTurn; isTarget: boolean }) {
+  // Tool results travel back as user messages, but nobody typed them.
+  const isToolOutput =
+    turn.role === 'user' && turn.blocks.every((block) => block.kind === 'tool-result');
+  const label = isToolOutput ? 'Tool output' : turn.role === 'user' ? 'You' : 'Assistant';
+  const time = turn.timestamp ? new Date(turn.timestamp).toLocaleTimeString() : '';
+
+  return (
+    <div
+      id={`transcript-turn-${turn.id}`}
+      className={`transcript-turn transcript-turn--${isToolOutput ? 'tool' : turn.role} ${
+        isTarget ? 'transcript-turn--target' : ''
+      }`}
+    >
+      <div className="transcript-turn-header">
+        <span className="transcript-turn-role">{label}</span>
+        {time && <span className="transcript-turn-time">{time}</span>}
+      </div>
+      <div className="transcript-turn-blocks">
+        {turn.blocks.map((block, index) => (
+          <TranscriptBlockView key={index} block={block} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A session's whole conversation, read from the CLI's own transcript.
+ *
+ * The terminal keeps only so much scrollback, and a conversation that has run
+ * for hours is easier to read and search as the turns the CLI recorded than as
+ * the screen it painted. The transcript is re-read each time the session goes
+ * idle, so an open tab keeps up with the conversation.
+ */
+export function TranscriptView({ source }: TranscriptViewProps) {
+  const [turns, setTurns] = useState<TranscriptTurn[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [reloadCount, setReloadCount] = useState(0);
+  const contentRef = useSelectAll<HTMLDivElement>();
+  const scrolledToTurn = useRef<string | undefined>(undefined);
+  // The conversation the turns on screen were read from.
+  const loadedSessionId = useRef<string | undefined>(undefined);
+
+  const session = useWorkspaceStore((state) =>
+    state.workspaces
+      .find((ws) => ws.id === source.workspaceId)
+      ?.sessions.find((s) => s.id === source.sessionId)
+  );
+  const claudeSessionId = session?.claudeSessionId;
+  const harnessId = session?.harnessId;
+
+  const harnesses = useHarnessStore((state) => state.harnesses);
+  const getLaunchFields = useHarnessStore((state) => state.getLaunchFields);
+  const launchFields = useMemo(
+    () => getLaunchFields(harnessId),
+    [getLaunchFields, harnessId, harnesses]
+  );
+
+  const isBusy = useTerminalStore((state) =>
+    session ? state.terminals[session.instanceId]?.isBusy ?? false : false
+  );
+
+  useEffect(() => {
+    if (!claudeSessionId) {
+      setIsLoading(false);
+      return;
+    }
+    // Still working: what is shown stays until the next idle reloads it. The
+    // first read does not wait, so a busy session's tab is not blank for a turn.
+    if (isBusy && loadedSessionId.current === claudeSessionId) return;
+
+    let cancelled = false;
+    setError(null);
+    harnessBridge
+      .getTranscript(claudeSessionId, launchFields)
+      .then((result) => {
+        if (cancelled) return;
+        loadedSessionId.current = claudeSessionId;
+        setTurns(result ?? []);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : `Failed to read transcript: ${err}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [claudeSessionId, launchFields, isBusy, reloadCount]);
+
+  // Bring the requested turn into view once, after the turns it is among have
+  // rendered. A later reload leaves the reader where they scrolled to.
+  useEffect(() => {
+    if (!turns || !source.turnId || scrolledToTurn.current === source.turnId) return;
+    scrolledToTurn.current = source.turnId;
+    document
+      .getElementById(`transcript-turn-${source.turnId}`)
+      ?.scrollIntoView({ block: 'start' });
+  }, [turns, source.turnId]);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleTurns = useMemo(() => {
+    if (!turns) return [];
+    if (!normalizedQuery) return turns;
+    return turns.filter((turn) => turnMatches(turn, normalizedQuery));
+  }, [turns, normalizedQuery]);
+
+  if (!session) {
+    return (
+      <div className="transcript-view transcript-view--centered">
+        <p>This session no longer exists.</p>
+      </div>
+    );
+  }
+
+  if (!claudeSessionId) {
+    return (
+      <div className="transcript-view transcript-view--centered">
+        <p>This session has no conversation to show yet.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="transcript-view transcript-view--centered">
+        <Loader2 className="spinner" size={24} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="transcript-view transcript-view--centered">
+        <AlertCircle size={32} color="var(--red-9)" />
+        <p>{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="transcript-view">
+      <div className="transcript-toolbar">
+        <Search size={14} className="transcript-search-icon" />
+        <input
+          type="text"
+          className="transcript-search-input"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search this conversation"
+        />
+        <span className="transcript-count">
+          {normalizedQuery
+            ? `${visibleTurns.length} of ${turns?.length ?? 0}`
+            : `${turns?.length ?? 0} turns`}
+        </span>
+        <button
+          type="button"
+          className="transcript-reload"
+          onClick={() => setReloadCount((count) => count + 1)}
+          aria-label="Reload transcript"
+          title="Reload transcript"
+        >
+          <RotateCw size={13} />
+        </button>
+      </div>
+
+      <ScrollArea className="transcript-scroll">
+        <div ref={contentRef} tabIndex={0} className="transcript-turns">
+          {visibleTurns.length === 0 ? (
+            <p className="transcript-empty">
+              {normalizedQuery
+                ? 'No turns match this search.'
+                : 'Nothing has been said in this conversation yet.'}
+            </p>
+          ) : (
+            visibleTurns.map((turn) => (
+              <TranscriptTurnView
+                key={turn.id}
+                turn={turn}
+                isTarget={turn.id === source.turnId}
+              />
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
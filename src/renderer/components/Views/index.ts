@@ -1,3 +1,4 @@
 export { HomeView } from './HomeView';
 export { ContentView } from './ContentView';
 export { NewSessionView } from './NewSessionView';
+export { BatchRunView } from './BatchRunView';
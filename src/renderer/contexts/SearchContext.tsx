@@ -0,0 +1,29 @@
+import { createContext, useContext, useState, type ReactNode } from 'react';
+import { TranscriptSearchDialog } from '../components/Dialogs/TranscriptSearchDialog';
+
+interface SearchContextType {
+  openSearch: () => void;
+}
+
+const SearchContext = createContext<SearchContextType | null>(null);
+
+export function SearchProvider({ children }: { children: ReactNode }) {
+  const [paletteOpen, setPaletteOpen] = useState(false);
+
+  const openSearch = () => setPaletteOpen(true);
+
+  return (
+    <SearchContext.Provider value={{ openSearch }}>
+      {children}
+      <TranscriptSearchDialog open={paletteOpen} onOpenChange={setPaletteOpen} />
+    </SearchContext.Provider>
+  );
+}
+
+export function useSearch() {
+  const context = useContext(SearchContext);
+  if (!context) {
+    throw new Error('useSearch must be used within a SearchProvider');
+  }
+  return context;
+}
@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import type { ConfirmationIntent } from '../../shared/types';
+import { useTerminalStore } from '../stores/terminalStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import { terminalBridge } from '../services/terminalBridge';
+
+/**
+ * Answer the first session waiting on a menu: the one the sidebar inbox lists
+ * first. Does nothing if no menu offers an option with that intent.
+ */
+function answerFirstWaiting(intent: ConfirmationIntent): void {
+  const { terminals } = useTerminalStore.getState();
+  for (const workspace of useWorkspaceStore.getState().workspaces) {
+    for (const session of workspace.sessions) {
+      const terminal = terminals[session.instanceId];
+      if (!terminal?.isAwaitingConfirmation) continue;
+      const choice = terminal.confirmationChoices.find((c) => c.intent === intent);
+      if (!choice) continue;
+      terminalBridge.answerConfirmation(session.instanceId, terminal.confirmationMenuId, choice);
+      return;
+    }
+  }
+}
+
+/**
+ * Approve or deny a waiting permission prompt from anywhere in the app,
+ * without opening the session it belongs to.
+ */
+export function useConfirmationShortcuts(): void {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isMod = event.metaKey || event.ctrlKey;
+      if (!isMod || !event.shiftKey) return;
+
+      const key = event.key.toLowerCase();
+      // Cmd/Ctrl + Shift + Y : Approve, Cmd/Ctrl + Shift + X : Deny
+      const intent: ConfirmationIntent | null = key === 'y' ? 'approve' : key === 'x' ? 'deny' : null;
+      if (!intent) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      answerFirstWaiting(intent);
+    };
+
+    // Capture phase, so a focused terminal does not take the keystroke first.
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+}
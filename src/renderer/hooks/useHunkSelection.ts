@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { GitDiffHunk, GitHunkSelection, GitLineAction } from '../types/electron';
+import { gitBridge } from '../services/gitBridge';
+import { useGitStatusStore } from '../stores/gitStatusStore';
+import { offerDiscardUndo } from '../utils/gitDiscard';
+
+const lineKey = (hunkIndex: number, lineIndex: number) => `${hunkIndex}:${lineIndex}`;
+
+function toSelection(hunks: GitDiffHunk[], hunkIndex: number, lines?: number[]): GitHunkSelection {
+  const { oldStart, oldLines, newStart, newLines } = hunks[hunkIndex];
+  return { hunkIndex, oldStart, oldLines, newStart, newLines, lines };
+}
+
+/**
+ * Changed lines picked out of a file's diff, and staging, unstaging or
+ * discarding them or whole hunks. Click a line's gutter to pick it, and
+ * shift-click to pick the run of changes up to it within the same hunk.
+ *
+ * `onApplied` runs once git has taken the change, to load the diff again; the
+ * picked lines are forgotten whenever the hunks change.
+ */
+export function useHunkSelection(
+  rootPath: string,
+  filePath: string,
+  hunks: GitDiffHunk[],
+  onApplied: () => void
+) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [anchor, setAnchor] = useState<{ hunkIndex: number; lineIndex: number } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelected(new Set());
+    setAnchor(null);
+  }, [hunks]);
+
+  const toggleLine = useCallback((hunkIndex: number, lineIndex: number, extend: boolean) => {
+    const line = hunks[hunkIndex]?.lines[lineIndex];
+    if (!line || line.type === 'context') return;
+
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (extend && anchor && anchor.hunkIndex === hunkIndex) {
+        const [from, to] = [anchor.lineIndex, lineIndex].sort((a, b) => a - b);
+        for (let i = from; i <= to; i++) {
+          if (hunks[hunkIndex].lines[i].type !== 'context') next.add(lineKey(hunkIndex, i));
+        }
+      } else {
+        const key = lineKey(hunkIndex, lineIndex);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+      }
+      return next;
+    });
+    setAnchor({ hunkIndex, lineIndex });
+  }, [hunks, anchor]);
+
+  const isSelected = useCallback(
+    (hunkIndex: number, lineIndex: number) => selected.has(lineKey(hunkIndex, lineIndex)),
+    [selected]
+  );
+
+  const clearSelection = useCallback(() => {
+    setSelected(new Set());
+    setAnchor(null);
+  }, []);
+
+  const apply = async (action: GitLineAction, selections: GitHunkSelection[], lineCount: number) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result = await gitBridge.applyHunks(rootPath, filePath, action, selections);
+      if (!result?.success) {
+        setError(result?.error ?? 'Git API not available');
+        return;
+      }
+      await useGitStatusStore.getState().refresh(rootPath);
+      onApplied();
+      // A discard is snapshotted first, and can be taken back for a while
+      if (result.snapshotId) {
+        const what = `${lineCount} changed ${lineCount === 1 ? 'line' : 'lines'} in ${filePath.split('/').pop()}`;
+        offerDiscardUndo(rootPath, result.snapshotId, what, onApplied);
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  /** Every change in one hunk. */
+  const applyHunk = (action: GitLineAction, hunkIndex: number) => {
+    const changes = hunks[hunkIndex].lines.filter((line) => line.type !== 'context').length;
+    return apply(action, [toSelection(hunks, hunkIndex)], changes);
+  };
+
+  /** The picked lines, across however many hunks they fall in. */
+  const applySelected = (action: GitLineAction) => {
+    const byHunk = new Map<number, number[]>();
+    for (const key of selected) {
+      const [hunkIndex, lineIndex] = key.split(':').map(Number);
+      byHunk.set(hunkIndex, [...(byHunk.get(hunkIndex) ?? []), lineIndex]);
+    }
+    const selections = [...byHunk].map(([hunkIndex, lines]) => toSelection(hunks, hunkIndex, lines));
+    return apply(action, selections, selected.size);
+  };
+
+  return {
+    selectedCount: selected.size,
+    isSelected,
+    toggleLine,
+    clearSelection,
+    applyHunk,
+    applySelected,
+    isWorking,
+    error,
+  };
+}
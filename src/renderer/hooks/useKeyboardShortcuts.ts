@@ -6,13 +6,14 @@ import type { ThemeMode } from '../stores/settingsStore';
 interface UseKeyboardShortcutsOptions {
   onNewSession?: () => void;
   onOpenSettings?: () => void;
+  onOpenSearch?: () => void;
 }
 
 export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {}) {
   const toggleSidebar = useNavigationStore((state) => state.toggleSidebar);
   const toggleExplorer = useNavigationStore((state) => state.toggleExplorer);
   const { theme, setTheme } = useSettingsStore();
-  const { onNewSession, onOpenSettings } = options;
+  const { onNewSession, onOpenSettings, onOpenSearch } = options;
 
   const toggleTheme = useCallback(() => {
     const themeOrder: ThemeMode[] = ['light', 'dark', 'system'];
@@ -53,6 +54,13 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
         return;
       }
 
+      // Cmd/Ctrl + Shift + F : Search every transcript
+      if (isMod && event.shiftKey && event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        onOpenSearch?.();
+        return;
+      }
+
       // Cmd/Ctrl + Shift + E : Toggle file explorer
       if (isMod && event.shiftKey && event.key === 'e') {
         event.preventDefault();
@@ -63,5 +71,5 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [toggleSidebar, toggleExplorer, toggleTheme, onNewSession, onOpenSettings]);
+  }, [toggleSidebar, toggleExplorer, toggleTheme, onNewSession, onOpenSettings, onOpenSearch]);
 }
@@ -0,0 +1,136 @@
+import { useEffect } from 'react';
+import type { ScheduledPromptSpec, ScheduleFiredMessage } from '../../shared/types';
+import { useScheduleStore } from '../stores/scheduleStore';
+import { sessionCwd, useWorkspaceStore } from '../stores/workspaceStore';
+import { useHarnessStore } from '../stores/harnessStore';
+import { useTerminalStore } from '../stores/terminalStore';
+import { scheduleBridge } from '../services/scheduleBridge';
+
+// Sidebar-sized; the full prompt is on the schedule.
+const SESSION_NAME_LENGTH = 40;
+
+/**
+ * Enabled schedules, resolved into what the main process needs to fire them.
+ * A schedule whose workspace or session is gone is left out.
+ */
+function buildSpecs(): ScheduledPromptSpec[] {
+  const { schedules } = useScheduleStore.getState();
+  const { getWorkspace } = useWorkspaceStore.getState();
+  const { getLaunchFields } = useHarnessStore.getState();
+  const specs: ScheduledPromptSpec[] = [];
+
+  for (const schedule of schedules) {
+    if (!schedule.enabled) continue;
+    const workspace = getWorkspace(schedule.workspaceId);
+    if (!workspace) continue;
+
+    const base = {
+      scheduleId: schedule.id,
+      prompt: schedule.prompt,
+      timing: schedule.timing,
+      workspaceId: workspace.id,
+      cwd: workspace.path,
+    };
+
+    if (!schedule.sessionId) {
+      specs.push({ ...base, harness: getLaunchFields(workspace.defaultHarnessId) });
+      continue;
+    }
+
+    const session = workspace.sessions.find((s) => s.id === schedule.sessionId);
+    if (!session || session.kind !== 'agent') continue;
+    specs.push({
+      ...base,
+      cwd: sessionCwd(workspace, session),
+      harness: getLaunchFields(session.harnessId),
+      session: {
+        instanceId: session.instanceId,
+        claudeSessionId: session.claudeSessionId,
+        resume: session.hasStarted,
+      },
+    });
+  }
+
+  return specs;
+}
+
+function sessionName(prompt: string): string {
+  const line = prompt.replace(/\s+/g, ' ').trim();
+  return line.length > SESSION_NAME_LENGTH ? `${line.slice(0, SESSION_NAME_LENGTH - 1)}…` : line;
+}
+
+/** Record a run, adding the session it started to the sidebar. */
+function handleFired(message: ScheduleFiredMessage): void {
+  const scheduleStore = useScheduleStore.getState();
+  const workspaceStore = useWorkspaceStore.getState();
+  const schedule = scheduleStore.schedules.find((s) => s.id === message.scheduleId);
+  const workspace = workspaceStore.getWorkspace(message.workspaceId);
+
+  let sessionId: string | null = null;
+  if (!message.error && workspace) {
+    if (message.isNewSession) {
+      const [session] = workspaceStore.importSessions(workspace.id, [
+        {
+          name: sessionName(schedule?.prompt ?? 'Scheduled prompt'),
+          instanceId: message.instanceId,
+          claudeSessionId: message.claudeSessionId,
+          harnessId: workspace.defaultHarnessId,
+          createdAt: message.firedAt,
+          lastActiveAt: message.firedAt,
+        },
+      ]);
+      sessionId = session?.id ?? null;
+    } else {
+      const session = workspace.sessions.find((s) => s.instanceId === message.instanceId);
+      if (session) {
+        workspaceStore.updateSession(workspace.id, session.id, {
+          hasStarted: true,
+          lastActiveAt: message.firedAt,
+        });
+        // The run restarts a session that had exited.
+        useTerminalStore.getState().setState(message.instanceId, { hasExited: false });
+        sessionId = session.id;
+      }
+    }
+  }
+
+  scheduleStore.recordRun({
+    scheduleId: message.scheduleId,
+    firedAt: message.firedAt,
+    workspaceId: message.workspaceId,
+    sessionId,
+    error: message.error,
+  });
+
+  // A one-off has done its job; keep it listed, but off.
+  if (schedule?.timing.kind === 'once') {
+    scheduleStore.updateSchedule(schedule.id, { enabled: false });
+  }
+}
+
+/**
+ * Keep the main process's scheduler in step with the schedules, and record
+ * each run it reports.
+ */
+export function useScheduledPrompts(): void {
+  useEffect(() => {
+    // Workspaces change on every session switch; only resend what matters.
+    let lastSent = '';
+    const sync = () => {
+      const specs = buildSpecs();
+      const serialized = JSON.stringify(specs);
+      if (serialized === lastSent) return;
+      lastSent = serialized;
+      scheduleBridge.sync(specs);
+    };
+
+    sync();
+    const unsubscribers = [
+      useScheduleStore.subscribe(sync),
+      useWorkspaceStore.subscribe(sync),
+      useHarnessStore.subscribe(sync),
+      scheduleBridge.onFired(handleFired),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+}
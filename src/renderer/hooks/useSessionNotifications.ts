@@ -0,0 +1,200 @@
+import { useEffect } from 'react';
+import { useTerminalStore, type TerminalState } from '../stores/terminalStore';
+import { useWorkspaceStore, type Session, type Workspace } from '../stores/workspaceStore';
+import { useNavigationStore } from '../stores/navigationStore';
+import { useSplitPaneStore } from '../stores/splitPaneStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useAttentionStore, type AttentionReason } from '../stores/attentionStore';
+import { appBridge } from '../services/appBridge';
+import { terminalBridge } from '../services/terminalBridge';
+
+const IDLE: TerminalState = {
+  isBusy: false,
+  isAwaitingConfirmation: false,
+  confirmationChoices: [],
+  confirmationMenuId: 0,
+  hasExited: false,
+  activeTool: null,
+};
+
+// What to do when a notification, or one of its buttons, is clicked; keyed by
+// the notification's tag, which is its session's instance ID.
+const notificationHandlers = new Map<string, (actionIndex?: number) => void>();
+
+function findSession(instanceId: string): { workspace: Workspace; session: Session } | null {
+  for (const workspace of useWorkspaceStore.getState().workspaces) {
+    const session = workspace.sessions.find((s) => s.instanceId === instanceId);
+    if (session) return { workspace, session };
+  }
+  return null;
+}
+
+/** Whether the session is in front of the user: in the focused window, in a pane. */
+function isOnScreen(sessionId: string): boolean {
+  if (!document.hasFocus()) return false;
+  const { activeWorkspaceId, activeSessionId } = useNavigationStore.getState();
+  if (!activeWorkspaceId || !activeSessionId) return false;
+  if (activeSessionId === sessionId) return true;
+  return useSplitPaneStore
+    .getState()
+    .getSplit(activeWorkspaceId)
+    .panes.some((pane) => pane.sessionId === sessionId);
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 ? `${minutes}m ${seconds % 60}s` : `${minutes}m`;
+}
+
+/** Open a session, as clicking it in the sidebar would, and raise the window. */
+export function focusSession(workspaceId: string, sessionId: string): void {
+  useNavigationStore.setState({ activeWorkspaceId: workspaceId, activeSessionId: sessionId });
+  useNavigationStore.getState().setWorkspaceExpanded(workspaceId, true);
+  appBridge.focusWindow();
+}
+
+function notify(reason: AttentionReason, workspace: Workspace, session: Session, detail?: string) {
+  const title =
+    reason === 'awaiting-confirmation'
+      ? 'Waiting for your answer'
+      : reason === 'finished'
+        ? 'Finished'
+        : 'Exited';
+  // A menu's options become buttons, so it can be answered from the notification.
+  // The menu is named with them: a button clicked after another menu replaced
+  // this one must not answer that one.
+  const terminal = useTerminalStore.getState().getState(session.instanceId);
+  const choices = reason === 'awaiting-confirmation' ? terminal.confirmationChoices : [];
+  const menuId = terminal.confirmationMenuId;
+
+  // One notification per session: a newer one replaces what it said before.
+  notificationHandlers.set(session.instanceId, (actionIndex) => {
+    const choice = actionIndex === undefined ? undefined : choices[actionIndex];
+    if (choice) terminalBridge.answerConfirmation(session.instanceId, menuId, choice);
+    else focusSession(workspace.id, session.id);
+  });
+  appBridge.notify({
+    tag: session.instanceId,
+    title: `${session.name || 'Untitled'} — ${title}`,
+    body: detail ? `${workspace.name} · ${detail}` : workspace.name,
+    actions: choices.map((choice) => choice.label),
+  });
+}
+
+/**
+ * Desktop notifications and the icon badge for sessions not on screen.
+ *
+ * Driven by the activity every terminal reports, whether or not its pane is
+ * mounted, so a session working in the background says when it is done or
+ * stuck on a menu. Which events notify is set in Settings; the badge counts
+ * the sessions flagged in `attentionStore`.
+ */
+export function useSessionNotifications(): void {
+  useEffect(() => {
+    // When each busy session started its current stretch of work.
+    const busySince = new Map<string, number>();
+    const { flag, clear } = useAttentionStore.getState();
+
+    // Flag a session that is off screen, notifying unless `quiet`.
+    const raise = (instanceId: string, reason: AttentionReason, detail?: string, quiet = false) => {
+      const owner = findSession(instanceId);
+      if (!owner || isOnScreen(owner.session.id)) return;
+      flag(instanceId, reason);
+      if (quiet) return;
+
+      const rules = useSettingsStore.getState().notificationRules;
+      const enabled =
+        reason === 'awaiting-confirmation'
+          ? rules.awaitingConfirmation
+          : reason === 'finished'
+            ? rules.finished
+            : rules.exited;
+      if (enabled) notify(reason, owner.workspace, owner.session, detail);
+    };
+
+    const unsubscribeTerminals = useTerminalStore.subscribe((state, previous) => {
+      for (const [instanceId, terminal] of Object.entries(state.terminals)) {
+        const before = previous.terminals[instanceId] ?? IDLE;
+        if (before === terminal) continue;
+
+        if (!before.isBusy && terminal.isBusy) {
+          busySince.set(instanceId, Date.now());
+        }
+        if (before.isBusy && !terminal.isBusy && !terminal.hasExited) {
+          const worked = Date.now() - (busySince.get(instanceId) ?? Date.now());
+          busySince.delete(instanceId);
+          // Every finished run lands in the inbox; only long ones are worth a notification.
+          const { finishedMinSeconds } = useSettingsStore.getState().notificationRules;
+          raise(
+            instanceId,
+            'finished',
+            `Worked for ${formatDuration(worked)}`,
+            worked < finishedMinSeconds * 1000
+          );
+        }
+
+        // A new menu can replace the last without the screen ever leaving one.
+        if (
+          terminal.isAwaitingConfirmation &&
+          (!before.isAwaitingConfirmation || before.confirmationChoices !== terminal.confirmationChoices)
+        ) {
+          raise(instanceId, 'awaiting-confirmation');
+        } else if (before.isAwaitingConfirmation && !terminal.isAwaitingConfirmation) {
+          clear(instanceId, 'awaiting-confirmation');
+        }
+
+        if (!before.hasExited && terminal.hasExited) {
+          busySince.delete(instanceId);
+          raise(instanceId, 'exited');
+        } else if (before.hasExited && !terminal.hasExited) {
+          clear(instanceId, 'exited');
+        }
+      }
+
+      // Closed sessions have nothing left to look at.
+      for (const instanceId of Object.keys(useAttentionStore.getState().flagged)) {
+        if (!state.terminals[instanceId]) clear(instanceId);
+      }
+    });
+
+    // A finished turn or an exit has been seen once its session is on screen.
+    // A waiting menu stays flagged until it is answered.
+    const clearSeen = () => {
+      for (const [instanceId, reason] of Object.entries(useAttentionStore.getState().flagged)) {
+        if (reason === 'awaiting-confirmation') continue;
+        const owner = findSession(instanceId);
+        if (!owner || isOnScreen(owner.session.id)) clear(instanceId);
+      }
+    };
+    const unsubscribeNavigation = useNavigationStore.subscribe(clearSeen);
+    const unsubscribeSplits = useSplitPaneStore.subscribe(clearSeen);
+    window.addEventListener('focus', clearSeen);
+
+    const updateBadge = () => {
+      const { badge } = useSettingsStore.getState().notificationRules;
+      const count = Object.keys(useAttentionStore.getState().flagged).length;
+      appBridge.setBadgeCount(badge ? count : 0);
+    };
+    const unsubscribeNotifications = appBridge.onNotificationEvent(({ tag, actionIndex }) => {
+      notificationHandlers.get(tag)?.(actionIndex);
+    });
+
+    const unsubscribeAttention = useAttentionStore.subscribe(updateBadge);
+    const unsubscribeSettings = useSettingsStore.subscribe(updateBadge);
+    updateBadge();
+
+    return () => {
+      unsubscribeTerminals();
+      unsubscribeNavigation();
+      unsubscribeSplits();
+      unsubscribeNotifications();
+      notificationHandlers.clear();
+      unsubscribeAttention();
+      unsubscribeSettings();
+      window.removeEventListener('focus', clearSeen);
+      appBridge.setBadgeCount(0);
+    };
+  }, []);
+}
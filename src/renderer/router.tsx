@@ -1,12 +1,15 @@
 import { createHashRouter } from 'react-router-dom';
 import { Layout } from './components/Layout';
 import { SettingsProvider } from './contexts/SettingsContext';
+import { SearchProvider } from './contexts/SearchContext';
 
 // Wrap Layout with providers that need router context
 function LayoutWithProviders() {
   return (
     <SettingsProvider>
-      <Layout />
+      <SearchProvider>
+        <Layout />
+      </SearchProvider>
     </SettingsProvider>
   );
 }
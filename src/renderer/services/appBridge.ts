@@ -0,0 +1,26 @@
+import type { AppNotification, AppNotificationEventMessage } from '../../shared/types';
+
+/**
+ * Bridge to the app shell in the main process: the icon badge, the window and
+ * desktop notifications.
+ */
+export const appBridge = {
+    /** Show a count on the dock or taskbar icon; zero clears it. */
+    setBadgeCount(count: number): void {
+        window.appAPI.setBadgeCount(count);
+    },
+
+    /** Bring the window forward, restoring it if minimized. */
+    focusWindow(): void {
+        window.appAPI.focusWindow();
+    },
+
+    /** Show a desktop notification, replacing any shown with the same tag. */
+    notify(notification: AppNotification): void {
+        window.appAPI.notify(notification);
+    },
+
+    onNotificationEvent(callback: (message: AppNotificationEventMessage) => void): () => void {
+        return window.appAPI.onNotificationEvent(callback);
+    },
+};
@@ -0,0 +1,20 @@
+import type { BatchRunRequest, BatchRunUpdateMessage } from '../../shared/types';
+
+/**
+ * Bridge to batch runs in the main process: one prompt run headless across
+ * several workspaces.
+ */
+export const batchBridge = {
+    start(request: BatchRunRequest): void {
+        window.batchAPI.start(request);
+    },
+
+    /** Stop a batch: running workspaces are killed, queued ones never start. */
+    cancel(batchId: string): void {
+        window.batchAPI.cancel(batchId);
+    },
+
+    onUpdate(callback: (message: BatchRunUpdateMessage) => void): () => void {
+        return window.batchAPI.onUpdate(callback);
+    },
+};
@@ -1,4 +1,13 @@
-import type { GitStatusResult, GitDiffResult } from '../types/electron';
+import type {
+  GitStatusResult,
+  GitDiffResult,
+  GitBranchInfo,
+  GitCommitFile,
+  GitCommitInfo,
+  GitHunkSelection,
+  GitLineAction,
+} from '../types/electron';
+import type { HarnessLaunchFields } from '../../shared/types';
 
 /**
  * Git Bridge - Isolates all window.gitAPI access to this single file.
@@ -56,6 +65,41 @@ export const gitBridge = {
     return api.unstageFile(rootPath, filePath);
   },
 
+  /**
+   * Stage, unstage or discard chosen hunks and lines of a file (git apply).
+   * A discard hands back the snapshot to undo it from.
+   */
+  applyHunks: async (
+    rootPath: string,
+    filePath: string,
+    action: GitLineAction,
+    selections: GitHunkSelection[]
+  ): Promise<{ success: boolean; error?: string; snapshotId?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.applyHunks(rootPath, filePath, action, selections);
+  },
+
+  /** Discard all changes to a file, deleting it if untracked; hands back the snapshot to undo from */
+  discardFile: async (rootPath: string, filePath: string): Promise<{ success: boolean; error?: string; snapshotId?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.discardFile(rootPath, filePath);
+  },
+
+  /** Undo a discard from its snapshot */
+  restoreDiscarded: async (snapshotId: string): Promise<{ success: boolean; error?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.restoreDiscarded(snapshotId);
+  },
+
   /** Create a commit */
   commit: async (rootPath: string, message: string): Promise<{ success: boolean; error?: string } | null> => {
     const api = getAPI();
@@ -74,12 +118,119 @@ export const gitBridge = {
     return api.getStagedDiff(rootPath);
   },
 
-  /** Generate a commit message using Claude */
-  generateCommitMessage: async (rootPath: string): Promise<{ message: string; error?: string } | null> => {
+  /** Local and remote branches, with ahead/behind counts */
+  listBranches: async (rootPath: string): Promise<GitBranchInfo[] | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.listBranches(rootPath);
+  },
+
+  /** Create a branch from HEAD and check it out */
+  createBranch: async (rootPath: string, name: string): Promise<{ success: boolean; error?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.createBranch(rootPath, name);
+  },
+
+  /** Check out a branch; a remote one gets a local branch tracking it */
+  switchBranch: async (rootPath: string, name: string, isRemote: boolean): Promise<{ success: boolean; error?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.switchBranch(rootPath, name, isRemote);
+  },
+
+  /** Rename a local branch */
+  renameBranch: async (rootPath: string, name: string, newName: string): Promise<{ success: boolean; error?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.renameBranch(rootPath, name, newName);
+  },
+
+  /** Delete a local branch; `force` deletes one that is not merged */
+  deleteBranch: async (rootPath: string, name: string, force: boolean): Promise<{ success: boolean; error?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.deleteBranch(rootPath, name, force);
+  },
+
+  /** Commits from HEAD back, newest first; only those touching `filePath` when given */
+  getLog: async (rootPath: string, filePath?: string, skip?: number, limit?: number): Promise<GitCommitInfo[] | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.getLog(rootPath, filePath, skip, limit);
+  },
+
+  /** Files a commit changed */
+  getCommitFiles: async (rootPath: string, hash: string): Promise<GitCommitFile[] | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.getCommitFiles(rootPath, hash);
+  },
+
+  /** One file's diff in a commit, against its first parent */
+  getCommitDiff: async (rootPath: string, hash: string, filePath: string, oldPath?: string): Promise<GitDiffResult | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.getCommitDiff(rootPath, hash, filePath, oldPath);
+  },
+
+  /** Check out a new branch from HEAD into its own worktree */
+  createWorktree: async (rootPath: string, branch: string): Promise<{ success: boolean; error?: string; path?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.createWorktree(rootPath, branch);
+  },
+
+  /** Merge a worktree's branch into the main checkout, then remove both */
+  mergeWorktree: async (rootPath: string, worktreePath: string, branch: string): Promise<{ success: boolean; error?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.mergeWorktree(rootPath, worktreePath, branch);
+  },
+
+  /** Remove a worktree and its branch without merging */
+  removeWorktree: async (rootPath: string, worktreePath: string, branch: string): Promise<{ success: boolean; error?: string } | null> => {
+    const api = getAPI();
+    if (!api) {
+      return null;
+    }
+    return api.removeWorktree(rootPath, worktreePath, branch);
+  },
+
+  /**
+   * Generate a commit message headless on the given harness, or the built-in
+   * when absent. Pass a task ID to follow its progress and cancel it through
+   * `harnessBridge`.
+   */
+  generateCommitMessage: async (
+    rootPath: string,
+    taskId?: string,
+    harness?: HarnessLaunchFields
+  ): Promise<{ message: string; error?: string } | null> => {
     const api = getAPI();
     if (!api) {
       return null;
     }
-    return api.generateCommitMessage(rootPath);
+    return api.generateCommitMessage(rootPath, taskId, harness);
   },
 };
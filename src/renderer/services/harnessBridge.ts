@@ -1,4 +1,14 @@
-import type { HarnessLaunchFields, HarnessProbeResult } from '../../shared/types';
+import type {
+    ContextStatus,
+    ContextUpdateMessage,
+    HarnessLaunchFields,
+    HarnessProbeResult,
+    HeadlessProgressMessage,
+    ImportableSession,
+    TokenUsage,
+    TranscriptSearchHit,
+    TranscriptTurn,
+} from '../../shared/types';
 
 /**
  * Bridge to harness inspection in the main process.
@@ -22,4 +32,75 @@ export const harnessBridge = {
     getSessionName(sessionId: string, fields: HarnessLaunchFields): Promise<string | null> {
         return window.harnessAPI.getSessionName(sessionId, fields);
     },
+
+    /**
+     * A session's whole conversation, parsed in the main process.
+     *
+     * Read on demand rather than streamed: the transcript is the CLI's, and
+     * re-reading it is how the viewer catches up with a conversation that has
+     * moved on.
+     */
+    getTranscript(sessionId: string, fields: HarnessLaunchFields): Promise<TranscriptTurn[] | null> {
+        return window.harnessAPI.getTranscript(sessionId, fields);
+    },
+
+    /** Turns containing the query across every given harness's transcripts. */
+    searchTranscripts(
+        query: string,
+        harnesses: HarnessLaunchFields[]
+    ): Promise<TranscriptSearchHit[]> {
+        return window.harnessAPI.searchTranscripts(query, harnesses);
+    },
+
+    /** Conversations a harness holds that were started in or under a folder. */
+    listProjectSessions(
+        projectPath: string,
+        fields: HarnessLaunchFields
+    ): Promise<ImportableSession[]> {
+        return window.harnessAPI.listProjectSessions(projectPath, fields);
+    },
+
+    /** Copy a conversation under a new ID, through a turn or whole. */
+    forkSession(
+        sessionId: string,
+        newSessionId: string,
+        fields: HarnessLaunchFields,
+        throughTurnId?: string
+    ): Promise<void> {
+        return window.harnessAPI.forkSession(sessionId, newSessionId, fields, throughTurnId);
+    },
+
+    /** Usage of sessions on one harness, keyed by session ID. */
+    getUsage(
+        sessionIds: string[],
+        fields: HarnessLaunchFields
+    ): Promise<Record<string, TokenUsage>> {
+        return window.harnessAPI.getUsage(sessionIds, fields);
+    },
+
+    /**
+     * Follow a session's context usage. Resolves to the current status; each
+     * call must be paired with `unwatchContext`.
+     */
+    watchContext(sessionId: string, fields: HarnessLaunchFields): Promise<ContextStatus | null> {
+        return window.harnessAPI.watchContext(sessionId, fields);
+    },
+
+    unwatchContext(sessionId: string): void {
+        window.harnessAPI.unwatchContext(sessionId);
+    },
+
+    onContextUpdate(callback: (message: ContextUpdateMessage) => void): () => void {
+        return window.harnessAPI.onContextUpdate(callback);
+    },
+
+    /** Stop a headless side task, such as commit-message generation. */
+    cancelHeadless(taskId: string): void {
+        window.harnessAPI.cancelHeadless(taskId);
+    },
+
+    /** What headless side tasks are doing as their output streams in. */
+    onHeadlessProgress(callback: (message: HeadlessProgressMessage) => void): () => void {
+        return window.harnessAPI.onHeadlessProgress(callback);
+    },
 };
@@ -0,0 +1,16 @@
+import type { ScheduledPromptSpec, ScheduleFiredMessage } from '../../shared/types';
+
+/**
+ * Bridge to the scheduler in the main process, which fires prompts while the
+ * window may be busy elsewhere or hidden.
+ */
+export const scheduleBridge = {
+    /** Replace the schedules the main process fires. */
+    sync(specs: ScheduledPromptSpec[]): void {
+        window.scheduleAPI.sync(specs);
+    },
+
+    onFired(callback: (message: ScheduleFiredMessage) => void): () => void {
+        return window.scheduleAPI.onFired(callback);
+    },
+};
@@ -1,10 +1,13 @@
 import type {
+    ConfirmationChoice,
     TerminalCreateOptions,
     TerminalSnapshot,
     TerminalDataMessage,
     TerminalActivityMessage,
     TerminalAwaitingConfirmationMessage,
     TerminalExitMessage,
+    TerminalHookEventMessage,
+    TerminalQueueMessage,
 } from '../../shared/types';
 
 /**
@@ -41,6 +44,37 @@ export const terminalBridge = {
         window.terminalAPI.destroy(instanceId);
     },
 
+    /** The last non-blank lines on a session's screen; empty if it has no terminal. */
+    getScreenTail(instanceId: string, lineCount: number): Promise<string[]> {
+        return window.terminalAPI.getScreenTail(instanceId, lineCount);
+    },
+
+    /**
+     * Answer menu `menuId` on a session's screen. Resolves false when another
+     * menu has replaced it or that option is no longer on screen, so nothing
+     * was sent.
+     */
+    answerConfirmation(
+        instanceId: string,
+        menuId: number,
+        choice: ConfirmationChoice
+    ): Promise<boolean> {
+        return window.terminalAPI.answerConfirmation(instanceId, menuId, choice);
+    },
+
+    /** Add a prompt to the end of a session's queue. */
+    queuePrompt(instanceId: string, text: string): void {
+        window.terminalAPI.queuePrompt(instanceId, text);
+    },
+
+    removeQueuedPrompt(instanceId: string, id: string): void {
+        window.terminalAPI.removeQueuedPrompt(instanceId, id);
+    },
+
+    moveQueuedPrompt(instanceId: string, id: string, toIndex: number): void {
+        window.terminalAPI.moveQueuedPrompt(instanceId, id, toIndex);
+    },
+
     onData(callback: (message: TerminalDataMessage) => void): () => void {
         return window.terminalAPI.onData(callback);
     },
@@ -58,4 +92,13 @@ export const terminalBridge = {
     onExit(callback: (message: TerminalExitMessage) => void): () => void {
         return window.terminalAPI.onExit(callback);
     },
+
+    /** Lifecycle events from agents that report through hooks. */
+    onHookEvent(callback: (message: TerminalHookEventMessage) => void): () => void {
+        return window.terminalAPI.onHookEvent(callback);
+    },
+
+    onQueue(callback: (message: TerminalQueueMessage) => void): () => void {
+        return window.terminalAPI.onQueue(callback);
+    },
 };
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+
+/** Why a session is waiting on the user. */
+export type AttentionReason = 'awaiting-confirmation' | 'finished' | 'exited';
+
+interface AttentionState {
+  // Sessions waiting on the user, keyed by terminal instance ID. A menu stays
+  // flagged until it is answered; a finished turn or an exit until the session
+  // is looked at.
+  flagged: Record<string, AttentionReason>;
+  flag: (instanceId: string, reason: AttentionReason) => void;
+  // Clear a session's flag, or only a flag raised for the given reason
+  clear: (instanceId: string, reason?: AttentionReason) => void;
+}
+
+export const useAttentionStore = create<AttentionState>((set) => ({
+  flagged: {},
+
+  flag: (instanceId, reason) =>
+    set((state) =>
+      state.flagged[instanceId] === reason
+        ? state
+        : { flagged: { ...state.flagged, [instanceId]: reason } }
+    ),
+
+  clear: (instanceId, reason) =>
+    set((state) => {
+      const current = state.flagged[instanceId];
+      if (!current || (reason && current !== reason)) return state;
+      const { [instanceId]: _cleared, ...rest } = state.flagged;
+      return { flagged: rest };
+    }),
+}));
@@ -0,0 +1,109 @@
+import { create } from 'zustand';
+import type { BatchTargetStatus, HeadlessToolPolicy } from '../../shared/types';
+import { batchBridge } from '../services/batchBridge';
+import { useHarnessStore } from './harnessStore';
+import { useWorkspaceStore } from './workspaceStore';
+
+export interface BatchTarget {
+  workspaceId: string;
+  status: BatchTargetStatus;
+  output?: string;
+  // While running: what the agent is doing now
+  activity?: string;
+  costUsd?: number;
+  durationMs?: number;
+}
+
+export interface Batch {
+  id: string;
+  prompt: string;
+  toolPolicy: HeadlessToolPolicy;
+  harnessId: string;
+  startedAt: number;
+  targets: BatchTarget[];
+}
+
+interface BatchState {
+  // Most recent first
+  batches: Batch[];
+  startBatch: (input: {
+    prompt: string;
+    toolPolicy: HeadlessToolPolicy;
+    harnessId: string;
+    concurrency: number;
+    workspaceIds: string[];
+  }) => Batch | undefined;
+  cancelBatch: (id: string) => void;
+  removeBatch: (id: string) => void;
+  // Follow batch progress from the main process; returns the unsubscribe.
+  subscribeToEvents: () => () => void;
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
+}
+
+/** Whether any workspace in the batch has yet to finish. */
+export function isBatchActive(batch: Batch): boolean {
+  return batch.targets.some((target) => target.status === 'queued' || target.status === 'running');
+}
+
+/**
+ * Batch runs: one prompt run headless in several workspaces at once.
+ *
+ * Results are kept for the app's lifetime only. What a batch changed lives in
+ * the repositories themselves; this is just the report.
+ */
+export const useBatchStore = create<BatchState>()((set, get) => ({
+  batches: [],
+
+  startBatch: ({ prompt, toolPolicy, harnessId, concurrency, workspaceIds }) => {
+    const { getWorkspace } = useWorkspaceStore.getState();
+    const workspaces = workspaceIds.flatMap((id) => getWorkspace(id) ?? []);
+    if (!prompt.trim() || workspaces.length === 0) return undefined;
+
+    const batch: Batch = {
+      id: generateId(),
+      prompt,
+      toolPolicy,
+      harnessId,
+      startedAt: Date.now(),
+      targets: workspaces.map((workspace) => ({ workspaceId: workspace.id, status: 'queued' })),
+    };
+    set((state) => ({ batches: [batch, ...state.batches] }));
+
+    batchBridge.start({
+      batchId: batch.id,
+      prompt,
+      toolPolicy,
+      harness: useHarnessStore.getState().getLaunchFields(harnessId),
+      concurrency,
+      targets: workspaces.map((workspace) => ({ workspaceId: workspace.id, cwd: workspace.path })),
+    });
+    return batch;
+  },
+
+  cancelBatch: (id) => batchBridge.cancel(id),
+
+  removeBatch: (id) => {
+    const batch = get().batches.find((b) => b.id === id);
+    if (batch && isBatchActive(batch)) batchBridge.cancel(id);
+    set((state) => ({ batches: state.batches.filter((b) => b.id !== id) }));
+  },
+
+  subscribeToEvents: () =>
+    batchBridge.onUpdate(({ batchId, workspaceId, ...update }) => {
+      set((state) => ({
+        batches: state.batches.map((batch) =>
+          batch.id === batchId
+            ? {
+                ...batch,
+                targets: batch.targets.map((target) =>
+                  target.workspaceId === workspaceId ? { workspaceId, ...update } : target
+                ),
+              }
+            : batch
+        ),
+      }));
+    }),
+}));
@@ -0,0 +1,113 @@
+import { create } from 'zustand';
+import type { GitBranchInfo } from '../types/electron';
+import { gitBridge } from '../services/gitBridge';
+import { useGitStatusStore } from './gitStatusStore';
+import { useTerminalStore } from './terminalStore';
+import { sessionCwd, useWorkspaceStore, type Session } from './workspaceStore';
+
+interface GitBranchState {
+  // Current root path being tracked
+  rootPath: string | null;
+  // Local branches, then remote ones
+  branches: GitBranchInfo[];
+  isLoading: boolean;
+  // Load the branches of a path
+  load: (rootPath: string) => Promise<void>;
+  // Operations return git's error, or null once done and reloaded
+  createBranch: (rootPath: string, name: string) => Promise<string | null>;
+  switchBranch: (rootPath: string, branch: GitBranchInfo) => Promise<string | null>;
+  renameBranch: (rootPath: string, name: string, newName: string) => Promise<string | null>;
+  deleteBranch: (rootPath: string, name: string, force: boolean) => Promise<string | null>;
+}
+
+/** Ahead/behind the upstream, e.g. "↑2 ↓1"; empty when in step. */
+export function formatAheadBehind(branch: GitBranchInfo): string {
+  return [branch.ahead > 0 && `↑${branch.ahead}`, branch.behind > 0 && `↓${branch.behind}`]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Sessions with a turn under way in this folder. Switching branches swaps the
+ * files out from under them mid-edit; a session in its own worktree is not
+ * affected.
+ */
+export function busySessionsIn(rootPath: string): Session[] {
+  const { terminals } = useTerminalStore.getState();
+  return useWorkspaceStore.getState().workspaces.flatMap((workspace) =>
+    workspace.sessions.filter((session) => {
+      const terminal = terminals[session.instanceId];
+      return (
+        sessionCwd(workspace, session) === rootPath &&
+        terminal !== undefined &&
+        !terminal.hasExited &&
+        (terminal.isBusy || terminal.isAwaitingConfirmation)
+      );
+    })
+  );
+}
+
+/** Ask before switching branches under sessions that are working. */
+export function confirmBranchSwitch(rootPath: string, branchName: string): boolean {
+  const busy = busySessionsIn(rootPath);
+  if (busy.length === 0) return true;
+  const names = busy.map((session) => `"${session.name}"`).join(', ');
+  return window.confirm(
+    `${busy.length === 1 ? 'Session' : 'Sessions'} ${names} ${
+      busy.length === 1 ? 'is' : 'are'
+    } working in this folder. Switching to ${branchName} changes the files under ${
+      busy.length === 1 ? 'it' : 'them'
+    }. Switch anyway?`
+  );
+}
+
+export const useGitBranchStore = create<GitBranchState>((set, get) => {
+  /** Reload branches and status after an operation, or hand back its error. */
+  const settle = async (
+    rootPath: string,
+    result: { success: boolean; error?: string } | null
+  ): Promise<string | null> => {
+    if (!result) return 'Git API not available';
+    if (!result.success) return result.error ?? 'Git failed';
+    await Promise.all([get().load(rootPath), useGitStatusStore.getState().refresh(rootPath)]);
+    return null;
+  };
+
+  return {
+    rootPath: null,
+    branches: [],
+    isLoading: false,
+
+    load: async (rootPath) => {
+      // Another folder's branches are not worth showing while these load
+      set((state) => ({
+        rootPath,
+        isLoading: true,
+        branches: state.rootPath === rootPath ? state.branches : [],
+      }));
+      const branches = await gitBridge.listBranches(rootPath);
+      if (get().rootPath !== rootPath) return;
+      set({ branches: branches ?? [], isLoading: false });
+    },
+
+    createBranch: async (rootPath, name) =>
+      settle(rootPath, await gitBridge.createBranch(rootPath, name)),
+
+    switchBranch: async (rootPath, branch) => {
+      // A remote branch already checked out locally under its own name is
+      // switched to rather than created again.
+      const localName = branch.isRemote ? branch.name.slice(branch.name.indexOf('/') + 1) : branch.name;
+      const local = get().branches.find((b) => !b.isRemote && b.name === localName);
+      const result = local
+        ? await gitBridge.switchBranch(rootPath, local.name, false)
+        : await gitBridge.switchBranch(rootPath, branch.name, branch.isRemote);
+      return settle(rootPath, result);
+    },
+
+    renameBranch: async (rootPath, name, newName) =>
+      settle(rootPath, await gitBridge.renameBranch(rootPath, name, newName)),
+
+    deleteBranch: async (rootPath, name, force) =>
+      settle(rootPath, await gitBridge.deleteBranch(rootPath, name, force)),
+  };
+});
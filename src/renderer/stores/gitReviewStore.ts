@@ -1,7 +1,10 @@
 import { create } from 'zustand';
+import type { GitCommitInfo } from '../types/electron';
 
 type ViewMode = 'diff' | 'file';
 
+export type SidebarTab = 'files' | 'branches' | 'history';
+
 interface GitReviewState {
   // Panel visibility
   isOpen: boolean;
@@ -9,6 +12,15 @@ interface GitReviewState {
   // Sidebar collapsed state
   isSidebarCollapsed: boolean;
 
+  // What the sidebar lists
+  sidebarTab: SidebarTab;
+
+  // Absolute path of the file whose history is listed; the whole repository's when null
+  historyFile: string | null;
+
+  // Commit shown beside the history
+  selectedCommit: GitCommitInfo | null;
+
   // Which file sections are expanded in the diff list
   expandedFiles: Set<string>;
 
@@ -31,6 +43,10 @@ interface GitReviewState {
   toggle: () => void;
   toggleSidebar: () => void;
   setSidebarCollapsed: (collapsed: boolean) => void;
+  setSidebarTab: (tab: SidebarTab) => void;
+  // Open the panel on the history of a file, or of the whole repository
+  showHistory: (filePath: string | null) => void;
+  setSelectedCommit: (commit: GitCommitInfo | null) => void;
   toggleFileExpanded: (filePath: string) => void;
   setFileExpanded: (filePath: string, expanded: boolean) => void;
   expandFiles: (filePaths: string[]) => void;
@@ -48,6 +64,9 @@ interface GitReviewState {
 export const useGitReviewStore = create<GitReviewState>((set, get) => ({
   isOpen: false,
   isSidebarCollapsed: false,
+  sidebarTab: 'files',
+  historyFile: null,
+  selectedCommit: null,
   expandedFiles: new Set(),
   viewMode: new Map(),
   commitMessage: '',
@@ -65,6 +84,18 @@ export const useGitReviewStore = create<GitReviewState>((set, get) => ({
 
   setSidebarCollapsed: (collapsed) => set({ isSidebarCollapsed: collapsed }),
 
+  setSidebarTab: (tab) => set({ sidebarTab: tab }),
+
+  showHistory: (filePath) => set({
+    isOpen: true,
+    isSidebarCollapsed: false,
+    sidebarTab: 'history',
+    historyFile: filePath,
+    selectedCommit: null,
+  }),
+
+  setSelectedCommit: (commit) => set({ selectedCommit: commit }),
+
   toggleFileExpanded: (filePath) => {
     const { expandedFiles } = get();
     const newExpanded = new Set(expandedFiles);
@@ -130,6 +161,9 @@ export const useGitReviewStore = create<GitReviewState>((set, get) => ({
   reset: () => set({
     isOpen: false,
     isSidebarCollapsed: false,
+    sidebarTab: 'files',
+    historyFile: null,
+    selectedCommit: null,
     expandedFiles: new Set(),
     viewMode: new Map(),
     commitMessage: '',
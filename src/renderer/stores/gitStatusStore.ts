@@ -43,6 +43,8 @@ export const useGitStatusStore = create<GitStatusState>((set, get) => ({
 
     try {
       const result = await gitBridge.getStatus(rootPath);
+      // Switching to a session in another worktree moved on meanwhile
+      if (get().rootPath !== rootPath) return;
 
       if (!result) {
         throw new Error('Git API not available');
@@ -61,6 +63,7 @@ export const useGitStatusStore = create<GitStatusState>((set, get) => ({
         isLoading: false,
       });
     } catch (error) {
+      if (get().rootPath !== rootPath) return;
       console.error('Failed to fetch git status:', error);
       set({
         fileStatuses: new Map(),
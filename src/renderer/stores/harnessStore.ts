@@ -5,7 +5,7 @@ import type {
     HarnessDriverId,
     HarnessLaunchFields,
 } from '../../shared/types';
-import { BUILT_IN_HARNESS_ID } from '../../shared/constants';
+import { BUILT_IN_HARNESS_ID, driverRunsHeadless } from '../../shared/constants';
 import { harnessBridge } from '../services/harnessBridge';
 
 /**
@@ -59,6 +59,12 @@ export interface Harness {
     /** Absent means use the ambient config directory. */
     configDir?: string;
     extraArgs: string[];
+    /** Custom driver: argv template with `{sessionId}`, `{resume}`, `{new}`. */
+    sessionArgsTemplate?: string[];
+    /** Custom driver: the variable `configDir` is passed in. */
+    configDirEnvVar?: string;
+    /** Custom driver: arguments that print a version. Absent skips the probe. */
+    versionArgs?: string[];
     createdAt: number;
     updatedAt: number;
 }
@@ -74,6 +80,15 @@ export interface HarnessStatus {
     checkedAt?: number;
 }
 
+/** The fields that decide how a harness's CLI is launched. */
+export type LaunchSettingKey =
+    | 'binaryPath'
+    | 'configDir'
+    | 'extraArgs'
+    | 'sessionArgsTemplate'
+    | 'configDirEnvVar'
+    | 'versionArgs';
+
 export const HARNESS_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
 
 interface HarnessState {
@@ -83,16 +98,11 @@ interface HarnessState {
 
     addHarness: (
         input: Pick<Harness, 'id' | 'driverId' | 'name' | 'accentColor'> &
-            Partial<Pick<Harness, 'binaryPath' | 'configDir' | 'extraArgs' | 'enabled'>>
+            Partial<Pick<Harness, 'enabled' | LaunchSettingKey>>
     ) => Harness;
     updateHarness: (
         id: string,
-        updates: Partial<
-            Pick<
-                Harness,
-                'name' | 'accentColor' | 'enabled' | 'binaryPath' | 'configDir' | 'extraArgs'
-            >
-        >
+        updates: Partial<Pick<Harness, 'name' | 'accentColor' | 'enabled' | LaunchSettingKey>>
     ) => void;
     archiveHarness: (id: string) => void;
     restoreHarness: (id: string) => void;
@@ -100,6 +110,8 @@ interface HarnessState {
     getHarness: (id: string) => Harness | undefined;
     /** Launch fields for a session's harness, falling back to the built-in. */
     getLaunchFields: (harnessId: string | undefined) => HarnessLaunchFields;
+    /** Launch fields for a side task, falling back to the built-in when the harness cannot run one. */
+    getHeadlessLaunchFields: (harnessId: string | undefined) => HarnessLaunchFields;
 
     probeHarness: (id: string) => Promise<void>;
     probeAll: () => Promise<void>;
@@ -166,6 +178,9 @@ export function toLaunchFields(harness: Harness): HarnessLaunchFields {
         binaryOverride: harness.binaryPath,
         configDirOverride: harness.configDir,
         extraArgs: harness.extraArgs,
+        sessionArgsTemplate: harness.sessionArgsTemplate,
+        configDirEnvVar: harness.configDirEnvVar,
+        versionArgs: harness.versionArgs,
     };
 }
 
@@ -232,6 +247,15 @@ export const useHarnessStore = create<HarnessState>()(
                 return harness ? toLaunchFields(harness) : {};
             },
 
+            getHeadlessLaunchFields: (harnessId) => {
+                const harness = get().getHarness(harnessId ?? '');
+                // Side tasks still run when the workspace's harness has no
+                // one-shot mode, just on the built-in instead.
+                return get().getLaunchFields(
+                    harness && driverRunsHeadless(harness.driverId) ? harness.id : BUILT_IN_HARNESS_ID
+                );
+            },
+
             probeHarness: async (id) => {
                 const harness = get().getHarness(id);
                 if (!harness) return;
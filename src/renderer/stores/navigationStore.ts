@@ -1,21 +1,28 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 
+// What the main area shows while no workspace is open
+export type HomeView = 'welcome' | 'batch';
+
 interface NavigationState {
   isSidebarHidden: boolean;
   isExplorerVisible: boolean;
   activeWorkspaceId: string | null;
   activeSessionId: string | null;
+  homeView: HomeView;
   expandedWorkspaces: Record<string, boolean>;
+  isInboxExpanded: boolean;
   toggleSidebar: () => void;
   setSidebarHidden: (hidden: boolean) => void;
   toggleExplorer: () => void;
   setExplorerVisible: (visible: boolean) => void;
   setActiveWorkspace: (id: string | null) => void;
   setActiveSession: (id: string | null) => void;
+  showHomeView: (view: HomeView) => void;
   toggleWorkspaceExpanded: (workspaceId: string) => void;
   setWorkspaceExpanded: (workspaceId: string, expanded: boolean) => void;
   isWorkspaceExpanded: (workspaceId: string) => boolean;
+  toggleInboxExpanded: () => void;
 }
 
 export const useNavigationStore = create<NavigationState>()(
@@ -25,13 +32,16 @@ export const useNavigationStore = create<NavigationState>()(
       isExplorerVisible: false,
       activeWorkspaceId: null,
       activeSessionId: null,
+      homeView: 'welcome',
       expandedWorkspaces: {},
+      isInboxExpanded: true,
       toggleSidebar: () => set((state) => ({ isSidebarHidden: !state.isSidebarHidden })),
       setSidebarHidden: (hidden) => set({ isSidebarHidden: hidden }),
       toggleExplorer: () => set((state) => ({ isExplorerVisible: !state.isExplorerVisible })),
       setExplorerVisible: (visible) => set({ isExplorerVisible: visible }),
       setActiveWorkspace: (id) => set({ activeWorkspaceId: id, activeSessionId: null }),
       setActiveSession: (id) => set({ activeSessionId: id }),
+      showHomeView: (view) => set({ activeWorkspaceId: null, activeSessionId: null, homeView: view }),
       toggleWorkspaceExpanded: (workspaceId) =>
         set((state) => ({
           expandedWorkspaces: {
@@ -51,6 +61,7 @@ export const useNavigationStore = create<NavigationState>()(
         // Default to true (expanded) for new workspaces
         return state.expandedWorkspaces[workspaceId] ?? true;
       },
+      toggleInboxExpanded: () => set((state) => ({ isInboxExpanded: !state.isInboxExpanded })),
     }),
     {
       name: 'consola-navigation',
@@ -60,7 +71,9 @@ export const useNavigationStore = create<NavigationState>()(
         isExplorerVisible: state.isExplorerVisible,
         activeWorkspaceId: state.activeWorkspaceId,
         activeSessionId: state.activeSessionId,
+        homeView: state.homeView,
         expandedWorkspaces: state.expandedWorkspaces,
+        isInboxExpanded: state.isInboxExpanded,
       }),
     }
   )
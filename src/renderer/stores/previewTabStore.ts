@@ -6,11 +6,20 @@ export interface DiffMode {
   relativePath: string;
 }
 
+/** A session whose conversation a transcript tab shows. */
+export interface TranscriptSource {
+  workspaceId: string;
+  sessionId: string;
+  /** Turn to scroll to once the transcript has loaded. */
+  turnId?: string;
+}
+
 export interface PreviewTab {
   id: string;        // File path serves as unique ID
   filePath: string;
   filename: string;
   diffMode?: DiffMode;
+  transcript?: TranscriptSource;
 }
 
 interface PreviewTabState {
@@ -19,6 +28,7 @@ interface PreviewTabState {
 
   openFile: (filePath: string) => void;
   openDiff: (rootPath: string, relativePath: string, staged: boolean) => void;
+  openTranscript: (source: TranscriptSource, title: string) => void;
   closeTab: (tabId: string) => void;
   setActiveTab: (tabId: string) => void;
   closeAllTabs: () => void;
@@ -88,6 +98,27 @@ export const usePreviewTabStore = create<PreviewTabState>((set, get) => ({
     });
   },
 
+  openTranscript: (source: TranscriptSource, title: string) => {
+    const { tabs } = get();
+    const transcriptId = `transcript:${source.sessionId}`;
+
+    // Reopening an open transcript still replaces its source, so a new turn to
+    // scroll to is honoured.
+    const newTab: PreviewTab = {
+      id: transcriptId,
+      filePath: `Transcript of ${title}`,
+      filename: title,
+      transcript: source,
+    };
+
+    set({
+      tabs: tabs.some((t) => t.id === transcriptId)
+        ? tabs.map((t) => (t.id === transcriptId ? newTab : t))
+        : [...tabs, newTab],
+      activeTabId: transcriptId,
+    });
+  },
+
   closeTab: (tabId: string) => {
     const { tabs, activeTabId } = get();
     const tabIndex = tabs.findIndex((t) => t.id === tabId);
@@ -0,0 +1,91 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { nextCronTime } from '../../shared/cron';
+import type { ScheduleTiming } from '../../shared/types';
+
+export interface Schedule {
+  id: string;
+  prompt: string;
+  timing: ScheduleTiming;
+  workspaceId: string;
+  // Session to prompt. Absent starts a new session in the workspace each run.
+  sessionId?: string;
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  firedAt: number;
+  workspaceId: string;
+  // Session the run prompted; null when it could not start one.
+  sessionId: string | null;
+  error?: string;
+}
+
+interface ScheduleState {
+  schedules: Schedule[];
+  // Most recent first
+  runs: ScheduleRun[];
+  addSchedule: (schedule: Omit<Schedule, 'id' | 'createdAt' | 'enabled'>) => Schedule;
+  updateSchedule: (id: string, updates: Partial<Pick<Schedule, 'prompt' | 'timing' | 'enabled'>>) => void;
+  removeSchedule: (id: string) => void;
+  recordRun: (run: Omit<ScheduleRun, 'id'>) => void;
+}
+
+// Enough to look back over a few weeks of hourly runs.
+const MAX_RUNS = 200;
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
+}
+
+/** When a schedule next fires, or null if it never will again. */
+export function nextRunAt(timing: ScheduleTiming, after = Date.now()): number | null {
+  if (timing.kind === 'once') return timing.at > after ? timing.at : null;
+  return nextCronTime(timing.expression, after);
+}
+
+/**
+ * Prompts to send on a timetable, and a history of what each run started.
+ *
+ * The main process does the firing; this is the record of what to fire,
+ * synced over by `useScheduledPrompts`.
+ */
+export const useScheduleStore = create<ScheduleState>()(
+  persist(
+    (set) => ({
+      schedules: [],
+      runs: [],
+
+      addSchedule: (data) => {
+        const schedule: Schedule = { ...data, id: generateId(), enabled: true, createdAt: Date.now() };
+        set((state) => ({ schedules: [...state.schedules, schedule] }));
+        return schedule;
+      },
+
+      updateSchedule: (id, updates) =>
+        set((state) => ({
+          schedules: state.schedules.map((schedule) =>
+            schedule.id === id ? { ...schedule, ...updates } : schedule
+          ),
+        })),
+
+      removeSchedule: (id) =>
+        set((state) => ({
+          schedules: state.schedules.filter((schedule) => schedule.id !== id),
+          runs: state.runs.filter((run) => run.scheduleId !== id),
+        })),
+
+      recordRun: (run) =>
+        set((state) => ({
+          runs: [{ ...run, id: generateId() }, ...state.runs].slice(0, MAX_RUNS),
+        })),
+    }),
+    {
+      name: 'consola-schedules',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
@@ -18,12 +18,45 @@ export function clampTerminalFontSize(size: number): number {
   return Math.min(TERMINAL_FONT_SIZE_MAX, Math.max(TERMINAL_FONT_SIZE_MIN, Math.round(size)));
 }
 
+/**
+ * When a session that is not on screen raises a desktop notification.
+ *
+ * The same events drive the dock badge, which counts sessions waiting on the
+ * user: a menu to answer, or a finished turn or exit not yet looked at.
+ */
+export interface NotificationRules {
+  /** A permission or trust menu is waiting for a keypress. */
+  awaitingConfirmation: boolean;
+  /** The agent went idle after working at least `finishedMinSeconds`. */
+  finished: boolean;
+  finishedMinSeconds: number;
+  /** The CLI exited. */
+  exited: boolean;
+  /** Count sessions needing attention on the dock or taskbar icon. */
+  badge: boolean;
+}
+
+export const FINISHED_MIN_SECONDS_STEP = 10;
+export const FINISHED_MIN_SECONDS_MAX = 600;
+
+export const DEFAULT_NOTIFICATION_RULES: NotificationRules = {
+  awaitingConfirmation: true,
+  finished: true,
+  // Short turns finish while the user is still watching; a notification for
+  // each would be noise.
+  finishedMinSeconds: 30,
+  exited: false,
+  badge: true,
+};
+
 interface SettingsState {
   theme: ThemeMode;
   resolvedTheme: 'light' | 'dark';
   terminalFontSize: number;
+  notificationRules: NotificationRules;
   setTheme: (theme: ThemeMode) => void;
   setTerminalFontSize: (size: number) => void;
+  setNotificationRules: (updates: Partial<NotificationRules>) => void;
   _setResolvedTheme: (theme: 'light' | 'dark') => void;
 }
 
@@ -33,8 +66,11 @@ export const useSettingsStore = create<SettingsState>()(
       theme: 'system',
       resolvedTheme: 'dark',
       terminalFontSize: TERMINAL_FONT_SIZE_DEFAULT,
+      notificationRules: DEFAULT_NOTIFICATION_RULES,
       setTheme: (theme) => set({ theme }),
       setTerminalFontSize: (size) => set({ terminalFontSize: clampTerminalFontSize(size) }),
+      setNotificationRules: (updates) =>
+        set((state) => ({ notificationRules: { ...state.notificationRules, ...updates } })),
       _setResolvedTheme: (resolvedTheme) => set({ resolvedTheme }),
     }),
     {
@@ -43,6 +79,7 @@ export const useSettingsStore = create<SettingsState>()(
       partialize: (state) => ({
         theme: state.theme,
         terminalFontSize: state.terminalFontSize,
+        notificationRules: state.notificationRules,
       }),
       // A persisted size from an older build (or a hand-edited value) still has
       // to land inside the bounds the terminal can actually lay out.
@@ -54,6 +91,8 @@ export const useSettingsStore = create<SettingsState>()(
           terminalFontSize: clampTerminalFontSize(
             saved?.terminalFontSize ?? TERMINAL_FONT_SIZE_DEFAULT
           ),
+          // Rules added in later builds take their defaults.
+          notificationRules: { ...DEFAULT_NOTIFICATION_RULES, ...saved?.notificationRules },
         };
       },
     }
@@ -0,0 +1,107 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+/** A session shown in a split pane, which may belong to any workspace. */
+export interface PaneRef {
+  workspaceId: string;
+  sessionId: string;
+}
+
+/** Side by side, or stacked top to bottom. */
+export type SplitOrientation = 'horizontal' | 'vertical';
+
+export interface WorkspaceSplit {
+  orientation: SplitOrientation;
+  /**
+   * Sessions tiled beside the workspace's active one, in display order. The
+   * active session itself is never listed: it always takes the first pane.
+   */
+  panes: PaneRef[];
+}
+
+interface SplitPaneState {
+  /** Keyed by the workspace whose view the panes are tiled into. */
+  splits: Record<string, WorkspaceSplit>;
+  getSplit: (workspaceId: string) => WorkspaceSplit;
+  addPane: (workspaceId: string, pane: PaneRef) => void;
+  removePane: (workspaceId: string, sessionId: string) => void;
+  setOrientation: (workspaceId: string, orientation: SplitOrientation) => void;
+  /** Drop a deleted session from every split it was tiled into. */
+  removeSession: (sessionId: string) => void;
+  /** Forget a deleted workspace's split, and its sessions in other splits. */
+  removeWorkspace: (workspaceId: string) => void;
+}
+
+const EMPTY_SPLIT: WorkspaceSplit = { orientation: 'horizontal', panes: [] };
+
+export const useSplitPaneStore = create<SplitPaneState>()(
+  persist(
+    (set, get) => ({
+      splits: {},
+
+      getSplit: (workspaceId) => get().splits[workspaceId] ?? EMPTY_SPLIT,
+
+      addPane: (workspaceId, pane) =>
+        set((state) => {
+          const split = state.splits[workspaceId] ?? EMPTY_SPLIT;
+          if (split.panes.some((p) => p.sessionId === pane.sessionId)) return state;
+          return {
+            splits: {
+              ...state.splits,
+              [workspaceId]: { ...split, panes: [...split.panes, pane] },
+            },
+          };
+        }),
+
+      removePane: (workspaceId, sessionId) =>
+        set((state) => {
+          const split = state.splits[workspaceId];
+          if (!split) return state;
+          return {
+            splits: {
+              ...state.splits,
+              [workspaceId]: {
+                ...split,
+                panes: split.panes.filter((p) => p.sessionId !== sessionId),
+              },
+            },
+          };
+        }),
+
+      setOrientation: (workspaceId, orientation) =>
+        set((state) => ({
+          splits: {
+            ...state.splits,
+            [workspaceId]: { ...(state.splits[workspaceId] ?? EMPTY_SPLIT), orientation },
+          },
+        })),
+
+      removeSession: (sessionId) =>
+        set((state) => ({
+          splits: Object.fromEntries(
+            Object.entries(state.splits).map(([workspaceId, split]) => [
+              workspaceId,
+              { ...split, panes: split.panes.filter((p) => p.sessionId !== sessionId) },
+            ])
+          ),
+        })),
+
+      removeWorkspace: (workspaceId) =>
+        set((state) => ({
+          splits: Object.fromEntries(
+            Object.entries(state.splits)
+              .filter(([id]) => id !== workspaceId)
+              .map(([id, split]) => [
+                id,
+                { ...split, panes: split.panes.filter((p) => p.workspaceId !== workspaceId) },
+              ])
+          ),
+        })),
+    }),
+    {
+      name: 'consola-split-panes',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ splits: state.splits }),
+    }
+  )
+);
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import type { ConfirmationChoice, QueuedPrompt } from '../../shared/types';
 import { terminalBridge } from '../services/terminalBridge';
 
 /**
@@ -14,24 +15,36 @@ export interface TerminalState {
     isBusy: boolean;
     /** A menu is on screen waiting for a keypress (trust gate, permissions). */
     isAwaitingConfirmation: boolean;
+    /** The menu's options, when they could be read off the screen. */
+    confirmationChoices: ConfirmationChoice[];
+    /** Which menu the options belong to, for answering it. */
+    confirmationMenuId: number;
     /** The claude process exited; the pane offers a restart. */
     hasExited: boolean;
+    /** Tool the agent is running, for agents that report it through hooks. */
+    activeTool: string | null;
 }
 
 const INITIAL_STATE: TerminalState = {
     isBusy: false,
     isAwaitingConfirmation: false,
+    confirmationChoices: [],
+    confirmationMenuId: 0,
     hasExited: false,
+    activeTool: null,
 };
 
 interface TerminalStoreState {
     terminals: Record<string, TerminalState>;
     /** Prompts typed before a terminal existed, delivered once it is ready. */
     pendingPrompts: Record<string, string>;
+    /** Each running terminal's prompt queue, mirrored from the main process. */
+    promptQueues: Record<string, QueuedPrompt[]>;
     getState: (instanceId: string) => TerminalState;
     setState: (instanceId: string, updates: Partial<TerminalState>) => void;
     setPendingPrompt: (instanceId: string, prompt: string) => void;
     consumePendingPrompt: (instanceId: string) => string | undefined;
+    setPromptQueue: (instanceId: string, queue: QueuedPrompt[]) => void;
     removeInstance: (instanceId: string) => void;
     /** Subscribe to main-process terminal events. Call once at app start. */
     subscribeToEvents: () => () => void;
@@ -40,6 +53,7 @@ interface TerminalStoreState {
 export const useTerminalStore = create<TerminalStoreState>((set, get) => ({
     terminals: {},
     pendingPrompts: {},
+    promptQueues: {},
 
     getState: (instanceId) => get().terminals[instanceId] ?? INITIAL_STATE,
 
@@ -71,26 +85,47 @@ export const useTerminalStore = create<TerminalStoreState>((set, get) => ({
         return prompt;
     },
 
+    setPromptQueue: (instanceId, queue) => {
+        set((state) => ({
+            promptQueues: { ...state.promptQueues, [instanceId]: queue },
+        }));
+    },
+
     removeInstance: (instanceId) => {
         set((state) => {
             const { [instanceId]: _removed, ...restTerminals } = state.terminals;
             const { [instanceId]: _removedPrompt, ...restPrompts } = state.pendingPrompts;
-            return { terminals: restTerminals, pendingPrompts: restPrompts };
+            const { [instanceId]: _removedQueue, ...restQueues } = state.promptQueues;
+            return { terminals: restTerminals, pendingPrompts: restPrompts, promptQueues: restQueues };
         });
     },
 
     subscribeToEvents: () => {
-        const { setState } = get();
+        const { setState, setPromptQueue } = get();
 
         const unsubscribers = [
             terminalBridge.onActivity(({ instanceId, busy }) => {
                 setState(instanceId, { isBusy: busy });
             }),
-            terminalBridge.onAwaitingConfirmation(({ instanceId, awaiting }) => {
-                setState(instanceId, { isAwaitingConfirmation: awaiting });
+            terminalBridge.onAwaitingConfirmation(({ instanceId, awaiting, choices, menuId }) => {
+                setState(instanceId, {
+                    isAwaitingConfirmation: awaiting,
+                    confirmationChoices: choices,
+                    confirmationMenuId: menuId,
+                });
             }),
             terminalBridge.onExit(({ instanceId }) => {
-                setState(instanceId, { hasExited: true, isBusy: false });
+                setState(instanceId, { hasExited: true, isBusy: false, activeTool: null });
+            }),
+            terminalBridge.onQueue(({ instanceId, queue }) => {
+                setPromptQueue(instanceId, queue);
+            }),
+            terminalBridge.onHookEvent(({ instanceId, event }) => {
+                if (event.kind === 'tool-start') {
+                    setState(instanceId, { activeTool: event.toolName || null });
+                } else if (event.kind !== 'notification' && event.kind !== 'permission-request') {
+                    setState(instanceId, { activeTool: null });
+                }
             }),
         ];
 
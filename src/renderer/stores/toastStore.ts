@@ -0,0 +1,39 @@
+import { create } from 'zustand';
+
+export interface Toast {
+  id: number;
+  message: string;
+  // A button offered alongside, such as undoing what the toast reports
+  action?: { label: string; run: () => void };
+  isError?: boolean;
+}
+
+interface ToastState {
+  // Newest last
+  toasts: Toast[];
+  // Show a toast until dismissed or `durationMs` passes; returns its ID
+  show: (toast: Omit<Toast, 'id'>, durationMs?: number) => number;
+  dismiss: (id: number) => void;
+}
+
+const DEFAULT_DURATION_MS = 8000;
+
+let nextId = 1;
+
+export const useToastStore = create<ToastState>((set, get) => ({
+  toasts: [],
+
+  show: (toast, durationMs = DEFAULT_DURATION_MS) => {
+    const id = nextId++;
+    set((state) => ({ toasts: [...state.toasts, { ...toast, id }] }));
+    setTimeout(() => get().dismiss(id), durationMs);
+    return id;
+  },
+
+  dismiss: (id) =>
+    set((state) =>
+      state.toasts.some((toast) => toast.id === id)
+        ? { toasts: state.toasts.filter((toast) => toast.id !== id) }
+        : state
+    ),
+}));
@@ -0,0 +1,96 @@
+import { create } from 'zustand';
+import type { TokenUsage } from '../../shared/types';
+import { driverReadsTranscripts } from '../../shared/constants';
+import { harnessBridge } from '../services/harnessBridge';
+import { useHarnessStore } from './harnessStore';
+import type { Session } from './workspaceStore';
+
+interface UsageState {
+  // Usage per conversation, keyed by the session's claudeSessionId. Absent
+  // until read, and for sessions whose harness keeps no readable transcript.
+  usage: Record<string, TokenUsage>;
+  // Whether a refresh is in flight
+  isLoading: boolean;
+  // Re-read the usage of the given sessions from their transcripts
+  refresh: (sessions: Session[]) => Promise<void>;
+}
+
+export const EMPTY_USAGE: TokenUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  cacheWriteTokens: 0,
+  costUsd: 0,
+};
+
+/** The sum of several sessions' usage. */
+export function sumUsage(usages: (TokenUsage | undefined)[]): TokenUsage {
+  return usages.reduce<TokenUsage>(
+    (total, usage) =>
+      usage
+        ? {
+            inputTokens: total.inputTokens + usage.inputTokens,
+            outputTokens: total.outputTokens + usage.outputTokens,
+            cacheReadTokens: total.cacheReadTokens + usage.cacheReadTokens,
+            cacheWriteTokens: total.cacheWriteTokens + usage.cacheWriteTokens,
+            costUsd: total.costUsd + usage.costUsd,
+          }
+        : total,
+    EMPTY_USAGE
+  );
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+/** 950, 12.3k, 4.1M */
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+  return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatCost(costUsd: number): string {
+  return costUsd > 0 && costUsd < 0.01 ? '<$0.01' : `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * Token usage read back from the CLIs' transcripts.
+ *
+ * Not persisted: the transcripts are the record, and re-reading them is cheap
+ * because the main process caches each one until it changes.
+ */
+export const useUsageStore = create<UsageState>((set) => ({
+  usage: {},
+  isLoading: false,
+
+  refresh: async (sessions) => {
+    const { getLaunchFields } = useHarnessStore.getState();
+
+    // Each harness reads from its own config directory, so ask once per harness.
+    const byHarness = new Map<string, string[]>();
+    for (const session of sessions) {
+      if (session.kind === 'shell' || !session.hasStarted) continue;
+      if (!driverReadsTranscripts(getLaunchFields(session.harnessId).driverId)) continue;
+      const ids = byHarness.get(session.harnessId) ?? [];
+      ids.push(session.claudeSessionId);
+      byHarness.set(session.harnessId, ids);
+    }
+    if (byHarness.size === 0) return;
+
+    set({ isLoading: true });
+    try {
+      const results = await Promise.all(
+        [...byHarness].map(([harnessId, ids]) =>
+          harnessBridge.getUsage(ids, getLaunchFields(harnessId))
+        )
+      );
+      set((state) => ({ usage: Object.assign({}, state.usage, ...results) }));
+    } catch (error) {
+      console.error('Failed to read session usage:', error);
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+}));
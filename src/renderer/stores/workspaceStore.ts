@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { BUILT_IN_HARNESS_ID } from '../../shared/constants';
+import type { SessionKind } from '../../shared/types';
 
 export interface Session {
   id: string;
@@ -13,16 +14,28 @@ export interface Session {
   // transcript lives in that harness's config directory, so resuming under a
   // different one would lose the conversation.
   harnessId: string;
+  // An agent conversation, or a plain shell in the workspace folder. Shells
+  // keep a harness and session ID only so every session has the same shape.
+  kind: SessionKind;
+  // Its own checkout on its own branch, so agents in one repository do not
+  // edit each other's files. Absent runs in the workspace folder.
+  worktree?: SessionWorktree;
   createdAt: number;
   lastActiveAt: number;
 }
 
+export interface SessionWorktree {
+  path: string;                    // Absolute worktree folder
+  branch: string;                  // Created with the worktree, merged or deleted with it
+}
+
 export interface Workspace {
   id: string;
   name: string;                    // From folder name
   path: string;                    // Absolute folder path (1:1 relationship)
   isGitRepo: boolean;              // Whether .git folder exists
   defaultHarnessId: string;        // Preselected when starting a conversation here
+  sideTaskHarnessId?: string;      // Runs commit messages and other side tasks; absent uses defaultHarnessId
   sessions: Session[];
   createdAt: number;
   updatedAt: number;
@@ -39,11 +52,18 @@ interface WorkspaceState {
   deleteWorkspace: (id: string) => void;
   updateWorkspace: (
     id: string,
-    updates: Partial<Pick<Workspace, 'name' | 'defaultHarnessId'>>
+    updates: Partial<Pick<Workspace, 'name' | 'defaultHarnessId' | 'sideTaskHarnessId'>>
   ) => void;
   getWorkspace: (id: string) => Workspace | undefined;
   // Session management
   createSession: (workspaceId: string, session: Omit<Session, 'id' | 'createdAt' | 'lastActiveAt' | 'claudeSessionId' | 'hasStarted'>) => Session | undefined;
+  // Adopt conversations the harness already holds. Each resumes rather than
+  // starts, and one already claimed by any session is skipped.
+  importSessions: (
+    workspaceId: string,
+    sessions: (Pick<Session, 'name' | 'instanceId' | 'claudeSessionId' | 'harnessId' | 'createdAt' | 'lastActiveAt'> &
+      Partial<Pick<Session, 'worktree'>>)[]
+  ) => Session[];
   updateSession: (workspaceId: string, sessionId: string, updates: Partial<Pick<Session, 'name' | 'lastActiveAt' | 'hasStarted'>>) => void;
   deleteSession: (workspaceId: string, sessionId: string) => void;
   getSession: (workspaceId: string, sessionId: string) => Session | undefined;
@@ -51,6 +71,11 @@ interface WorkspaceState {
   updateSessionActivity: (workspaceId: string, sessionId: string) => void;
 }
 
+/** The folder a session runs in: its worktree, or else the workspace's. */
+export function sessionCwd(workspace: Workspace, session: Session | undefined): string {
+  return session?.worktree?.path ?? workspace.path;
+}
+
 function generateId(): string {
   return Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
 }
@@ -78,7 +103,8 @@ function generateUuid(): string {
  *
  * v2 -> v3 removes projects and adds path to workspace;
  * v3 -> v4 gives every session a Claude session UUID;
- * v4 -> v5 binds every workspace and session to a harness.
+ * v4 -> v5 binds every workspace and session to a harness;
+ * v5 -> v6 marks every session as an agent session, the only kind there was.
  *
  * Exported so the migration can be exercised on its own — it is the one piece
  * of this store whose failure would cost people conversations.
@@ -151,6 +177,18 @@ export function migrateWorkspaceState(persistedState: unknown, version: number):
     }));
   }
 
+  if (state.workspaces && version < 6) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    state.workspaces = state.workspaces.map((ws: any) => ({
+      ...ws,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sessions: (ws.sessions ?? []).map((s: any) => ({
+        ...s,
+        kind: s.kind ?? 'agent',
+      })),
+    }));
+  }
+
   return state;
 }
 
@@ -221,6 +259,34 @@ export const useWorkspaceStore = create<WorkspaceState>()(
         return createdSession;
       },
 
+      importSessions: (workspaceId, sessionData) => {
+        const claimed = new Set(
+          get().workspaces.flatMap((ws) => ws.sessions.map((s) => s.claudeSessionId))
+        );
+        if (!get().workspaces.some((ws) => ws.id === workspaceId)) return [];
+
+        const imported: Session[] = sessionData
+          .filter((data) => !claimed.has(data.claudeSessionId))
+          .map((data) => ({
+            id: generateId(),
+            ...data,
+            workspaceId,
+            hasStarted: true,
+            kind: 'agent',
+          }));
+        if (imported.length === 0) return [];
+
+        const now = Date.now();
+        set((state) => ({
+          workspaces: state.workspaces.map((ws) =>
+            ws.id === workspaceId
+              ? { ...ws, sessions: [...ws.sessions, ...imported], updatedAt: now }
+              : ws
+          ),
+        }));
+        return imported;
+      },
+
       updateSession: (workspaceId, sessionId, updates) => {
         const now = Date.now();
         set((state) => ({
@@ -287,7 +353,7 @@ export const useWorkspaceStore = create<WorkspaceState>()(
       storage: createJSONStorage(() => localStorage),
       partialize: (state) => ({ workspaces: state.workspaces }),
       migrate: migrateWorkspaceState,
-      version: 5,
+      version: 6,
     }
   )
 );
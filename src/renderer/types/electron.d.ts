@@ -1,3 +1,5 @@
+import type { HarnessLaunchFields } from '../../shared/types';
+
 export interface FolderInfo {
   path: string;
   name: string;
@@ -47,14 +49,75 @@ export interface GitDiffResult {
   isDeleted: boolean;
 }
 
+/** Stage from the working tree, unstage from the index, or discard from the working tree */
+export type GitLineAction = 'stage' | 'unstage' | 'discard';
+
+export interface GitHunkSelection {
+  hunkIndex: number;               // Position of the hunk in the file's diff
+  oldStart: number;                // The hunk's header as shown, so a diff
+  oldLines: number;                // that has moved on since is refused
+  newStart: number;
+  newLines: number;
+  lines?: number[];                // Indices into the hunk's lines; all its changes when left out
+}
+
+export interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  authorName: string;
+  authorEmail: string;
+  date: number;                    // Author date, in milliseconds
+  subject: string;
+  body: string;                    // Message after the subject line
+  parents: string[];               // A merge's changes are shown against the first
+}
+
+export interface GitCommitFile {
+  path: string;
+  status: string;                  // A, M, D or R
+  oldPath?: string;                // Where a renamed file was before
+}
+
+export interface GitBranchInfo {
+  name: string;                    // `main`, or `origin/main` for a remote branch
+  isRemote: boolean;
+  isCurrent: boolean;              // Checked out in this folder
+  upstream?: string;               // Remote branch a local one tracks
+  ahead: number;                   // Commits not yet on the upstream
+  behind: number;                  // Commits on the upstream not yet here
+}
+
 export interface GitAPI {
   getStatus: (rootPath: string) => Promise<GitStatusResult>;
   getDiff: (rootPath: string, filePath: string, staged: boolean) => Promise<GitDiffResult>;
   stageFile: (rootPath: string, filePath: string) => Promise<{ success: boolean }>;
   unstageFile: (rootPath: string, filePath: string) => Promise<{ success: boolean }>;
+  applyHunks: (
+    rootPath: string,
+    filePath: string,
+    action: GitLineAction,
+    selections: GitHunkSelection[]
+  ) => Promise<{ success: boolean; error?: string; snapshotId?: string }>;
+  discardFile: (rootPath: string, filePath: string) => Promise<{ success: boolean; error?: string; snapshotId?: string }>;
+  restoreDiscarded: (snapshotId: string) => Promise<{ success: boolean; error?: string }>;
   commit: (rootPath: string, message: string) => Promise<{ success: boolean; error?: string }>;
   getStagedDiff: (rootPath: string) => Promise<{ stagedFiles: string[]; diff: string }>;
-  generateCommitMessage: (rootPath: string) => Promise<{ message: string; error?: string }>;
+  listBranches: (rootPath: string) => Promise<GitBranchInfo[]>;
+  createBranch: (rootPath: string, name: string) => Promise<{ success: boolean; error?: string }>;
+  switchBranch: (rootPath: string, name: string, isRemote: boolean) => Promise<{ success: boolean; error?: string }>;
+  renameBranch: (rootPath: string, name: string, newName: string) => Promise<{ success: boolean; error?: string }>;
+  deleteBranch: (rootPath: string, name: string, force: boolean) => Promise<{ success: boolean; error?: string }>;
+  getLog: (rootPath: string, filePath?: string, skip?: number, limit?: number) => Promise<GitCommitInfo[]>;
+  getCommitFiles: (rootPath: string, hash: string) => Promise<GitCommitFile[]>;
+  getCommitDiff: (rootPath: string, hash: string, filePath: string, oldPath?: string) => Promise<GitDiffResult | null>;
+  createWorktree: (rootPath: string, branch: string) => Promise<{ success: boolean; error?: string; path?: string }>;
+  mergeWorktree: (rootPath: string, worktreePath: string, branch: string) => Promise<{ success: boolean; error?: string }>;
+  removeWorktree: (rootPath: string, worktreePath: string, branch: string) => Promise<{ success: boolean; error?: string }>;
+  generateCommitMessage: (
+    rootPath: string,
+    taskId?: string,
+    harness?: HarnessLaunchFields
+  ) => Promise<{ message: string; error?: string }>;
 }
 
 declare global {
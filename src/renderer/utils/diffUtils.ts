@@ -5,6 +5,9 @@ export interface DiffLine {
   content: string;
   oldLineNumber?: number;
   newLineNumber?: number;
+  // Where a line of a hunk sits in GitDiffResult.hunks, to stage it by
+  hunkIndex?: number;
+  lineIndex?: number;
 }
 
 /**
@@ -33,7 +36,7 @@ export function buildUnifiedDiff(
   let oldLineIdx = 0;
   let newLineIdx = 0;
 
-  for (const hunk of hunks) {
+  hunks.forEach((hunk, hunkIndex) => {
     // Add context lines before the hunk
     while (oldLineIdx < hunk.oldStart - 1 && newLineIdx < hunk.newStart - 1) {
       result.push({
@@ -47,12 +50,14 @@ export function buildUnifiedDiff(
     }
 
     // Add the hunk lines
-    for (const line of hunk.lines) {
+    hunk.lines.forEach((line, lineIndex) => {
       result.push({
         type: line.type,
         content: line.content,
         oldLineNumber: line.oldLineNumber,
         newLineNumber: line.newLineNumber,
+        hunkIndex,
+        lineIndex,
       });
 
       if (line.type === 'remove') {
@@ -63,8 +68,8 @@ export function buildUnifiedDiff(
         oldLineIdx = Math.max(oldLineIdx, (line.oldLineNumber ?? 0));
         newLineIdx = Math.max(newLineIdx, (line.newLineNumber ?? 0));
       }
-    }
-  }
+    });
+  });
 
   // Add remaining context lines after the last hunk
   while (newLineIdx < newLines.length) {
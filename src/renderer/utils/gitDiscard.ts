@@ -0,0 +1,52 @@
+import { gitBridge } from '../services/gitBridge';
+import { useGitStatusStore } from '../stores/gitStatusStore';
+import { useToastStore } from '../stores/toastStore';
+
+const UNDO_DURATION_MS = 10000;
+
+const fileName = (filePath: string) => filePath.split('/').pop() ?? filePath;
+
+/**
+ * Report a discard and offer, for a while, to put it back from the snapshot
+ * taken first. `onRestored` runs once it is back, for views that show the
+ * file to load it again.
+ */
+export function offerDiscardUndo(
+  rootPath: string,
+  snapshotId: string,
+  what: string,
+  onRestored?: () => void
+): void {
+  const { show } = useToastStore.getState();
+  show(
+    {
+      message: `Discarded ${what}`,
+      action: {
+        label: 'Undo',
+        run: async () => {
+          const result = await gitBridge.restoreDiscarded(snapshotId);
+          if (!result?.success) {
+            show({ message: `Could not undo: ${result?.error ?? 'Git API not available'}`, isError: true });
+          }
+          await useGitStatusStore.getState().refresh(rootPath);
+          onRestored?.();
+        },
+      },
+    },
+    UNDO_DURATION_MS
+  );
+}
+
+/** Throw away every change to a file, staged or not; an untracked file is deleted. */
+export async function discardFileChanges(rootPath: string, filePath: string): Promise<void> {
+  const result = await gitBridge.discardFile(rootPath, filePath);
+  if (!result?.success || !result.snapshotId) {
+    useToastStore.getState().show({
+      message: `Could not discard ${fileName(filePath)}: ${result?.error ?? 'Git API not available'}`,
+      isError: true,
+    });
+    return;
+  }
+  await useGitStatusStore.getState().refresh(rootPath);
+  offerDiscardUndo(rootPath, result.snapshotId, `changes to ${fileName(filePath)}`);
+}
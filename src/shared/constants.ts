@@ -10,16 +10,52 @@ export const IPC_CHANNELS = {
     TERMINAL_RESIZE: 'terminal:resize',       // Terminal dimension changes
     TERMINAL_RESTART: 'terminal:restart',     // Relaunch claude after it exited
     TERMINAL_DESTROY: 'terminal:destroy',     // Tear down a session terminal
+    TERMINAL_SCREEN_TAIL: 'terminal:screen-tail', // Last lines of text on screen
+    TERMINAL_ANSWER: 'terminal:answer',       // Pick an option of a confirmation menu
+    TERMINAL_QUEUE_ADD: 'terminal:queue-add',       // Append a prompt to a session's queue
+    TERMINAL_QUEUE_REMOVE: 'terminal:queue-remove', // Drop a queued prompt
+    TERMINAL_QUEUE_MOVE: 'terminal:queue-move',     // Reorder a queued prompt
 
     // Terminal events (main -> renderer)
     TERMINAL_DATA: 'terminal:data',           // PTY output -> renderer
-    TERMINAL_ACTIVITY: 'terminal:activity',   // Busy/idle inferred from output
+    TERMINAL_ACTIVITY: 'terminal:activity',   // Busy/idle, from hooks or output
     TERMINAL_AWAITING_CONFIRMATION: 'terminal:awaiting-confirmation', // Menu on screen
     TERMINAL_EXIT: 'terminal:exit',           // A PTY exited
+    TERMINAL_HOOK_EVENT: 'terminal:hook-event', // An agent hook fired
+    TERMINAL_QUEUE: 'terminal:queue',         // A session's prompt queue changed
 
     // Harness queries (renderer -> main)
     HARNESS_PROBE: 'harness:probe',               // Binary, version and signed-in account
     HARNESS_SESSION_NAME: 'harness:session-name', // Name from the driver's own transcripts
+    HARNESS_TRANSCRIPT: 'harness:transcript',     // A session's full conversation, parsed
+    HARNESS_SEARCH_TRANSCRIPTS: 'harness:search-transcripts', // Full-text search of every transcript
+    HARNESS_LIST_SESSIONS: 'harness:list-sessions', // Conversations started in a project
+    HARNESS_FORK_SESSION: 'harness:fork-session', // Copy a conversation under a new ID
+    HARNESS_USAGE: 'harness:usage', // Token usage and cost of sessions
+    HARNESS_WATCH_CONTEXT: 'harness:watch-context',     // Follow a session's context usage
+    HARNESS_UNWATCH_CONTEXT: 'harness:unwatch-context', // Stop following it
+    HARNESS_CANCEL_HEADLESS: 'harness:cancel-headless', // Stop a headless side task
+
+    // Harness events (main -> renderer)
+    HARNESS_CONTEXT_UPDATE: 'harness:context-update', // A watched session's context usage changed
+    HARNESS_HEADLESS_PROGRESS: 'harness:headless-progress', // A headless side task streamed output
+
+    // App shell (renderer -> main)
+    APP_SET_BADGE_COUNT: 'app:set-badge-count', // Sessions needing attention, on the app icon
+    APP_FOCUS_WINDOW: 'app:focus-window',       // Bring the window forward
+    APP_NOTIFY: 'app:notify',                   // Show a desktop notification
+
+    // App shell events (main -> renderer)
+    APP_NOTIFICATION_EVENT: 'app:notification-event', // A notification or one of its buttons was clicked
+
+    // Scheduled prompts
+    SCHEDULE_SYNC: 'schedule:sync',   // Schedules to fire (renderer -> main)
+    SCHEDULE_FIRED: 'schedule:fired', // A schedule ran (main -> renderer)
+
+    // Batch runs
+    BATCH_START: 'batch:start',   // Run a prompt headless across workspaces (renderer -> main)
+    BATCH_CANCEL: 'batch:cancel', // Stop a batch (renderer -> main)
+    BATCH_UPDATE: 'batch:update', // A workspace's run changed state (main -> renderer)
 
     // Dialog channels
     DIALOG_SELECT_FOLDERS: 'dialog:select-folders',  // Open folder picker (multi-select)
@@ -34,8 +70,22 @@ export const IPC_CHANNELS = {
     GIT_GET_DIFF: 'git:get-diff',      // Get file diff
     GIT_STAGE_FILE: 'git:stage-file',  // Stage a file (git add)
     GIT_UNSTAGE_FILE: 'git:unstage-file',  // Unstage a file (git reset HEAD)
+    GIT_APPLY_HUNKS: 'git:apply-hunks',    // Stage, unstage or discard chosen hunks and lines
+    GIT_DISCARD_FILE: 'git:discard-file',  // Discard all changes to a file, keeping a snapshot
+    GIT_RESTORE_DISCARDED: 'git:restore-discarded',  // Undo a discard from its snapshot
     GIT_COMMIT: 'git:commit',          // Create a commit
     GIT_GET_STAGED_DIFF: 'git:get-staged-diff',  // Get unified diff of all staged files
+    GIT_WORKTREE_CREATE: 'git:worktree-create',  // New branch checked out in its own worktree
+    GIT_WORKTREE_MERGE: 'git:worktree-merge',    // Merge a worktree's branch back, then remove both
+    GIT_WORKTREE_REMOVE: 'git:worktree-remove',  // Remove a worktree and its branch unmerged
+    GIT_LIST_BRANCHES: 'git:list-branches',      // Local and remote branches, with ahead/behind
+    GIT_CREATE_BRANCH: 'git:create-branch',      // New branch from HEAD, checked out
+    GIT_SWITCH_BRANCH: 'git:switch-branch',      // Check out a local or remote branch
+    GIT_RENAME_BRANCH: 'git:rename-branch',      // Rename a local branch
+    GIT_DELETE_BRANCH: 'git:delete-branch',      // Delete a local branch
+    GIT_LOG: 'git:log',                          // Commits from HEAD back, or those touching a file
+    GIT_COMMIT_FILES: 'git:commit-files',        // Files a commit changed
+    GIT_COMMIT_DIFF: 'git:commit-diff',          // One file's diff in a commit
 
     // Commit message generation (headless `claude -p`)
     GENERATE_COMMIT_MESSAGE: 'git:generate-commit-message',
@@ -67,6 +117,15 @@ export const HARNESS_DRIVERS: ReadonlyArray<{
     configDirEnvVar: string;
     /** Where that CLI keeps its profile when the variable is unset. */
     defaultConfigDir: string;
+    /** Launch arguments shown as the example in the harness form. */
+    exampleArgs: string;
+    /**
+     * Whether the binary, session argv, config variable and version probe are
+     * all described by the harness itself rather than known to the driver.
+     */
+    isCustom: boolean;
+    /** Whether the driver can read who this CLI is signed in as. */
+    readsAccount: boolean;
     /**
      * Whether this CLI's transcripts can be read to name a session.
      *
@@ -75,6 +134,20 @@ export const HARNESS_DRIVERS: ReadonlyArray<{
      * `getSessionDisplayName`.
      */
     supportsSessionNaming: boolean;
+    /**
+     * Whether a session's whole conversation can be read back for the
+     * transcript viewer. Must match whether the driver implements
+     * `readTranscript`.
+     */
+    readsTranscripts: boolean;
+    /**
+     * Whether side tasks — commit messages, batch runs — can run on this
+     * CLI without a terminal. Must match whether the driver implements
+     * `runHeadless`.
+     */
+    runsHeadless: boolean;
+    /** What to expect of resuming when the CLI cannot be told a session's ID. */
+    resumeNote?: string;
 }> = [
     {
         id: 'claude',
@@ -84,7 +157,64 @@ export const HARNESS_DRIVERS: ReadonlyArray<{
         binaryName: 'claude',
         configDirEnvVar: 'CLAUDE_CONFIG_DIR',
         defaultConfigDir: '~/.claude',
+        exampleArgs: '--permission-mode plan',
+        isCustom: false,
+        readsAccount: true,
+        supportsSessionNaming: true,
+        readsTranscripts: true,
+        runsHeadless: true,
+    },
+    {
+        id: 'codex',
+        label: 'Codex CLI',
+        description: "OpenAI's Codex CLI.",
+        available: true,
+        binaryName: 'codex',
+        configDirEnvVar: 'CODEX_HOME',
+        defaultConfigDir: '~/.codex',
+        exampleArgs: '--model gpt-5-codex',
+        isCustom: false,
+        readsAccount: true,
+        // Named from the rollout the session is matched to after launch.
         supportsSessionNaming: true,
+        readsTranscripts: false,
+        runsHeadless: false,
+        resumeNote:
+            "Codex picks its own conversation IDs. A session resumes its own conversation once Consola has named it from its first message; until then, or if it was renamed first, it resumes the folder's most recent one.",
+    },
+    {
+        id: 'gemini',
+        label: 'Gemini CLI',
+        description: "Google's Gemini CLI.",
+        available: true,
+        binaryName: 'gemini',
+        // Stands in for the home directory; the profile is its `.gemini`.
+        configDirEnvVar: 'GEMINI_CLI_HOME',
+        defaultConfigDir: '~',
+        exampleArgs: '--model gemini-2.5-pro',
+        isCustom: false,
+        readsAccount: true,
+        // Named from the chat log the session is matched to after launch.
+        supportsSessionNaming: true,
+        readsTranscripts: false,
+        runsHeadless: false,
+        resumeNote:
+            "Gemini picks its own chat IDs. A session resumes its own chat once Consola has named it from its first message; until then, or if it was renamed first, it resumes the folder's latest chat.",
+    },
+    {
+        id: 'custom',
+        label: 'Custom',
+        description: 'Any terminal agent, described by its command line.',
+        available: true,
+        binaryName: 'aider',
+        configDirEnvVar: '',
+        defaultConfigDir: '',
+        exampleArgs: '--model sonnet',
+        isCustom: true,
+        readsAccount: false,
+        supportsSessionNaming: false,
+        readsTranscripts: false,
+        runsHeadless: false,
     },
 ];
 
@@ -98,3 +228,15 @@ export function driverSupportsSessionNaming(id: HarnessDriverId | undefined): bo
     if (!id) return true; // Built-in harness runs the Claude driver.
     return HARNESS_DRIVERS.find((driver) => driver.id === id)?.supportsSessionNaming ?? false;
 }
+
+/** Whether a driver's conversations can be opened in the transcript viewer. */
+export function driverReadsTranscripts(id: HarnessDriverId | undefined): boolean {
+    if (!id) return true; // Built-in harness runs the Claude driver.
+    return HARNESS_DRIVERS.find((driver) => driver.id === id)?.readsTranscripts ?? false;
+}
+
+/** Whether a driver can run side tasks headless. */
+export function driverRunsHeadless(id: HarnessDriverId | undefined): boolean {
+    if (!id) return true; // Built-in harness runs the Claude driver.
+    return HARNESS_DRIVERS.find((driver) => driver.id === id)?.runsHeadless ?? false;
+}
@@ -0,0 +1,127 @@
+// Five-field cron expressions: minute, hour, day of month, month, day of week.
+//
+// Shared so the renderer can check and preview an expression exactly as the
+// main process will fire it. Supports `*`, lists, ranges and steps
+// (`*/15`, `1-5`, `9,17`, `0-30/10`); day of week runs 0-6 from Sunday, and 7
+// is Sunday too. Times are local: a time skipped when clocks go forward fires at
+// the first minute after the change, and a time repeated when they go back
+// fires once.
+
+interface CronFields {
+    minutes: boolean[];
+    hours: boolean[];
+    days: boolean[];
+    months: boolean[];
+    weekdays: boolean[];
+    // Standard cron: when both day fields are restricted, either may match. As
+    // in Vixie cron, a field starting with `*` (`*/2` too) counts as unrestricted.
+    daysRestricted: boolean;
+    weekdaysRestricted: boolean;
+}
+
+// Far enough to find Feb 29 from any start; past this the expression never fires.
+const SEARCH_LIMIT_DAYS = 366 * 5;
+
+function parseField(field: string, min: number, max: number): boolean[] | null {
+    const allowed = new Array<boolean>(max + 1).fill(false);
+
+    for (const part of field.split(',')) {
+        const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+        if (!match) return null;
+
+        const [, range, startText, endText, stepText] = match;
+        const start = range === '*' ? min : Number(startText);
+        const end = range === '*' ? max : endText !== undefined ? Number(endText) : stepText ? max : start;
+        const step = stepText ? Number(stepText) : 1;
+        if (start < min || end > max || start > end || step < 1) return null;
+
+        for (let value = start; value <= end; value += step) allowed[value] = true;
+    }
+
+    return allowed;
+}
+
+function parseCron(expression: string): CronFields | null {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) return null;
+
+    const minutes = parseField(parts[0], 0, 59);
+    const hours = parseField(parts[1], 0, 23);
+    const days = parseField(parts[2], 1, 31);
+    const months = parseField(parts[3], 1, 12);
+    const weekdays = parseField(parts[4], 0, 7);
+    if (!minutes || !hours || !days || !months || !weekdays) return null;
+
+    if (weekdays[7]) weekdays[0] = true;
+
+    return {
+        minutes,
+        hours,
+        days,
+        months,
+        weekdays,
+        daysRestricted: !parts[2].startsWith('*'),
+        weekdaysRestricted: !parts[4].startsWith('*'),
+    };
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+    if (!fields.months[date.getMonth() + 1]) return false;
+    const day = fields.days[date.getDate()];
+    const weekday = fields.weekdays[date.getDay()];
+    if (fields.daysRestricted && fields.weekdaysRestricted) return day || weekday;
+    return day && weekday;
+}
+
+/**
+ * Whether moving the clock on to `candidate` skipped a matching hour: the
+ * wall-clock hours from `expectedHour` up to the one it landed on, which only
+ * a change to daylight saving time leaves out.
+ */
+function skippedMatchingHour(fields: CronFields, expectedHour: number, candidate: Date): boolean {
+    for (let hour = expectedHour; hour < candidate.getHours(); hour++) {
+        if (fields.hours[hour]) return true;
+    }
+    return false;
+}
+
+export function isValidCron(expression: string): boolean {
+    return parseCron(expression) !== null;
+}
+
+/**
+ * The first time after `after` (epoch ms) the expression matches, or null if
+ * it is invalid or never matches.
+ */
+export function nextCronTime(expression: string, after: number): number | null {
+    const fields = parseCron(expression);
+    if (!fields) return null;
+
+    const candidate = new Date(after);
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+
+    const limit = after + SEARCH_LIMIT_DAYS * 24 * 60 * 60 * 1000;
+    while (candidate.getTime() <= limit) {
+        if (!matchesDay(fields, candidate)) {
+            candidate.setDate(candidate.getDate() + 1);
+            candidate.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!fields.hours[candidate.getHours()]) {
+            const nextHour = candidate.getHours() + 1;
+            candidate.setHours(nextHour, 0, 0, 0);
+            if (skippedMatchingHour(fields, nextHour, candidate)) return candidate.getTime();
+            continue;
+        }
+        if (!fields.minutes[candidate.getMinutes()]) {
+            const nextHour = candidate.getHours() + 1;
+            candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+            if (skippedMatchingHour(fields, nextHour, candidate)) return candidate.getTime();
+            continue;
+        }
+        return candidate.getTime();
+    }
+
+    return null;
+}
@@ -0,0 +1,10 @@
+/**
+ * A fresh instance ID for a session tab, naming the workspace it belongs to.
+ *
+ * Shared so sessions the main process opens — scheduled prompts — look the same
+ * as those the renderer creates.
+ */
+export function generateSessionInstanceId(workspaceId: string): string {
+    const sessionId = Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
+    return `workspace-${workspaceId}-session-${sessionId}`;
+}
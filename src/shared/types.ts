@@ -1,5 +1,5 @@
 /** Agent CLI a harness drives. One driver per supported CLI. */
-export type HarnessDriverId = 'claude';
+export type HarnessDriverId = 'claude' | 'codex' | 'gemini' | 'custom';
 
 /**
  * How a session's harness is described across the IPC boundary.
@@ -17,8 +17,24 @@ export interface HarnessLaunchFields {
     configDirOverride?: string;
     /** Extra CLI arguments appended to the session's argv. */
     extraArgs?: string[];
+    /**
+     * Custom driver only: the session's argv, with `{sessionId}` substituted
+     * and tokens prefixed `{resume}` or `{new}` kept only for that kind of
+     * launch.
+     */
+    sessionArgsTemplate?: string[];
+    /** Custom driver only: the variable its config directory is passed in. */
+    configDirEnvVar?: string;
+    /** Custom driver only: arguments that make the binary print its version. */
+    versionArgs?: string[];
 }
 
+/**
+ * What a session's terminal runs: an agent CLI launched through its harness,
+ * or the user's own shell in the workspace folder.
+ */
+export type SessionKind = 'agent' | 'shell';
+
 export interface TerminalDimensions {
     cols: number;
     rows: number;
@@ -26,6 +42,8 @@ export interface TerminalDimensions {
 
 export interface TerminalCreateOptions extends HarnessLaunchFields {
     instanceId: string;
+    /** Absent means an agent session. */
+    kind?: SessionKind;
     cwd: string;
     /** Session ID Consola assigned to this tab. */
     claudeSessionId: string;
@@ -42,6 +60,19 @@ export interface TerminalCreateOptions extends HarnessLaunchFields {
 export interface TerminalSnapshot {
     replay: string;
     exited: boolean;
+    /** Prompts waiting to be submitted, in order. */
+    queue: QueuedPrompt[];
+}
+
+/** A prompt waiting its turn in a session's queue. */
+export interface QueuedPrompt {
+    id: string;
+    text: string;
+}
+
+export interface TerminalQueueMessage {
+    instanceId: string;
+    queue: QueuedPrompt[];
 }
 
 export interface TerminalDataMessage {
@@ -54,9 +85,41 @@ export interface TerminalActivityMessage {
     busy: boolean;
 }
 
+/** What answering a confirmation menu with an option means, read from its wording. */
+export type ConfirmationIntent = 'approve' | 'approve-always' | 'deny' | 'other';
+
+/** One option of a confirmation menu on a session's screen. */
+export interface ConfirmationChoice {
+    /** The number the menu shows beside it. */
+    number: number;
+    label: string;
+    intent: ConfirmationIntent;
+}
+
 export interface TerminalAwaitingConfirmationMessage {
     instanceId: string;
     awaiting: boolean;
+    /** The menu's options, or empty if they could not be read off the screen. */
+    choices: ConfirmationChoice[];
+    /** Which menu this is; an answer must name it to be sent. */
+    menuId: number;
+}
+
+/**
+ * A lifecycle event an agent reported through its hooks. Only drivers whose
+ * CLI has hooks produce these; the others are read off their output instead.
+ */
+export type SessionHookEvent =
+    | { kind: 'prompt-submit' }
+    | { kind: 'tool-start'; toolName: string; toolUseId?: string }
+    | { kind: 'tool-end'; toolName: string; toolUseId?: string }
+    | { kind: 'permission-request'; toolName: string }
+    | { kind: 'notification'; message: string }
+    | { kind: 'stop' };
+
+export interface TerminalHookEventMessage {
+    instanceId: string;
+    event: SessionHookEvent;
 }
 
 export interface TerminalExitMessage {
@@ -71,12 +134,66 @@ export interface TerminalAPI {
     resize: (instanceId: string, cols: number, rows: number) => void;
     restart: (instanceId: string) => void;
     destroy: (instanceId: string) => void;
+    getScreenTail: (instanceId: string, lineCount: number) => Promise<string[]>;
+    answerConfirmation: (
+        instanceId: string,
+        menuId: number,
+        choice: ConfirmationChoice
+    ) => Promise<boolean>;
+    queuePrompt: (instanceId: string, text: string) => void;
+    removeQueuedPrompt: (instanceId: string, id: string) => void;
+    moveQueuedPrompt: (instanceId: string, id: string, toIndex: number) => void;
     onData: (callback: (message: TerminalDataMessage) => void) => () => void;
     onActivity: (callback: (message: TerminalActivityMessage) => void) => () => void;
     onAwaitingConfirmation: (
         callback: (message: TerminalAwaitingConfirmationMessage) => void
     ) => () => void;
     onExit: (callback: (message: TerminalExitMessage) => void) => () => void;
+    onHookEvent: (callback: (message: TerminalHookEventMessage) => void) => () => void;
+    onQueue: (callback: (message: TerminalQueueMessage) => void) => () => void;
+}
+
+/** When a scheduled prompt fires: once, or whenever a cron expression matches. */
+export type ScheduleTiming =
+    | { kind: 'once'; at: number }
+    | { kind: 'cron'; expression: string };
+
+/**
+ * A schedule as the main process fires it, resolved by the renderer into
+ * everything a launch needs.
+ */
+export interface ScheduledPromptSpec {
+    scheduleId: string;
+    prompt: string;
+    timing: ScheduleTiming;
+    workspaceId: string;
+    cwd: string;
+    harness: HarnessLaunchFields;
+    /** The session to prompt; absent starts a fresh session each run. */
+    session?: {
+        instanceId: string;
+        claudeSessionId: string;
+        /** Whether it has run before and should resume its conversation. */
+        resume: boolean;
+    };
+}
+
+/** A schedule fired, into the session it names or a new one. */
+export interface ScheduleFiredMessage {
+    scheduleId: string;
+    firedAt: number;
+    workspaceId: string;
+    instanceId: string;
+    claudeSessionId: string;
+    isNewSession: boolean;
+    /** Set when the terminal could not be started, or restarted after it exited. */
+    error?: string;
+}
+
+export interface ScheduleAPI {
+    /** Replace the schedules the main process fires. */
+    sync: (specs: ScheduledPromptSpec[]) => void;
+    onFired: (callback: (message: ScheduleFiredMessage) => void) => () => void;
 }
 
 /**
@@ -105,17 +222,213 @@ export interface HarnessProbeResult {
     error?: string;
 }
 
+/** One piece of a transcript turn, in the order the CLI recorded it. */
+export type TranscriptBlock =
+    | { kind: 'text'; text: string }
+    | { kind: 'thinking'; text: string }
+    | { kind: 'tool-use'; toolUseId: string; name: string; input: unknown }
+    | {
+          kind: 'tool-result';
+          toolUseId: string;
+          content: string;
+          isError: boolean;
+          /** Content was cut short to keep the transcript a sensible size. */
+          truncated: boolean;
+      };
+
+/**
+ * A single message of a saved conversation.
+ *
+ * Tool results travel back to the model as user messages, so a user turn may
+ * hold nothing but results; renderers tell those apart by their blocks.
+ */
+export interface TranscriptTurn {
+    /** Stable ID of the turn's first record, used to scroll to it. */
+    id: string;
+    role: 'user' | 'assistant';
+    /** ISO timestamp, when the CLI recorded one. */
+    timestamp?: string;
+    blocks: TranscriptBlock[];
+}
+
+/** A turn of some saved conversation that matched a transcript search. */
+export interface TranscriptSearchHit {
+    /** The session ID the transcript is filed under. */
+    sessionId: string;
+    turnId: string;
+    role: 'user' | 'assistant';
+    timestamp?: string;
+    /** The matched text with a little context either side. */
+    snippet: string;
+    /** Where the match starts and ends within `snippet`. */
+    matchStart: number;
+    matchEnd: number;
+}
+
+/** Tokens a conversation has used, and what they would cost at list price. */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+    /** Estimated from the models' published per-token prices. */
+    costUsd: number;
+}
+
+/** How full a conversation's context window is, as of its latest reply. */
+export interface ContextStatus {
+    /** Model that wrote the latest reply, as the API named it. */
+    model: string | null;
+    /** Tokens the latest request held: prompt, cache and reply. */
+    usedTokens: number;
+    windowTokens: number;
+    /** Usage at which the CLI compacts the conversation on its own. */
+    autoCompactTokens: number;
+    /** Compacted since the latest reply, so `usedTokens` is not known yet. */
+    compacted: boolean;
+}
+
+export interface ContextUpdateMessage {
+    sessionId: string;
+    status: ContextStatus;
+}
+
+/** A conversation found in a harness's profile that a session could adopt. */
+export interface ImportableSession {
+    sessionId: string;
+    /** The summary the CLI wrote, when it has written one. */
+    summary: string;
+    firstPrompt: string;
+    /** Directory the conversation was started in. */
+    projectPath: string;
+    gitBranch: string;
+    messageCount: number;
+    /** ISO timestamps. */
+    created: string;
+    modified: string;
+}
+
 export interface HarnessAPI {
     probe: (fields: HarnessLaunchFields) => Promise<HarnessProbeResult>;
     getSessionName: (
         sessionId: string,
         fields: HarnessLaunchFields
     ) => Promise<string | null>;
+    getTranscript: (
+        sessionId: string,
+        fields: HarnessLaunchFields
+    ) => Promise<TranscriptTurn[] | null>;
+    searchTranscripts: (
+        query: string,
+        harnesses: HarnessLaunchFields[]
+    ) => Promise<TranscriptSearchHit[]>;
+    listProjectSessions: (
+        projectPath: string,
+        fields: HarnessLaunchFields
+    ) => Promise<ImportableSession[]>;
+    forkSession: (
+        sessionId: string,
+        newSessionId: string,
+        fields: HarnessLaunchFields,
+        throughTurnId?: string
+    ) => Promise<void>;
+    getUsage: (
+        sessionIds: string[],
+        fields: HarnessLaunchFields
+    ) => Promise<Record<string, TokenUsage>>;
+    /** Start following a session's context usage; resolves to the current status. */
+    watchContext: (
+        sessionId: string,
+        fields: HarnessLaunchFields
+    ) => Promise<ContextStatus | null>;
+    unwatchContext: (sessionId: string) => void;
+    onContextUpdate: (callback: (message: ContextUpdateMessage) => void) => () => void;
+    /** Stop a headless side task; it resolves as cancelled. */
+    cancelHeadless: (taskId: string) => void;
+    onHeadlessProgress: (callback: (message: HeadlessProgressMessage) => void) => () => void;
+}
+
+/** A desktop notification. A newer one with the same tag replaces it. */
+export interface AppNotification {
+    tag: string;
+    title: string;
+    body: string;
+    /** Button labels. Only macOS shows them; elsewhere the notification is just clicked. */
+    actions?: string[];
+}
+
+export interface AppNotificationEventMessage {
+    tag: string;
+    /** Index into the notification's actions; absent when it was clicked. */
+    actionIndex?: number;
+}
+
+export interface AppAPI {
+    /** Show a count on the dock or taskbar icon; zero clears it. */
+    setBadgeCount: (count: number) => void;
+    focusWindow: () => void;
+    notify: (notification: AppNotification) => void;
+    onNotificationEvent: (callback: (message: AppNotificationEventMessage) => void) => () => void;
+}
+
+/**
+ * Which tools a headless run may use without asking. There is no one to ask,
+ * so anything outside the policy is refused.
+ */
+export type HeadlessToolPolicy = 'none' | 'read-only' | 'edit' | 'all';
+
+/** Something a headless run did, reported as its output streams in. */
+export type HeadlessEvent =
+    /** The reply being written, whole so far; repeated as it grows. */
+    | { kind: 'text'; text: string }
+    | { kind: 'tool'; name: string; /** What the call is about: a path, a pattern. */ detail?: string }
+    | { kind: 'result'; text: string; isError: boolean; costUsd?: number };
+
+/** Progress of a headless side task the renderer started under `taskId`. */
+export interface HeadlessProgressMessage {
+    taskId: string;
+    event: HeadlessEvent;
+}
+
+/** One prompt run headless in several workspaces at once. */
+export interface BatchRunRequest {
+    batchId: string;
+    prompt: string;
+    toolPolicy: HeadlessToolPolicy;
+    harness: HarnessLaunchFields;
+    /** How many workspaces run at the same time. */
+    concurrency: number;
+    targets: { workspaceId: string; cwd: string }[];
+}
+
+export type BatchTargetStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** A workspace's run in a batch changed state. */
+export interface BatchRunUpdateMessage {
+    batchId: string;
+    workspaceId: string;
+    status: BatchTargetStatus;
+    /** The agent's final answer, or what went wrong. */
+    output?: string;
+    /** While running: what the agent is doing now. */
+    activity?: string;
+    costUsd?: number;
+    durationMs?: number;
+}
+
+export interface BatchAPI {
+    start: (request: BatchRunRequest) => void;
+    /** Stop a batch: running workspaces are killed, queued ones never start. */
+    cancel: (batchId: string) => void;
+    onUpdate: (callback: (message: BatchRunUpdateMessage) => void) => () => void;
 }
 
 declare global {
     interface Window {
         terminalAPI: TerminalAPI;
         harnessAPI: HarnessAPI;
+        appAPI: AppAPI;
+        scheduleAPI: ScheduleAPI;
+        batchAPI: BatchAPI;
     }
 }